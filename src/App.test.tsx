@@ -1,9 +1,42 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import App from './App';
+import { PRINTERS } from './config/printers';
+import { createSimulatedBackend } from './simulator/simulatedFetch';
 
-test('renders learn react link', () => {
+beforeEach(() => {
+  localStorage.clear();
+  window.history.pushState({}, '', '/');
+  jest.spyOn(global, 'fetch').mockImplementation(createSimulatedBackend().fetch);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+const signIn = (username: string, password: string) => {
+  fireEvent.change(screen.getByLabelText('Username'), { target: { value: username } });
+  fireEvent.change(screen.getByLabelText('Password'), { target: { value: password } });
+  fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+};
+
+test('asks signed-out users to sign in', async () => {
+  render(<App />);
+
+  expect(await screen.findByRole('button', { name: 'Sign in' })).toBeInTheDocument();
+});
+
+test('rejects wrong credentials', async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+
+  signIn('operator', 'wrong');
+
+  expect(await screen.findByText('Invalid username or password.')).toBeInTheDocument();
+});
+
+test('signs in and shows the fleet', async () => {
+  render(<App />);
+
+  signIn('operator', 'password');
+
+  expect(await screen.findByText(PRINTERS[0].name)).toBeInTheDocument();
+  expect(await screen.findByText('Idle')).toBeInTheDocument();
 });
@@ -1,12 +1,48 @@
 import React from 'react';
-import Dashboard from "./components/Dashboard";
+import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "./auth/AuthContext";
+import RequireAuth from "./auth/RequireAuth";
+import FleetOverview from "./components/FleetOverview";
+import PrinterPage from "./components/PrinterPage";
+import LoginPage from "./components/LoginPage";
+import AuditLogPage from "./components/AuditLogPage";
+import JobDetailPage from "./components/JobDetailPage";
+import AnalyticsPage from "./components/AnalyticsPage";
+import ConnectivityBanner from "./components/ConnectivityBanner";
+import SettingsPage from "./components/SettingsPage";
+import { ConnectivityProvider } from "./offline/ConnectivityContext";
+import { SettingsProvider } from "./config/SettingsContext";
+import { NotificationProvider } from "./notifications/NotificationContext";
+import NotificationToasts from "./components/NotificationToasts";
 import './App.css';
 
 const App: React.FC = () => {
   return (
-      <div>
-        <Dashboard />
-      </div>
+      <SettingsProvider>
+        <NotificationProvider>
+          <AuthProvider>
+            <ConnectivityProvider>
+              <BrowserRouter>
+                <ConnectivityBanner />
+                <Routes>
+                  <Route path="/login" element={<LoginPage />} />
+                  {/* Reachable signed out, so a wrong login service URL can be fixed. */}
+                  <Route path="/settings" element={<SettingsPage />} />
+                  <Route path="/" element={<RequireAuth><FleetOverview /></RequireAuth>} />
+                  <Route path="/printers/:printerId" element={<RequireAuth><PrinterPage /></RequireAuth>} />
+                  <Route path="/printers/:printerId/analytics" element={<RequireAuth><AnalyticsPage /></RequireAuth>} />
+                  <Route path="/printers/:printerId/jobs/:jobId" element={<RequireAuth><JobDetailPage /></RequireAuth>} />
+                  <Route
+                      path="/printers/:printerId/audit"
+                      element={<RequireAuth permission="viewAudit"><AuditLogPage /></RequireAuth>}
+                  />
+                </Routes>
+              </BrowserRouter>
+            </ConnectivityProvider>
+          </AuthProvider>
+          <NotificationToasts />
+        </NotificationProvider>
+      </SettingsProvider>
   );
 };
 
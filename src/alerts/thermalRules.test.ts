@@ -0,0 +1,39 @@
+import { DEFAULT_RULES, evaluateRule, ThermalRule } from './thermalRules';
+import { TemperatureSample } from '../types';
+
+const rule = (id: string) => DEFAULT_RULES.find((r) => r.id === id) as ThermalRule;
+
+// One sample per second starting at t=0.
+const series = (values: Partial<TemperatureSample>[]): TemperatureSample[] =>
+  values.map((value, i) => ({ timestamp: i * 1000, nozzle: 20, bed: 20, ...value }));
+
+test('threshold rule fires above its limit', () => {
+  expect(evaluateRule(rule('nozzle-overheat'), { samples: series([{ nozzle: 295 }]), printing: true }))
+    .toMatch(/above the 290°C limit/);
+  expect(evaluateRule(rule('nozzle-overheat'), { samples: series([{ nozzle: 210 }]), printing: true })).toBeNull();
+});
+
+test('disabled rules never fire', () => {
+  const disabled = { ...rule('nozzle-overheat'), enabled: false };
+  expect(evaluateRule(disabled, { samples: series([{ nozzle: 400 }]), printing: true })).toBeNull();
+});
+
+test('rate-of-change rule detects runaway heating', () => {
+  const samples = series(Array.from({ length: 11 }, (_, i) => ({ nozzle: 200 + i * 8 })));
+  expect(evaluateRule(rule('nozzle-runaway'), { samples, printing: true })).toMatch(/8.0°C\/s/);
+});
+
+test('target-not-reached rule waits for the configured time', () => {
+  const waiting = series(Array.from({ length: 301 }, () => ({ nozzle: 150, nozzleTarget: 210 })));
+  expect(evaluateRule(rule('nozzle-heatup'), { samples: waiting, printing: false })).toMatch(/not reached 210°C/);
+  expect(evaluateRule(rule('nozzle-heatup'), { samples: waiting.slice(0, 200), printing: false })).toBeNull();
+});
+
+test('target-deviation rule catches a bed cooling mid-print', () => {
+  const atTemp = Array.from({ length: 10 }, () => ({ bed: 60, bedTarget: 60 }));
+  const cooling = Array.from({ length: 31 }, () => ({ bed: 40, bedTarget: 60 }));
+  const samples = series([...atTemp, ...cooling]);
+
+  expect(evaluateRule(rule('bed-cooling'), { samples, printing: true })).toMatch(/drifted from its 60°C target/);
+  expect(evaluateRule(rule('bed-cooling'), { samples, printing: false })).toBeNull();
+});
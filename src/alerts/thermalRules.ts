@@ -0,0 +1,214 @@
+import { TemperatureSample } from "../types";
+
+export type Sensor = "nozzle" | "bed";
+export type Severity = "info" | "warning" | "critical";
+
+interface RuleBase {
+    id: string;
+    name: string;
+    sensor: Sensor;
+    severity: Severity;
+    enabled: boolean;
+    // Pause the print through the pause endpoint when a critical rule fires.
+    autoPause: boolean;
+}
+
+export interface ThresholdRule extends RuleBase {
+    kind: "threshold";
+    direction: "above" | "below";
+    limit: number;
+    onlyWhilePrinting: boolean;
+}
+
+export interface RateOfChangeRule extends RuleBase {
+    kind: "rateOfChange";
+    maxRate: number; // °C per second, either direction
+    windowSeconds: number;
+}
+
+export interface TargetNotReachedRule extends RuleBase {
+    kind: "targetNotReached";
+    withinMinutes: number;
+    tolerance: number;
+}
+
+export interface TargetDeviationRule extends RuleBase {
+    kind: "targetDeviation";
+    tolerance: number;
+    durationSeconds: number;
+}
+
+export type ThermalRule = ThresholdRule | RateOfChangeRule | TargetNotReachedRule | TargetDeviationRule;
+
+export interface RuleContext {
+    samples: TemperatureSample[];
+    printing: boolean;
+}
+
+const SENSOR_LABELS: Record<Sensor, string> = { nozzle: "Nozzle", bed: "Bed" };
+
+const actual = (sample: TemperatureSample, sensor: Sensor) => (sensor === "nozzle" ? sample.nozzle : sample.bed);
+
+const target = (sample: TemperatureSample, sensor: Sensor) =>
+    sensor === "nozzle" ? sample.nozzleTarget : sample.bedTarget;
+
+// Index of the first sample of the run that shares the latest sample's target.
+const targetSetIndex = (samples: TemperatureSample[], sensor: Sensor) => {
+    const current = target(samples[samples.length - 1], sensor);
+    let index = samples.length - 1;
+    while (index > 0 && target(samples[index - 1], sensor) === current) index--;
+    return index;
+};
+
+const evaluateThreshold = (rule: ThresholdRule, { samples, printing }: RuleContext) => {
+    if (rule.onlyWhilePrinting && !printing) return null;
+
+    const value = actual(samples[samples.length - 1], rule.sensor);
+    const violated = rule.direction === "above" ? value > rule.limit : value < rule.limit;
+
+    return violated
+        ? `${SENSOR_LABELS[rule.sensor]} at ${value.toFixed(1)}°C is ${rule.direction} the ${rule.limit}°C limit.`
+        : null;
+};
+
+const evaluateRateOfChange = (rule: RateOfChangeRule, { samples }: RuleContext) => {
+    const latest = samples[samples.length - 1];
+    const windowStart = latest.timestamp - rule.windowSeconds * 1000;
+
+    let first = samples.length - 1;
+    while (first > 0 && samples[first - 1].timestamp >= windowStart) first--;
+
+    const elapsed = (latest.timestamp - samples[first].timestamp) / 1000;
+    if (elapsed <= 0) return null;
+
+    const rate = (actual(latest, rule.sensor) - actual(samples[first], rule.sensor)) / elapsed;
+
+    return Math.abs(rate) > rule.maxRate
+        ? `${SENSOR_LABELS[rule.sensor]} changing at ${rate.toFixed(1)}°C/s (limit ${rule.maxRate}°C/s).`
+        : null;
+};
+
+const evaluateTargetNotReached = (rule: TargetNotReachedRule, { samples }: RuleContext) => {
+    const latest = samples[samples.length - 1];
+    const goal = target(latest, rule.sensor);
+    if (!goal) return null;
+
+    const since = targetSetIndex(samples, rule.sensor);
+    const reached = samples.slice(since).some((sample) => actual(sample, rule.sensor) >= goal - rule.tolerance);
+    const waitedMinutes = (latest.timestamp - samples[since].timestamp) / 60000;
+
+    return !reached && waitedMinutes >= rule.withinMinutes
+        ? `${SENSOR_LABELS[rule.sensor]} has not reached ${goal}°C within ${rule.withinMinutes} min.`
+        : null;
+};
+
+const evaluateTargetDeviation = (rule: TargetDeviationRule, { samples, printing }: RuleContext) => {
+    if (!printing) return null;
+
+    const latest = samples[samples.length - 1];
+    const goal = target(latest, rule.sensor);
+    if (!goal) return null;
+
+    // Only a heater that already got to temperature can drift away from it.
+    const since = targetSetIndex(samples, rule.sensor);
+    const reachedAt = samples.slice(since).findIndex((sample) => Math.abs(actual(sample, rule.sensor) - goal) <= rule.tolerance);
+    if (reachedAt === -1) return null;
+
+    const windowStart = latest.timestamp - rule.durationSeconds * 1000;
+    const recent = samples.slice(since + reachedAt).filter((sample) => sample.timestamp >= windowStart);
+    const coversWindow = samples[since + reachedAt].timestamp <= windowStart;
+    const deviated = recent.every((sample) => Math.abs(actual(sample, rule.sensor) - goal) > rule.tolerance);
+
+    return coversWindow && recent.length > 0 && deviated
+        ? `${SENSOR_LABELS[rule.sensor]} at ${actual(latest, rule.sensor).toFixed(1)}°C has drifted from its ${goal}°C target for ${rule.durationSeconds} s.`
+        : null;
+};
+
+/**
+ * Returns a human-readable message when `rule` is violated by the latest samples, otherwise null.
+ */
+export const evaluateRule = (rule: ThermalRule, context: RuleContext): string | null => {
+    if (!rule.enabled || context.samples.length === 0) return null;
+
+    switch (rule.kind) {
+        case "threshold":
+            return evaluateThreshold(rule, context);
+        case "rateOfChange":
+            return evaluateRateOfChange(rule, context);
+        case "targetNotReached":
+            return evaluateTargetNotReached(rule, context);
+        case "targetDeviation":
+            return evaluateTargetDeviation(rule, context);
+    }
+};
+
+export const DEFAULT_RULES: ThermalRule[] = [
+    {
+        id: "nozzle-overheat",
+        name: "Nozzle over-temperature",
+        kind: "threshold",
+        sensor: "nozzle",
+        direction: "above",
+        limit: 290,
+        onlyWhilePrinting: false,
+        severity: "critical",
+        enabled: true,
+        autoPause: true,
+    },
+    {
+        id: "bed-overheat",
+        name: "Bed over-temperature",
+        kind: "threshold",
+        sensor: "bed",
+        direction: "above",
+        limit: 120,
+        onlyWhilePrinting: false,
+        severity: "critical",
+        enabled: true,
+        autoPause: true,
+    },
+    {
+        id: "nozzle-runaway",
+        name: "Nozzle thermal runaway",
+        kind: "rateOfChange",
+        sensor: "nozzle",
+        maxRate: 5,
+        windowSeconds: 10,
+        severity: "critical",
+        enabled: true,
+        autoPause: false,
+    },
+    {
+        id: "nozzle-heatup",
+        name: "Nozzle heater not reaching target",
+        kind: "targetNotReached",
+        sensor: "nozzle",
+        withinMinutes: 5,
+        tolerance: 5,
+        severity: "warning",
+        enabled: true,
+        autoPause: false,
+    },
+    {
+        id: "bed-heatup",
+        name: "Bed heater not reaching target",
+        kind: "targetNotReached",
+        sensor: "bed",
+        withinMinutes: 10,
+        tolerance: 3,
+        severity: "warning",
+        enabled: true,
+        autoPause: false,
+    },
+    {
+        id: "bed-cooling",
+        name: "Bed cooling mid-print",
+        kind: "targetDeviation",
+        sensor: "bed",
+        tolerance: 10,
+        durationSeconds: 30,
+        severity: "critical",
+        enabled: true,
+        autoPause: false,
+    },
+];
@@ -0,0 +1,74 @@
+import {
+  DEFAULT_FILAMENT_SETTINGS,
+  estimateAccuracy,
+  filamentByFile,
+  filamentCost,
+  filamentGrams,
+  periodKey,
+  ratingsByFile,
+  successRateByPeriod,
+} from './stats';
+import { job } from '../testFixtures';
+
+test('converts filament length to grams and cost', () => {
+  // One metre of 1.75 mm PLA weighs about 2.98 g.
+  expect(filamentGrams(1000, DEFAULT_FILAMENT_SETTINGS)).toBeCloseTo(2.98, 2);
+  expect(filamentCost(1000, DEFAULT_FILAMENT_SETTINGS)).toBe(25);
+});
+
+test('week periods start on Monday', () => {
+  expect(periodKey('2025-03-12T08:00:00', 'week')).toBe('2025-03-10');
+  expect(periodKey('2025-03-16T23:00:00', 'week')).toBe('2025-03-10');
+  expect(periodKey('2025-03-12T08:00:00', 'day')).toBe('2025-03-12');
+});
+
+test('success rate ignores running jobs', () => {
+  const jobs = [
+    job(1, { start_time: '2025-03-11T10:00:00' }),
+    job(2, { status: 'FAILED', start_time: '2025-03-11T12:00:00' }),
+    job(3, { status: 'STARTED', start_time: '2025-03-11T14:00:00' }),
+    job(4, { start_time: '2025-03-10T09:00:00' }),
+  ];
+  expect(successRateByPeriod(jobs, 'day')).toEqual([
+    { period: '2025-03-10', succeeded: 1, failed: 0, rate: 1 },
+    { period: '2025-03-11', succeeded: 1, failed: 1, rate: 0.5 },
+  ]);
+});
+
+test('sums filament per file', () => {
+  const jobs = [
+    job(1, { file_name: 'cube.gcode', filament_used: 1000 }),
+    job(2, { file_name: 'cube.gcode', filament_used: 500 }),
+    job(3, { file_name: 'vase.gcode', filament_used: 3000 }),
+    job(4, { file_name: 'skipped.gcode' }),
+  ];
+  const usage = filamentByFile(jobs, DEFAULT_FILAMENT_SETTINGS);
+  expect(usage.map((entry) => [entry.file, entry.length, entry.jobs])).toEqual([
+    ['vase.gcode', 3000, 1],
+    ['cube.gcode', 1500, 2],
+  ]);
+});
+
+test('measures estimate error for finished jobs', () => {
+  const jobs = [
+    job(1, { start_time: '2025-03-10T12:00:00Z', end_time: '2025-03-10T13:30:00Z', estimated_completion_time: 3600 }),
+    job(2, { status: 'FAILED', start_time: '2025-03-10T12:00:00Z', end_time: '2025-03-10T12:05:00Z', estimated_completion_time: 3600 }),
+  ];
+  expect(estimateAccuracy(jobs)).toEqual([
+    expect.objectContaining({ jobId: 1, actual: 5400, estimated: 3600, error: 0.5 }),
+  ]);
+});
+
+test('averages ratings per file', () => {
+  const jobs = [job(1, { file_name: 'cube.gcode' }), job(2, { file_name: 'cube.gcode' }), job(3, { file_name: 'vase.gcode' })];
+  const ratings = [
+    { jobId: 1, printQuality: 8, printSpeed: 6, feedback: '', defects: [], photo: null },
+    { jobId: 2, printQuality: 6, printSpeed: 4, feedback: '', defects: [], photo: null },
+    { jobId: 3, printQuality: 9, printSpeed: 9, feedback: '', defects: [], photo: null },
+    { jobId: 99, printQuality: 1, printSpeed: 1, feedback: '', defects: [], photo: null },
+  ];
+  expect(ratingsByFile(jobs, ratings)).toEqual([
+    { file: 'cube.gcode', count: 2, quality: 7, speed: 5 },
+    { file: 'vase.gcode', count: 1, quality: 9, speed: 9 },
+  ]);
+});
@@ -0,0 +1,114 @@
+import { Job, JobRating } from "../types";
+import { JobStatus } from "../lifecycle/jobState";
+
+export interface FilamentSettings {
+    diameter: number; // mm
+    density: number; // g/cm³
+    pricePerKg: number;
+}
+
+// 1.75 mm PLA at a typical spool price.
+export const DEFAULT_FILAMENT_SETTINGS: FilamentSettings = { diameter: 1.75, density: 1.24, pricePerKg: 25 };
+
+export type Period = "day" | "week";
+
+const SUCCESS_STATUSES: JobStatus[] = ["FINISHED"];
+// Also covers the "CANCELED" spelling, which parsing normalises to CANCELLED.
+const FAILURE_STATUSES: JobStatus[] = ["FAILED", "CANCELLED"];
+
+/** Converts a filament length in mm to grams for the given filament. */
+export const filamentGrams = (lengthMm: number, settings: FilamentSettings) => {
+    const radiusCm = settings.diameter / 20;
+    return Math.PI * radiusCm * radiusCm * (lengthMm / 10) * settings.density;
+};
+
+export const filamentCost = (grams: number, settings: FilamentSettings) => (grams / 1000) * settings.pricePerKg;
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+// Local calendar day, or the Monday starting its week, as "YYYY-MM-DD".
+export const periodKey = (timestamp: string, period: Period) => {
+    const date = new Date(timestamp);
+    if (period === "week") date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Finished vs. failed jobs per day or week, oldest first. Jobs still running are left out. */
+export const successRateByPeriod = (jobs: Job[], period: Period) => {
+    const buckets = new Map<string, { succeeded: number; failed: number }>();
+
+    jobs.forEach((job) => {
+        const succeeded = SUCCESS_STATUSES.includes(job.status);
+        if (!succeeded && !FAILURE_STATUSES.includes(job.status)) return;
+
+        const key = periodKey(job.start_time, period);
+        const bucket = buckets.get(key) ?? { succeeded: 0, failed: 0 };
+        if (succeeded) bucket.succeeded++;
+        else bucket.failed++;
+        buckets.set(key, bucket);
+    });
+
+    return Array.from(buckets.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, { succeeded, failed }]) => ({
+            period: key,
+            succeeded,
+            failed,
+            rate: succeeded / (succeeded + failed),
+        }));
+};
+
+/** Filament per file, largest consumer first. */
+export const filamentByFile = (jobs: Job[], settings: FilamentSettings) => {
+    const totals = new Map<string, { length: number; jobs: number }>();
+
+    jobs.forEach((job) => {
+        if (!job.filament_used) return;
+        const total = totals.get(job.file_name) ?? { length: 0, jobs: 0 };
+        total.length += job.filament_used;
+        total.jobs++;
+        totals.set(job.file_name, total);
+    });
+
+    return Array.from(totals.entries())
+        .map(([file, { length, jobs: count }]) => {
+            const grams = filamentGrams(length, settings);
+            return { file, jobs: count, length, grams, cost: filamentCost(grams, settings) };
+        })
+        .sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Estimated vs. actual print time for finished jobs, oldest first. `error` is the relative
+ * deviation: positive when the print took longer than estimated.
+ */
+export const estimateAccuracy = (jobs: Job[]) =>
+    jobs
+        .filter((job) => SUCCESS_STATUSES.includes(job.status) && job.end_time && job.estimated_completion_time)
+        .map((job) => {
+            const actual = (new Date(job.end_time as string).getTime() - new Date(job.start_time).getTime()) / 1000;
+            const estimated = job.estimated_completion_time as number;
+            return { jobId: job.id, file: job.file_name, start: job.start_time, estimated, actual, error: (actual - estimated) / estimated };
+        })
+        .filter((entry) => Number.isFinite(entry.actual) && entry.actual > 0)
+        .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+/** Average submitted ratings per file, most rated first. Ratings for unknown jobs are ignored. */
+export const ratingsByFile = (jobs: Job[], ratings: JobRating[]) => {
+    const fileByJob = new Map(jobs.map((job) => [job.id, job.file_name]));
+    const totals = new Map<string, { quality: number; speed: number; count: number }>();
+
+    ratings.forEach((rating) => {
+        const file = fileByJob.get(rating.jobId);
+        if (!file) return;
+        const total = totals.get(file) ?? { quality: 0, speed: 0, count: 0 };
+        total.quality += rating.printQuality;
+        total.speed += rating.printSpeed;
+        total.count++;
+        totals.set(file, total);
+    });
+
+    return Array.from(totals.entries())
+        .map(([file, { quality, speed, count }]) => ({ file, count, quality: quality / count, speed: speed / count }))
+        .sort((a, b) => b.count - a.count);
+};
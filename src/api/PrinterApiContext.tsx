@@ -0,0 +1,26 @@
+import React, { createContext, useContext, useMemo } from "react";
+import { Printer } from "../types";
+import { createPrinterApi, PrinterApi } from "./client";
+import { useAuth } from "../auth/AuthContext";
+
+export type PrinterApiFactory = (printer: Printer, authToken?: string | null) => PrinterApi;
+
+const PrinterApiContext = createContext<PrinterApiFactory>(createPrinterApi);
+
+interface PrinterApiProviderProps {
+    factory: PrinterApiFactory;
+    children: React.ReactNode;
+}
+
+// Lets tests and stand-in backends swap the client used by every component below.
+export const PrinterApiProvider: React.FC<PrinterApiProviderProps> = ({ factory, children }) => (
+    <PrinterApiContext.Provider value={factory}>{children}</PrinterApiContext.Provider>
+);
+
+export const usePrinterApiFactory = () => useContext(PrinterApiContext);
+
+export const usePrinterApi = (printer: Printer) => {
+    const factory = useContext(PrinterApiContext);
+    const { token } = useAuth();
+    return useMemo(() => factory(printer, token), [factory, printer, token]);
+};
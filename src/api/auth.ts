@@ -0,0 +1,9 @@
+import { Session } from "../auth/roles";
+import { jsonInit, requestJson } from "./http";
+import { parseSession } from "./validation";
+
+/**
+ * POST /auth/login { username, password } -> { token, user: { username, role } }, 401 on bad credentials.
+ */
+export const login = (authUrl: string, username: string, password: string): Promise<Session> =>
+    requestJson(`${authUrl}/login`, parseSession, jsonInit("POST", { username, password }));
@@ -0,0 +1,114 @@
+import { createPrinterApi } from './client';
+import { ApiError } from './errors';
+import { onUnauthorized } from './http';
+
+const printer = { id: 'test', name: 'Test', baseUrl: 'http://printer.test', cameras: [] };
+
+const mockFetch = (impl: () => Promise<Partial<Response>>) => {
+  jest.spyOn(global, 'fetch').mockImplementation(impl as unknown as typeof fetch);
+};
+
+afterEach(() => jest.restoreAllMocks());
+
+const jsonResponse = (body: unknown, status = 200) =>
+  Promise.resolve({ ok: status < 400, status, json: () => Promise.resolve(body) });
+
+test('parses a valid printer status', async () => {
+  mockFetch(() => jsonResponse({
+    state: 'Printing', nozzle_temperature: 210, bed_temperature: 60, operational: true, printing: true, paused: false,
+  }));
+
+  const status = await createPrinterApi(printer).getPrinterStatus();
+
+  expect(status.state).toBe('Printing');
+  expect(global.fetch).toHaveBeenCalledWith('http://printer.test/dashboard/printer-status', { headers: {} });
+});
+
+test('normalizes null numeric job fields', async () => {
+  mockFetch(() => jsonResponse([
+    { id: 1, file_name: 'cube.gcode', status: 'FINISHED', start_time: '2025-01-01T10:00:00', end_time: null, filament_used: null },
+  ]));
+
+  const [job] = await createPrinterApi(printer).getJobs();
+
+  expect(job.end_time).toBeNull();
+  expect(job.filament_used).toBeUndefined();
+});
+
+test('reports validation failures with the offending field', async () => {
+  mockFetch(() => jsonResponse([{ id: '1', file_name: 'cube.gcode' }]));
+
+  await expect(createPrinterApi(printer).getJobs()).rejects.toMatchObject({
+    kind: 'validation',
+    message: 'jobs[0].id should be a number',
+  });
+});
+
+test('tolerates unknown job statuses and printer states', async () => {
+  mockFetch(() => jsonResponse([
+    { id: 1, file_name: 'cube.gcode', status: 'DONE', start_time: '2025-01-01T10:00:00' },
+    { id: 2, file_name: 'benchy.gcode', status: 'CANCELED', start_time: '2025-01-01T11:00:00' },
+    { id: 3, file_name: 'gear.gcode', status: 'finished', start_time: '2025-01-01T12:00:00' },
+  ]));
+  const jobs = await createPrinterApi(printer).getJobs();
+  expect(jobs.map((job) => job.status)).toEqual(['UNKNOWN', 'CANCELLED', 'FINISHED']);
+
+  mockFetch(() => jsonResponse({
+    state: 'Connecting', nozzle_temperature: 25, bed_temperature: 25, operational: false, printing: false, paused: false,
+  }));
+  expect((await createPrinterApi(printer).getPrinterStatus()).state).toBe('Unknown');
+});
+
+test('reports HTTP errors with their status', async () => {
+  mockFetch(() => jsonResponse({}, 503));
+
+  const error = await createPrinterApi(printer).pause().catch((e) => e);
+
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error).toMatchObject({ kind: 'http', status: 503 });
+});
+
+test('reports rejected tokens so the session can end', async () => {
+  const signOut = jest.fn();
+  const remove = onUnauthorized(signOut);
+  mockFetch(() => jsonResponse({}, 401));
+
+  await expect(createPrinterApi(printer, 'expired').getJobs()).rejects.toMatchObject({ status: 401 });
+  remove();
+
+  expect(signOut).toHaveBeenCalledTimes(1);
+});
+
+test('reports network failures', async () => {
+  mockFetch(() => Promise.reject(new TypeError('Failed to fetch')));
+
+  await expect(createPrinterApi(printer).getLastValidCommand()).rejects.toMatchObject({ kind: 'network' });
+});
+
+test('reports download progress for media', async () => {
+  const chunks = [new Uint8Array(3), new Uint8Array(2)];
+  mockFetch(() => Promise.resolve({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'Content-Length': '5', 'Content-Type': 'video/mp4' }),
+    body: {
+      getReader: () => ({
+        read: () => Promise.resolve(chunks.length ? { done: false, value: chunks.shift() } : { done: true }),
+      }),
+    } as unknown as ReadableStream<Uint8Array>,
+  }));
+  const onProgress = jest.fn();
+
+  const blob = await createPrinterApi(printer).getTimelapse(7, onProgress);
+
+  expect(blob.size).toBe(5);
+  expect(onProgress.mock.calls).toEqual([[3, 5], [5, 5]]);
+});
+
+test('treats unrated jobs as null and fills in missing defect tags', async () => {
+  mockFetch(() => jsonResponse({}, 404));
+  await expect(createPrinterApi(printer).getJobRating(1)).resolves.toBeNull();
+
+  mockFetch(() => jsonResponse({ jobId: 2, printQuality: 7, printSpeed: 5, feedback: 'ok' }));
+  await expect(createPrinterApi(printer).getJobRating(2)).resolves.toMatchObject({ defects: [], photo: null });
+});
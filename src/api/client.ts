@@ -0,0 +1,160 @@
+import { AuditEntry, Job, JobEvent, JobRating, Printer, PrinterStatus, TemperatureSample } from "../types";
+import { printerEndpoints } from "../config/printers";
+import { Setpoints } from "../preheat/profiles";
+import { ApiError } from "./errors";
+import { jsonInit, ProgressHandler, request, requestBlob, requestJson } from "./http";
+import {
+    parseAuditLog,
+    parseCommand,
+    parseJob,
+    parseJobEvents,
+    parseJobs,
+    parseJobRating,
+    parseJobRatings,
+    parsePrinterStatus,
+    parseTemperatureHistory,
+    parseTicket,
+} from "./validation";
+
+export interface PrinterApi {
+    getPrinterStatus: () => Promise<PrinterStatus>;
+    getJobs: () => Promise<Job[]>;
+    getJob: (jobId: number) => Promise<Job>;
+    // Resolves to null when the job hasn't been rated yet.
+    getJobRating: (jobId: number) => Promise<JobRating | null>;
+    rateJob: (rating: JobRating) => Promise<void>;
+    updateRating: (rating: JobRating) => Promise<void>;
+    getRatings: () => Promise<JobRating[]>;
+    // `reason` goes into the audit entry, e.g. the alert rule that paused the print.
+    pause: (reason?: string) => Promise<void>;
+    preheat: (setpoints: Setpoints) => Promise<void>;
+    continuePrint: () => Promise<void>;
+    cancel: () => Promise<void>;
+    getTimelapse: (jobId: number, onProgress?: ProgressHandler) => Promise<Blob>;
+    getPictureHistory: (jobId: number, onProgress?: ProgressHandler) => Promise<Blob>;
+    uploadSnapshot: (jobId: number, cameraId: string, image: Blob) => Promise<void>;
+    getLastValidCommand: () => Promise<string | null>;
+    // `line` is the zero-based file line to resume from, when the command was picked from the file.
+    submitNextValidCommand: (command: string, line?: number) => Promise<void>;
+    getJobEvents: (jobId: number) => Promise<JobEvent[]>;
+    addJobEvent: (jobId: number, event: Omit<JobEvent, "timestamp">) => Promise<void>;
+    getTemperatureHistory: (jobId: number) => Promise<TemperatureSample[]>;
+    getGcode: (jobId: number) => Promise<string>;
+    getQueue: () => Promise<Job[]>;
+    uploadGcode: (file: File) => Promise<Job>;
+    reorderQueue: (jobIds: number[]) => Promise<void>;
+    removeFromQueue: (jobId: number) => Promise<void>;
+    startNextJob: () => Promise<void>;
+    getAuditLog: () => Promise<AuditEntry[]>;
+    // The telemetry stream URL with a fresh ticket, as EventSource can't send the auth header.
+    telemetryUrl: () => Promise<string>;
+}
+
+/**
+ * Control:
+ *  - POST   /dashboard/pause      optional { reason } -> 2xx.
+ *  - POST   /dashboard/continue   -> 2xx.
+ *  - POST   /dashboard/cancel     -> 2xx.
+ *  - POST   /dashboard/preheat    { nozzle, bed } target temperatures in °C; 0 turns a heater off.
+ *  - POST   /dashboard/next-valid { command, line? } -> 2xx.
+ *  These and /dashboard/queue/start check the role of the token's user (403 without the permission,
+ *  see auth/roles.ts) and append an AuditEntry for that user whether the command succeeds or not.
+ *
+ *
+ * Job queue contract:
+ *  - GET    /dashboard/queue         -> Job[] with status "QUEUED", ordered by queue_position.
+ *                                       start_time holds the time the file was queued.
+ *  - POST   /dashboard/queue         multipart form with a `file` field -> the queued Job.
+ *  - PUT    /dashboard/queue/order   { jobIds: number[] } -> 2xx, the new order from first to last.
+ *  - DELETE /dashboard/queue/:jobId  -> 2xx.
+ *  - POST   /dashboard/queue/start   starts the job at position 0; 409 while the printer is busy.
+ *
+ * Single jobs:
+ *  - GET    /dashboard/jobs/:jobId         -> Job.
+ *  - GET    /dashboard/jobs/:jobId/rating  -> JobRating, 404 while the job is unrated.
+ *  - PUT    /dashboard/jobs/:jobId/rating  JobRating -> 2xx, replaces an existing rating.
+ *  - POST   /dashboard/rate-job            JobRating -> 2xx, first rating of a job.
+ *  - GET    /dashboard/ratings             -> JobRating[] for every rated job.
+ *
+ * Job history events (recovery actions and other notes attached to a job):
+ *  - GET    /dashboard/jobs/:jobId/events -> JobEvent[], oldest first.
+ *  - POST   /dashboard/jobs/:jobId/events   { type, message, timestamp } -> 2xx.
+ *
+ * Audit log of printer control commands (admin only), written by the backend:
+ *  - GET    /dashboard/audit   -> AuditEntry[], newest first.
+ *
+ * Telemetry (Server-Sent Events, see hooks/useTelemetry.ts):
+ *  - POST   /dashboard/telemetry/ticket   -> { ticket }, valid once and for 30 s.
+ *  - GET    /dashboard/telemetry?ticket=  -> the event stream. The ticket stands in for the token,
+ *                                            which would otherwise end up in logs and history.
+ *
+ * Media:
+ *  - GET    /dashboard/timelapse?jobId=       -> MP4, 404 when the job has none.
+ *  - GET    /dashboard/pictureHistory?jobId=  -> ZIP of JPEG/PNG snapshots.
+ *  - POST   /dashboard/jobs/:jobId/snapshots  multipart form with `camera` and a JPEG `file` -> 2xx;
+ *                                             the image is added to the job's picture history.
+ *
+ * Every request carries `Authorization: Bearer <token>` once the user has logged in; a 401 for a
+ * missing or expired token signs the user out (see api/http.ts). Tokens never go into URLs.
+ */
+export const createPrinterApi = (printer: Printer, authToken?: string | null): PrinterApi => {
+    const endpoints = printerEndpoints(printer);
+    const headers: Record<string, string> = authToken ? { Authorization: `Bearer ${authToken}` } : {};
+
+    const get = (url: string) => request(url, { headers });
+    const getJson = <T>(url: string, parse: (data: unknown) => T) => requestJson(url, parse, { headers });
+    const send = async (method: string, url: string, body?: unknown) => {
+        await request(url, jsonInit(method, body, headers));
+    };
+    const post = (url: string, body?: unknown) => send("POST", url, body);
+
+    return {
+        getPrinterStatus: () => getJson(endpoints.printerStatus, parsePrinterStatus),
+        getJobs: () => getJson(endpoints.jobs, parseJobs),
+        getJob: (jobId) => getJson(endpoints.job(jobId), parseJob),
+        getJobRating: async (jobId) => {
+            try {
+                return await getJson(endpoints.jobRating(jobId), parseJobRating);
+            } catch (error) {
+                if (error instanceof ApiError && error.status === 404) return null;
+                throw error;
+            }
+        },
+        rateJob: (rating) => post(endpoints.rateJob, rating),
+        updateRating: (rating) => send("PUT", endpoints.jobRating(rating.jobId), rating),
+        getRatings: () => getJson(endpoints.ratings, parseJobRatings),
+        pause: (reason) => post(endpoints.pause, reason === undefined ? undefined : { reason }),
+        preheat: (setpoints) => post(endpoints.preheat, setpoints),
+        continuePrint: () => post(endpoints.continue),
+        cancel: () => post(endpoints.cancel),
+        getTimelapse: (jobId, onProgress) => requestBlob(endpoints.timelapse(jobId), { headers }, onProgress),
+        getPictureHistory: (jobId, onProgress) => requestBlob(endpoints.pictureHistory(jobId), { headers }, onProgress),
+        uploadSnapshot: async (jobId, cameraId, image) => {
+            const form = new FormData();
+            form.append("camera", cameraId);
+            form.append("file", image, `snapshot_${cameraId}_${Date.now()}.jpg`);
+            await request(endpoints.jobSnapshots(jobId), { method: "POST", headers, body: form });
+        },
+        getLastValidCommand: () => getJson(endpoints.lastValid, parseCommand),
+        submitNextValidCommand: (command, line) => post(endpoints.nextValid, { command, line }),
+        getJobEvents: (jobId) => getJson(endpoints.jobEvents(jobId), parseJobEvents),
+        addJobEvent: (jobId, event) =>
+            post(endpoints.jobEvents(jobId), { ...event, timestamp: new Date().toISOString() }),
+        getTemperatureHistory: (jobId) => getJson(endpoints.temperatureHistory(jobId), parseTemperatureHistory),
+        getGcode: async (jobId) => (await get(endpoints.gcode(jobId))).text(),
+        getQueue: () => getJson(endpoints.queue, parseJobs),
+        uploadGcode: (file) => {
+            const form = new FormData();
+            form.append("file", file);
+            return requestJson(endpoints.queue, parseJob, { method: "POST", headers, body: form });
+        },
+        reorderQueue: (jobIds) => send("PUT", endpoints.queueOrder, { jobIds }),
+        removeFromQueue: (jobId) => send("DELETE", endpoints.queueJob(jobId)),
+        startNextJob: () => post(endpoints.queueStart),
+        getAuditLog: () => getJson(endpoints.audit, parseAuditLog),
+        telemetryUrl: async () => {
+            const ticket = await requestJson(endpoints.telemetryTicket, parseTicket, jsonInit("POST", undefined, headers));
+            return `${endpoints.telemetry}?ticket=${encodeURIComponent(ticket)}`;
+        },
+    };
+};
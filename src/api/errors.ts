@@ -0,0 +1,42 @@
+export type ApiErrorKind = "http" | "validation" | "network";
+
+/**
+ * Raised by the printer API client. `kind` tells callers whether the backend rejected the
+ * request (`http`), answered with an unexpected payload (`validation`) or could not be reached (`network`).
+ */
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly url: string;
+    readonly status?: number;
+
+    constructor(kind: ApiErrorKind, url: string, message: string, status?: number) {
+        super(message);
+        this.name = "ApiError";
+        this.kind = kind;
+        this.url = url;
+        this.status = status;
+        Object.setPrototypeOf(this, ApiError.prototype);
+    }
+}
+
+export class ValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ValidationError";
+        Object.setPrototypeOf(this, ValidationError.prototype);
+    }
+}
+
+export const describeError = (error: unknown) => {
+    if (error instanceof ApiError) {
+        switch (error.kind) {
+            case "network":
+                return "Printer backend is unreachable.";
+            case "http":
+                return `Backend responded with HTTP ${error.status}.`;
+            case "validation":
+                return `Unexpected response from backend: ${error.message}`;
+        }
+    }
+    return error instanceof Error ? error.message : String(error);
+};
@@ -0,0 +1,77 @@
+import { ApiError, ValidationError } from "./errors";
+
+let unauthorizedHandler: (() => void) | null = null;
+
+/**
+ * Called whenever a request is answered with 401, i.e. the token is missing, expired or revoked.
+ * Returns a function that removes the handler again.
+ */
+export const onUnauthorized = (handler: () => void) => {
+    unauthorizedHandler = handler;
+    return () => {
+        if (unauthorizedHandler === handler) unauthorizedHandler = null;
+    };
+};
+
+export const request = async (url: string, init?: RequestInit) => {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        throw new ApiError("network", url, error instanceof Error ? error.message : "Network request failed");
+    }
+
+    if (!response.ok) {
+        if (response.status === 401) unauthorizedHandler?.();
+        throw new ApiError("http", url, `Request failed with status ${response.status}`, response.status);
+    }
+    return response;
+};
+
+export const requestJson = async <T>(url: string, parse: (data: unknown) => T, init?: RequestInit) => {
+    const response = await request(url, init);
+
+    try {
+        return parse(await response.json());
+    } catch (error) {
+        const message = error instanceof ValidationError ? error.message : "Response is not valid JSON";
+        throw new ApiError("validation", url, message, response.status);
+    }
+};
+
+export type ProgressHandler = (loaded: number, total: number | null) => void;
+
+// Reads the body chunk by chunk so large media downloads can report progress.
+export const requestBlob = async (url: string, init?: RequestInit, onProgress?: ProgressHandler) => {
+    const response = await request(url, init);
+    if (!onProgress || !response.body) return response.blob();
+
+    const total = Number(response.headers.get("Content-Length")) || null;
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            chunks.push(value);
+            loaded += value.length;
+            onProgress(loaded, total);
+        }
+    } catch (error) {
+        throw new ApiError("network", url, error instanceof Error ? error.message : "Download interrupted");
+    }
+    return new Blob(chunks, { type: response.headers.get("Content-Type") ?? "" });
+};
+
+export const jsonInit = (method: string, body: unknown, headers: Record<string, string> = {}): RequestInit =>
+    body === undefined
+        ? { method, headers }
+        : {
+            method,
+            headers: {
+                ...headers,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify(body),
+        };
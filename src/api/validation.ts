@@ -0,0 +1,166 @@
+import { AuditEntry, Job, JobEvent, JobRating, PrinterStatus, TemperatureSample } from "../types";
+import { ValidationError } from "./errors";
+import { Role, ROLES, Session } from "../auth/roles";
+import { normalizeJobStatus } from "../lifecycle/jobState";
+import { isPrinterState } from "../lifecycle/printerState";
+
+type JsonObject = Record<string, unknown>;
+
+const expectObject = (value: unknown, path: string): JsonObject => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new ValidationError(`${path} should be an object`);
+    }
+    return value as JsonObject;
+};
+
+const expectString = (value: unknown, path: string) => {
+    if (typeof value !== "string") throw new ValidationError(`${path} should be a string`);
+    return value;
+};
+
+const expectNumber = (value: unknown, path: string) => {
+    if (typeof value !== "number" || Number.isNaN(value)) throw new ValidationError(`${path} should be a number`);
+    return value;
+};
+
+const expectBoolean = (value: unknown, path: string) => {
+    if (typeof value !== "boolean") throw new ValidationError(`${path} should be a boolean`);
+    return value;
+};
+
+// The backend sends null for numeric fields it doesn't know yet.
+const optionalNumber = (value: unknown, path: string) =>
+    value === null || value === undefined ? undefined : expectNumber(value, path);
+
+const optionalString = (value: unknown, path: string) =>
+    value === null || value === undefined ? (value as null | undefined) : expectString(value, path);
+
+// Ratings submitted before defect tagging existed have no `defects` field.
+const optionalStringArray = (value: unknown, path: string): string[] => {
+    if (value === null || value === undefined) return [];
+    if (!Array.isArray(value)) throw new ValidationError(`${path} should be an array`);
+    return value.map((item, index) => expectString(item, `${path}[${index}]`));
+};
+
+export const parsePrinterStatus = (data: unknown, path = "printerStatus"): PrinterStatus => {
+    const obj = expectObject(data, path);
+    return {
+        // Firmware and backend versions add states; show those as Unknown rather than failing the dashboard.
+        state: isPrinterState(expectString(obj.state, `${path}.state`)) ? (obj.state as PrinterStatus["state"]) : "Unknown",
+        nozzle_temperature: expectNumber(obj.nozzle_temperature, `${path}.nozzle_temperature`),
+        bed_temperature: expectNumber(obj.bed_temperature, `${path}.bed_temperature`),
+        nozzle_target: optionalNumber(obj.nozzle_target, `${path}.nozzle_target`),
+        bed_target: optionalNumber(obj.bed_target, `${path}.bed_target`),
+        operational: expectBoolean(obj.operational, `${path}.operational`),
+        printing: expectBoolean(obj.printing, `${path}.printing`),
+        paused: expectBoolean(obj.paused, `${path}.paused`),
+    };
+};
+
+export const parseJob = (data: unknown, path = "job"): Job => {
+    const obj = expectObject(data, path);
+    return {
+        id: expectNumber(obj.id, `${path}.id`),
+        queue_position: optionalNumber(obj.queue_position, `${path}.queue_position`),
+        file_name: expectString(obj.file_name, `${path}.file_name`),
+        status: normalizeJobStatus(expectString(obj.status, `${path}.status`)),
+        start_time: expectString(obj.start_time, `${path}.start_time`),
+        end_time: optionalString(obj.end_time, `${path}.end_time`),
+        filament_used: optionalNumber(obj.filament_used, `${path}.filament_used`),
+        progress: optionalNumber(obj.progress, `${path}.progress`),
+        estimated_completion_time: optionalNumber(obj.estimated_completion_time, `${path}.estimated_completion_time`),
+    };
+};
+
+export const parseJobs = (data: unknown, path = "jobs"): Job[] => {
+    if (!Array.isArray(data)) throw new ValidationError(`${path} should be an array`);
+    return data.map((job, index) => parseJob(job, `${path}[${index}]`));
+};
+
+export const parseJobRating = (data: unknown, path = "rating"): JobRating => {
+    const obj = expectObject(data, path);
+    return {
+        jobId: expectNumber(obj.jobId, `${path}.jobId`),
+        printQuality: expectNumber(obj.printQuality, `${path}.printQuality`),
+        printSpeed: expectNumber(obj.printSpeed, `${path}.printSpeed`),
+        feedback: optionalString(obj.feedback, `${path}.feedback`) ?? "",
+        defects: optionalStringArray(obj.defects, `${path}.defects`),
+        photo: optionalString(obj.photo, `${path}.photo`) ?? null,
+    };
+};
+
+export const parseJobRatings = (data: unknown, path = "ratings"): JobRating[] => {
+    if (!Array.isArray(data)) throw new ValidationError(`${path} should be an array`);
+    return data.map((rating, index) => parseJobRating(rating, `${path}[${index}]`));
+};
+
+export const parseJobEvents = (data: unknown, path = "events"): JobEvent[] => {
+    if (!Array.isArray(data)) throw new ValidationError(`${path} should be an array`);
+    return data.map((entry, index) => {
+        const obj = expectObject(entry, `${path}[${index}]`);
+        return {
+            timestamp: expectString(obj.timestamp, `${path}[${index}].timestamp`),
+            type: expectString(obj.type, `${path}[${index}].type`),
+            message: expectString(obj.message, `${path}[${index}].message`),
+        };
+    });
+};
+
+export const parseAuditLog = (data: unknown, path = "audit"): AuditEntry[] => {
+    if (!Array.isArray(data)) throw new ValidationError(`${path} should be an array`);
+    return data.map((entry, index) => {
+        const obj = expectObject(entry, `${path}[${index}]`);
+        const result = expectString(obj.result, `${path}[${index}].result`);
+        if (result !== "success" && result !== "failure") {
+            throw new ValidationError(`${path}[${index}].result should be "success" or "failure"`);
+        }
+        return {
+            timestamp: expectString(obj.timestamp, `${path}[${index}].timestamp`),
+            user: expectString(obj.user, `${path}[${index}].user`),
+            action: expectString(obj.action, `${path}[${index}].action`),
+            job_id: obj.job_id === null || obj.job_id === undefined ? null : expectNumber(obj.job_id, `${path}[${index}].job_id`),
+            result,
+            detail: optionalString(obj.detail, `${path}[${index}].detail`) ?? undefined,
+        };
+    });
+};
+
+export const parseSession = (data: unknown, path = "session"): Session => {
+    const obj = expectObject(data, path);
+    const user = expectObject(obj.user, `${path}.user`);
+    const role = expectString(user.role, `${path}.user.role`);
+    if (!ROLES.includes(role as Role)) throw new ValidationError(`${path}.user.role should be one of ${ROLES.join(", ")}`);
+
+    return {
+        token: expectString(obj.token, `${path}.token`),
+        user: {
+            username: expectString(user.username, `${path}.user.username`),
+            role: role as Role,
+        },
+    };
+};
+
+export const parseCommand = (data: unknown, path = "command"): string | null => {
+    const obj = expectObject(data, path);
+    return obj.command === null || obj.command === undefined ? null : expectString(obj.command, `${path}.command`);
+};
+
+export const parseTicket = (data: unknown, path = "ticket"): string =>
+    expectString(expectObject(data, path).ticket, `${path}.ticket`);
+
+export const parseTemperatureHistory = (data: unknown, path = "temperatureHistory"): TemperatureSample[] => {
+    if (!Array.isArray(data)) throw new ValidationError(`${path} should be an array`);
+    return data.map((entry, index) => {
+        const obj = expectObject(entry, `${path}[${index}]`);
+        const timestamp = new Date(expectString(obj.timestamp, `${path}[${index}].timestamp`)).getTime();
+        if (Number.isNaN(timestamp)) throw new ValidationError(`${path}[${index}].timestamp should be a date`);
+
+        return {
+            timestamp,
+            nozzle: expectNumber(obj.nozzle_temperature, `${path}[${index}].nozzle_temperature`),
+            bed: expectNumber(obj.bed_temperature, `${path}[${index}].bed_temperature`),
+            nozzleTarget: optionalNumber(obj.nozzle_target, `${path}[${index}].nozzle_target`),
+            bedTarget: optionalNumber(obj.bed_target, `${path}[${index}].bed_target`),
+        };
+    });
+};
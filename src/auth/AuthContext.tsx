@@ -0,0 +1,43 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { login as requestLogin } from "../api/auth";
+import { onUnauthorized } from "../api/http";
+import { useSettings } from "../config/SettingsContext";
+import { loadJson, saveJson } from "../utils/storage";
+import { hasPermission, Permission, Session, User } from "./roles";
+
+const SESSION_KEY = "auth.session";
+
+interface AuthContextValue {
+    user: User | null;
+    token: string | null;
+    login: (username: string, password: string) => Promise<void>;
+    logout: () => void;
+    can: (permission: Permission) => boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [session, setSession] = useState<Session | null>(() => loadJson<Session | null>(SESSION_KEY, null));
+    const { settings } = useSettings();
+
+    useEffect(() => saveJson(SESSION_KEY, session), [session]);
+    // The backend enforces roles; once it stops accepting the token, sign out instead of failing every request.
+    useEffect(() => onUnauthorized(() => setSession(null)), []);
+
+    const value: AuthContextValue = {
+        user: session?.user ?? null,
+        token: session?.token ?? null,
+        login: async (username, password) => setSession(await requestLogin(settings.authUrl, username, password)),
+        logout: () => setSession(null),
+        can: (permission) => hasPermission(session?.user ?? null, permission),
+    };
+
+    return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = () => {
+    const context = useContext(AuthContext);
+    if (!context) throw new Error("useAuth must be used inside an AuthProvider");
+    return context;
+};
@@ -0,0 +1,29 @@
+import React from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Box, Typography } from "@mui/material";
+import { useAuth } from "./AuthContext";
+import { Permission } from "./roles";
+
+interface RequireAuthProps {
+    permission?: Permission;
+    children: React.ReactElement;
+}
+
+const RequireAuth: React.FC<RequireAuthProps> = ({ permission, children }) => {
+    const { user, can } = useAuth();
+    const location = useLocation();
+
+    if (!user) return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+
+    if (permission && !can(permission)) {
+        return (
+            <Box sx={{ padding: 4 }}>
+                <Typography variant="h5">You don't have access to this page.</Typography>
+            </Box>
+        );
+    }
+
+    return children;
+};
+
+export default RequireAuth;
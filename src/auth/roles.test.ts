@@ -0,0 +1,9 @@
+import { hasPermission } from './roles';
+
+test('roles grant increasing permissions', () => {
+  expect(hasPermission(null, 'control')).toBe(false);
+  expect(hasPermission({ username: 'v', role: 'viewer' }, 'control')).toBe(false);
+  expect(hasPermission({ username: 'o', role: 'operator' }, 'cancel')).toBe(true);
+  expect(hasPermission({ username: 'o', role: 'operator' }, 'viewAudit')).toBe(false);
+  expect(hasPermission({ username: 'a', role: 'admin' }, 'viewAudit')).toBe(true);
+});
@@ -0,0 +1,33 @@
+export const ROLES = ["viewer", "operator", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+    | "control" // pause, continue, preheat
+    | "cancel"
+    | "queue"
+    | "recover"
+    | "rate"
+    | "configureAlerts"
+    | "viewAudit";
+
+export interface User {
+    username: string;
+    role: Role;
+}
+
+export interface Session {
+    token: string;
+    user: User;
+}
+
+const OPERATOR_PERMISSIONS: Permission[] = ["control", "cancel", "queue", "recover", "rate"];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    viewer: [],
+    operator: OPERATOR_PERMISSIONS,
+    admin: [...OPERATOR_PERMISSIONS, "configureAlerts", "viewAudit"],
+};
+
+export const hasPermission = (user: User | null, permission: Permission) =>
+    !!user && ROLE_PERMISSIONS[user.role].includes(permission);
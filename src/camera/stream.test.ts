@@ -0,0 +1,30 @@
+import { createStallDetector, frameSignature, retryDelay, withRetryParam } from './stream';
+
+test('adds a cache-busting parameter on retries', () => {
+  expect(withRetryParam('http://cam/?action=stream', 0)).toBe('http://cam/?action=stream');
+  expect(withRetryParam('http://cam/?action=stream', 2)).toBe('http://cam/?action=stream&retry=2');
+  expect(withRetryParam('http://cam/stream.mjpg', 1)).toBe('http://cam/stream.mjpg?retry=1');
+});
+
+test('frame signatures change when the picture changes', () => {
+  const frame = new Uint8ClampedArray(4 * 100 * 100).fill(10);
+  const same = new Uint8ClampedArray(frame);
+  const changed = new Uint8ClampedArray(frame);
+  changed.fill(200, 0, changed.length / 2);
+
+  expect(frameSignature(frame)).toBe(frameSignature(same));
+  expect(frameSignature(frame)).not.toBe(frameSignature(changed));
+});
+
+test('a frozen picture stays stalled until it changes', () => {
+  const detect = createStallDetector(15000);
+  const states = Array.from({ length: 30 }, (_, i) => detect('frozen', i * 2000));
+
+  expect(states.slice(0, 8)).toEqual(Array(8).fill('live'));
+  expect(states.slice(8)).toEqual(Array(22).fill('stalled'));
+  expect(detect('moving', 62000)).toBe('live');
+});
+
+test('retry delay backs off up to 30 seconds', () => {
+  expect([1, 2, 3, 10].map(retryDelay)).toEqual([2000, 4000, 8000, 30000]);
+});
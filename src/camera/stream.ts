@@ -0,0 +1,37 @@
+// Helpers for watching an MJPEG stream rendered by an <img>, which fires no per-frame events.
+
+/** Adds a cache-busting parameter so the browser opens a fresh connection to the stream. */
+export const withRetryParam = (url: string, attempt: number) =>
+    attempt === 0 ? url : `${url}${url.includes("?") ? "&" : "?"}retry=${attempt}`;
+
+/**
+ * Cheap fingerprint of a frame: a fixed spread of pixel values. Two frames with the same
+ * signature are treated as identical, which is how a frozen stream is detected.
+ */
+export const frameSignature = (pixels: Uint8ClampedArray, samples = 64) => {
+    const step = Math.max(4, Math.floor(pixels.length / samples / 4) * 4);
+    let signature = "";
+    for (let i = 0; i < pixels.length; i += step) {
+        signature += `${pixels[i]},${pixels[i + 1]},${pixels[i + 2]};`;
+    }
+    return signature;
+};
+
+/**
+ * Follows the frame signatures of one stream: it is stalled once the picture hasn't changed for
+ * `stallAfter` ms, and live again as soon as it changes.
+ */
+export const createStallDetector = (stallAfter: number) => {
+    let lastSignature: string | null = null;
+    let lastChange = 0;
+    return (signature: string, now = Date.now()): "live" | "stalled" => {
+        if (signature !== lastSignature) {
+            lastSignature = signature;
+            lastChange = now;
+        }
+        return now - lastChange > stallAfter ? "stalled" : "live";
+    };
+};
+
+// Waits between automatic reconnects: 2 s doubling up to 30 s.
+export const retryDelay = (attempt: number) => Math.min(30000, 2000 * 2 ** Math.max(0, attempt - 1));
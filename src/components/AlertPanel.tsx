@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import { Alert, AlertTitle, Box, Button, Collapse, Paper, Stack, Typography } from "@mui/material";
+import { ThermalRule } from "../alerts/thermalRules";
+import { ThermalAlert } from "../hooks/useThermalAlerts";
+import AlertRulesDialog from "./AlertRulesDialog";
+
+interface AlertPanelProps {
+    alerts: ThermalAlert[];
+    rules: ThermalRule[];
+    onAcknowledge: (alertId: string) => void;
+    onRulesChange: (rules: ThermalRule[]) => void;
+    canEditRules: boolean;
+}
+
+const AlertPanel: React.FC<AlertPanelProps> = ({
+    alerts,
+    rules,
+    onAcknowledge,
+    onRulesChange,
+    canEditRules,
+}) => {
+    const [showLog, setShowLog] = useState(false);
+    const [editingRules, setEditingRules] = useState(false);
+
+    const activeAlerts = alerts.filter((alert) => !alert.clearedAt && !alert.acknowledged);
+
+    return (
+        <Paper sx={{ padding: 2, backgroundColor: "#fff8e1", borderRadius: "8px" }}>
+            <Stack direction="row" alignItems="center" justifyContent="space-between">
+                <Typography variant="h6" sx={{ fontWeight: "bold" }}>
+                    Thermal Alerts
+                </Typography>
+                <Stack direction="row" spacing={1} alignItems="center">
+                    <Button size="small" onClick={() => setShowLog(!showLog)}>
+                        {showLog ? "Hide Log" : `Log (${alerts.length})`}
+                    </Button>
+                    <Button size="small" onClick={() => setEditingRules(true)} disabled={!canEditRules}>
+                        Rules
+                    </Button>
+                </Stack>
+            </Stack>
+
+            {activeAlerts.length > 0 ? (
+                <Stack spacing={1} sx={{ marginTop: 1 }}>
+                    {activeAlerts.map((alert) => (
+                        <Alert
+                            key={alert.id}
+                            severity={alert.severity === "critical" ? "error" : alert.severity}
+                            onClose={() => onAcknowledge(alert.id)}
+                        >
+                            <AlertTitle>{alert.ruleName}</AlertTitle>
+                            {alert.message}
+                            {alert.autoPaused && " Print was paused automatically."}
+                        </Alert>
+                    ))}
+                </Stack>
+            ) : (
+                <Typography sx={{ fontStyle: "italic", color: "gray" }}>No active alerts.</Typography>
+            )}
+
+            <Collapse in={showLog}>
+                <Box sx={{ maxHeight: 200, overflowY: "auto", marginTop: 1 }}>
+                    {alerts.length === 0 && <Typography variant="body2">No alerts recorded this session.</Typography>}
+                    {alerts.map((alert) => (
+                        <Typography key={alert.id} variant="body2" sx={{ color: alert.clearedAt ? "gray" : "inherit" }}>
+                            {new Date(alert.raisedAt).toLocaleTimeString()} [{alert.severity.toUpperCase()}] {alert.message}
+                            {alert.clearedAt && ` (cleared ${new Date(alert.clearedAt).toLocaleTimeString()})`}
+                        </Typography>
+                    ))}
+                </Box>
+            </Collapse>
+
+            <AlertRulesDialog
+                open={editingRules}
+                rules={rules}
+                onClose={() => setEditingRules(false)}
+                onSave={onRulesChange}
+            />
+        </Paper>
+    );
+};
+
+export default AlertPanel;
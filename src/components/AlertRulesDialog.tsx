@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from "react";
+import {
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    MenuItem,
+    Select,
+    Stack,
+    Switch,
+    TextField,
+    Typography,
+    Divider,
+} from "@mui/material";
+import { DEFAULT_RULES, Severity, ThermalRule } from "../alerts/thermalRules";
+
+interface AlertRulesDialogProps {
+    open: boolean;
+    rules: ThermalRule[];
+    onClose: () => void;
+    onSave: (rules: ThermalRule[]) => void;
+}
+
+// Numeric parameters editable for each rule kind, with their field labels.
+const PARAMETERS: { [K in ThermalRule["kind"]]: { key: string; label: string }[] } = {
+    threshold: [{ key: "limit", label: "Limit (°C)" }],
+    rateOfChange: [
+        { key: "maxRate", label: "Max rate (°C/s)" },
+        { key: "windowSeconds", label: "Window (s)" },
+    ],
+    targetNotReached: [
+        { key: "withinMinutes", label: "Within (min)" },
+        { key: "tolerance", label: "Tolerance (°C)" },
+    ],
+    targetDeviation: [
+        { key: "tolerance", label: "Tolerance (°C)" },
+        { key: "durationSeconds", label: "Duration (s)" },
+    ],
+};
+
+const AlertRulesDialog: React.FC<AlertRulesDialogProps> = ({ open, rules, onClose, onSave }) => {
+    const [draft, setDraft] = useState<ThermalRule[]>(rules);
+
+    useEffect(() => {
+        if (open) setDraft(rules);
+    }, [open, rules]);
+
+    const updateRule = (id: string, changes: Record<string, unknown>) =>
+        setDraft((prev) => prev.map((rule) => (rule.id === id ? ({ ...rule, ...changes } as ThermalRule) : rule)));
+
+    const isValid = draft.every((rule) =>
+        PARAMETERS[rule.kind].every(({ key }) => {
+            const value = (rule as unknown as Record<string, number>)[key];
+            return Number.isFinite(value) && value >= 0;
+        })
+    );
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>Thermal Alert Rules</DialogTitle>
+            <DialogContent>
+                {draft.map((rule) => (
+                    <React.Fragment key={rule.id}>
+                        <Stack direction="row" spacing={2} alignItems="center" sx={{ marginY: 1 }}>
+                            <FormControlLabel
+                                sx={{ minWidth: 260 }}
+                                control={
+                                    <Switch
+                                        checked={rule.enabled}
+                                        onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                                    />
+                                }
+                                label={<Typography sx={{ fontWeight: "bold" }}>{rule.name}</Typography>}
+                            />
+                            {PARAMETERS[rule.kind].map(({ key, label }) => {
+                                const value = (rule as unknown as Record<string, number>)[key];
+                                return (
+                                    <TextField
+                                        key={key}
+                                        size="small"
+                                        type="number"
+                                        label={label}
+                                        value={Number.isFinite(value) ? value : ""}
+                                        error={!Number.isFinite(value) || value < 0}
+                                        onChange={(e) => updateRule(rule.id, { [key]: parseFloat(e.target.value) })}
+                                        sx={{ width: 130 }}
+                                    />
+                                );
+                            })}
+                            <Select
+                                size="small"
+                                value={rule.severity}
+                                onChange={(e) => updateRule(rule.id, { severity: e.target.value as Severity })}
+                            >
+                                <MenuItem value="info">Info</MenuItem>
+                                <MenuItem value="warning">Warning</MenuItem>
+                                <MenuItem value="critical">Critical</MenuItem>
+                            </Select>
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={rule.autoPause}
+                                        disabled={rule.severity !== "critical"}
+                                        onChange={(e) => updateRule(rule.id, { autoPause: e.target.checked })}
+                                    />
+                                }
+                                label="Auto-pause"
+                            />
+                        </Stack>
+                        <Divider />
+                    </React.Fragment>
+                ))}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={() => setDraft(DEFAULT_RULES)}>Restore Defaults</Button>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button
+                    variant="contained"
+                    disabled={!isValid}
+                    onClick={() => {
+                        onSave(draft);
+                        onClose();
+                    }}
+                >
+                    Save
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default AlertRulesDialog;
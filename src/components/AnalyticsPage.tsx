@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link as RouterLink, useParams } from "react-router-dom";
+import {
+    Box,
+    Button,
+    Grid,
+    Paper,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    ToggleButton,
+    ToggleButtonGroup,
+    Typography,
+} from "@mui/material";
+import { Bar } from "react-chartjs-2";
+import { Chart as ChartJS, BarElement, CategoryScale, Legend, LinearScale, Tooltip } from "chart.js";
+import { Job, JobRating, Printer } from "../types";
+import { useSettings } from "../config/SettingsContext";
+import { usePrinterApi } from "../api/PrinterApiContext";
+import { describeError } from "../api/errors";
+import { loadJson, saveJson } from "../utils/storage";
+import {
+    DEFAULT_FILAMENT_SETTINGS,
+    estimateAccuracy,
+    FilamentSettings,
+    filamentByFile,
+    Period,
+    ratingsByFile,
+    successRateByPeriod,
+} from "../analytics/stats";
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Legend, Tooltip);
+
+const SETTINGS_KEY = "analytics.filamentSettings";
+const CHART_HEIGHT = "260px";
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px", height: "100%" }}>
+        <Typography variant="h6" sx={{ fontWeight: "bold", marginBottom: 1 }}>
+            {title}
+        </Typography>
+        {children}
+    </Paper>
+);
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <Paper sx={{ padding: 2, boxShadow: 1, borderRadius: "8px", flex: 1 }}>
+        <Typography variant="caption" sx={{ color: "gray" }}>
+            {label}
+        </Typography>
+        <Typography variant="h5" sx={{ fontWeight: "bold" }}>
+            {value}
+        </Typography>
+    </Paper>
+);
+
+const Analytics: React.FC<{ printer: Printer }> = ({ printer }) => {
+    const api = usePrinterApi(printer);
+    const [jobs, setJobs] = useState<Job[] | null>(null);
+    const [ratings, setRatings] = useState<JobRating[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [period, setPeriod] = useState<Period>("day");
+    const [settings, setSettings] = useState<FilamentSettings>(() => loadJson(SETTINGS_KEY, DEFAULT_FILAMENT_SETTINGS));
+
+    useEffect(() => saveJson(SETTINGS_KEY, settings), [settings]);
+
+    useEffect(() => {
+        api.getJobs()
+            .then(setJobs)
+            .catch((err) => {
+                console.error("Error fetching jobs for analytics:", err);
+                setError(describeError(err));
+            });
+        api.getRatings()
+            .then(setRatings)
+            .catch((err) => console.error("Error fetching ratings:", err));
+    }, [api]);
+
+    const successRate = useMemo(() => successRateByPeriod(jobs ?? [], period), [jobs, period]);
+    const filament = useMemo(() => filamentByFile(jobs ?? [], settings), [jobs, settings]);
+    const accuracy = useMemo(() => estimateAccuracy(jobs ?? []), [jobs]);
+    const fileRatings = useMemo(() => ratingsByFile(jobs ?? [], ratings), [jobs, ratings]);
+
+    if (error) return <Typography sx={{ color: "red" }}>Failed to load jobs. {error}</Typography>;
+    if (!jobs) return <Typography>Loading analytics...</Typography>;
+
+    const succeeded = successRate.reduce((sum, bucket) => sum + bucket.succeeded, 0);
+    const completed = successRate.reduce((sum, bucket) => sum + bucket.succeeded + bucket.failed, 0);
+    const totalGrams = filament.reduce((sum, entry) => sum + entry.grams, 0);
+    const totalCost = filament.reduce((sum, entry) => sum + entry.cost, 0);
+    const meanError =
+        accuracy.length > 0 ? accuracy.reduce((sum, entry) => sum + Math.abs(entry.error), 0) / accuracy.length : null;
+
+    const updateSetting = (key: keyof FilamentSettings, value: string) => {
+        const parsed = parseFloat(value);
+        if (Number.isFinite(parsed) && parsed > 0) setSettings((prev) => ({ ...prev, [key]: parsed }));
+    };
+
+    return (
+        <Stack spacing={3}>
+            <Stack direction="row" spacing={2}>
+                <Stat label="Completed Jobs" value={String(completed)} />
+                <Stat label="Success Rate" value={completed ? `${((succeeded / completed) * 100).toFixed(1)}%` : "N/A"} />
+                <Stat label="Filament Used" value={`${(totalGrams / 1000).toFixed(2)} kg`} />
+                <Stat label="Filament Cost" value={totalCost.toFixed(2)} />
+                <Stat label="Mean Estimate Error" value={meanError === null ? "N/A" : `${(meanError * 100).toFixed(1)}%`} />
+            </Stack>
+
+            <Grid container spacing={3}>
+                <Grid item xs={12} md={6}>
+                    <Section title="Success / Failure Rate">
+                        <ToggleButtonGroup
+                            size="small"
+                            exclusive
+                            value={period}
+                            onChange={(_, value: Period | null) => value && setPeriod(value)}
+                            sx={{ marginBottom: 1 }}
+                        >
+                            <ToggleButton value="day">Per day</ToggleButton>
+                            <ToggleButton value="week">Per week</ToggleButton>
+                        </ToggleButtonGroup>
+                        <div style={{ height: CHART_HEIGHT }}>
+                            <Bar
+                                data={{
+                                    labels: successRate.map((bucket) => bucket.period),
+                                    datasets: [
+                                        { label: "Finished", data: successRate.map((b) => b.succeeded), backgroundColor: "green" },
+                                        { label: "Failed", data: successRate.map((b) => b.failed), backgroundColor: "red" },
+                                    ],
+                                }}
+                                options={{
+                                    maintainAspectRatio: false,
+                                    scales: { x: { stacked: true }, y: { stacked: true, ticks: { precision: 0 } } },
+                                    plugins: {
+                                        tooltip: {
+                                            callbacks: {
+                                                footer: (items) =>
+                                                    `Success rate ${(successRate[items[0].dataIndex].rate * 100).toFixed(0)}%`,
+                                            },
+                                        },
+                                    },
+                                }}
+                            />
+                        </div>
+                    </Section>
+                </Grid>
+
+                <Grid item xs={12} md={6}>
+                    <Section title="Estimated vs. Actual Print Time">
+                        <div style={{ height: CHART_HEIGHT }}>
+                            <Bar
+                                data={{
+                                    labels: accuracy.map((entry) => `#${entry.jobId}`),
+                                    datasets: [
+                                        {
+                                            label: "Error (%)",
+                                            data: accuracy.map((entry) => entry.error * 100),
+                                            backgroundColor: accuracy.map((entry) => (entry.error > 0 ? "#ef6c00" : "#1976d2")),
+                                        },
+                                    ],
+                                }}
+                                options={{
+                                    maintainAspectRatio: false,
+                                    plugins: {
+                                        legend: { display: false },
+                                        tooltip: {
+                                            callbacks: {
+                                                title: (items) => accuracy[items[0].dataIndex].file,
+                                                label: (item) => {
+                                                    const entry = accuracy[item.dataIndex];
+                                                    return `Estimated ${Math.round(entry.estimated / 60)} min, took ${Math.round(entry.actual / 60)} min (${item.formattedValue}%)`;
+                                                },
+                                            },
+                                        },
+                                    },
+                                }}
+                            />
+                        </div>
+                        <Typography variant="caption" sx={{ color: "gray" }}>
+                            Positive values took longer than estimated.
+                        </Typography>
+                    </Section>
+                </Grid>
+
+                <Grid item xs={12} md={6}>
+                    <Section title="Filament Usage per File">
+                        <Stack direction="row" spacing={1} sx={{ marginBottom: 2 }}>
+                            <TextField
+                                size="small"
+                                type="number"
+                                label="Diameter (mm)"
+                                defaultValue={settings.diameter}
+                                onChange={(e) => updateSetting("diameter", e.target.value)}
+                            />
+                            <TextField
+                                size="small"
+                                type="number"
+                                label="Density (g/cm³)"
+                                defaultValue={settings.density}
+                                onChange={(e) => updateSetting("density", e.target.value)}
+                            />
+                            <TextField
+                                size="small"
+                                type="number"
+                                label="Price per kg"
+                                defaultValue={settings.pricePerKg}
+                                onChange={(e) => updateSetting("pricePerKg", e.target.value)}
+                            />
+                        </Stack>
+                        <Box sx={{ maxHeight: 300, overflowY: "auto" }}>
+                            <Table size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>File</TableCell>
+                                        <TableCell align="right">Jobs</TableCell>
+                                        <TableCell align="right">Length (m)</TableCell>
+                                        <TableCell align="right">Weight (g)</TableCell>
+                                        <TableCell align="right">Cost</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {filament.map((entry) => (
+                                        <TableRow key={entry.file}>
+                                            <TableCell>{entry.file}</TableCell>
+                                            <TableCell align="right">{entry.jobs}</TableCell>
+                                            <TableCell align="right">{(entry.length / 1000).toFixed(2)}</TableCell>
+                                            <TableCell align="right">{entry.grams.toFixed(1)}</TableCell>
+                                            <TableCell align="right">{entry.cost.toFixed(2)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </Box>
+                    </Section>
+                </Grid>
+
+                <Grid item xs={12} md={6}>
+                    <Section title="Average Ratings per File">
+                        {fileRatings.length > 0 ? (
+                            <div style={{ height: CHART_HEIGHT }}>
+                                <Bar
+                                    data={{
+                                        labels: fileRatings.map((entry) => entry.file),
+                                        datasets: [
+                                            { label: "Quality", data: fileRatings.map((e) => e.quality), backgroundColor: "#1976d2" },
+                                            { label: "Speed", data: fileRatings.map((e) => e.speed), backgroundColor: "#9c27b0" },
+                                        ],
+                                    }}
+                                    options={{
+                                        maintainAspectRatio: false,
+                                        scales: { y: { min: 0, max: 10 } },
+                                        plugins: {
+                                            tooltip: {
+                                                callbacks: {
+                                                    footer: (items) => `${fileRatings[items[0].dataIndex].count} rating(s)`,
+                                                },
+                                            },
+                                        },
+                                    }}
+                                />
+                            </div>
+                        ) : (
+                            <Typography sx={{ fontStyle: "italic", color: "gray" }}>No ratings submitted yet.</Typography>
+                        )}
+                    </Section>
+                </Grid>
+            </Grid>
+        </Stack>
+    );
+};
+
+const AnalyticsPage: React.FC = () => {
+    const { printerId } = useParams();
+    const { findPrinter } = useSettings();
+    const printer = findPrinter(printerId);
+
+    return (
+        <Box sx={{ padding: 4, backgroundColor: "#f9f9f9", minHeight: "100vh" }}>
+            <Button component={RouterLink} to={printer ? `/printers/${printer.id}` : "/"} sx={{ marginBottom: 1 }}>
+                ← Back to Dashboard
+            </Button>
+            <Typography variant="h3" gutterBottom>
+                {printer ? `${printer.name} Analytics` : "Analytics"}
+            </Typography>
+            {printer ? <Analytics printer={printer} /> : <Typography>Unknown printer "{printerId}".</Typography>}
+        </Box>
+    );
+};
+
+export default AnalyticsPage;
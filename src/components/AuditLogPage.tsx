@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from "react";
+import { Link as RouterLink, useParams } from "react-router-dom";
+import { Box, Button, Paper, Table, TableBody, TableCell, TableHead, TableRow, Typography } from "@mui/material";
+import { AuditEntry, Printer } from "../types";
+import { useSettings } from "../config/SettingsContext";
+import { usePrinterApi } from "../api/PrinterApiContext";
+import { describeError } from "../api/errors";
+
+const AuditLog: React.FC<{ printer: Printer }> = ({ printer }) => {
+    const api = usePrinterApi(printer);
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        api.getAuditLog()
+            .then(setEntries)
+            .catch((err) => {
+                console.error("Error fetching audit log:", err);
+                setError(describeError(err));
+            });
+    }, [api]);
+
+    if (error) return <Typography sx={{ color: "red" }}>Failed to load audit log. {error}</Typography>;
+    if (!entries) return <Typography>Loading audit log...</Typography>;
+    if (entries.length === 0) return <Typography>No commands have been sent yet.</Typography>;
+
+    return (
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>Time</TableCell>
+                    <TableCell>User</TableCell>
+                    <TableCell>Command</TableCell>
+                    <TableCell>Job</TableCell>
+                    <TableCell>Result</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {entries.map((entry) => (
+                    <TableRow key={`${entry.timestamp}-${entry.user}-${entry.action}`}>
+                        <TableCell>{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                        <TableCell>{entry.user}</TableCell>
+                        <TableCell>{entry.action}</TableCell>
+                        <TableCell>{entry.job_id ?? "—"}</TableCell>
+                        <TableCell sx={{ color: entry.result === "success" ? "green" : "red", fontWeight: "bold" }}>
+                            {entry.result}
+                            {entry.detail && ` — ${entry.detail}`}
+                        </TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    );
+};
+
+const AuditLogPage: React.FC = () => {
+    const { printerId } = useParams();
+    const { findPrinter } = useSettings();
+    const printer = findPrinter(printerId);
+
+    return (
+        <Box sx={{ padding: 4, backgroundColor: "#f9f9f9", minHeight: "100vh" }}>
+            <Button component={RouterLink} to={printer ? `/printers/${printer.id}` : "/"} sx={{ marginBottom: 1 }}>
+                ← Back to Dashboard
+            </Button>
+            <Typography variant="h3" gutterBottom>
+                {printer ? `${printer.name} Audit Log` : "Audit Log"}
+            </Typography>
+            <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px" }}>
+                {printer ? <AuditLog printer={printer} /> : <Typography>Unknown printer "{printerId}".</Typography>}
+            </Paper>
+        </Box>
+    );
+};
+
+export default AuditLogPage;
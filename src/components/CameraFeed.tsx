@@ -0,0 +1,338 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Box, Chip, IconButton, Stack, ToggleButton, ToggleButtonGroup, Tooltip, Typography, Button } from "@mui/material";
+import ZoomInIcon from "@mui/icons-material/ZoomIn";
+import ZoomOutIcon from "@mui/icons-material/ZoomOut";
+import FullscreenIcon from "@mui/icons-material/Fullscreen";
+import FullscreenExitIcon from "@mui/icons-material/FullscreenExit";
+import PhotoCameraIcon from "@mui/icons-material/PhotoCamera";
+import FiberManualRecordIcon from "@mui/icons-material/FiberManualRecord";
+import StopIcon from "@mui/icons-material/Stop";
+import RefreshIcon from "@mui/icons-material/Refresh";
+import { Camera } from "../types";
+import { PrinterApi } from "../api/client";
+import { describeError } from "../api/errors";
+import { useNotifications } from "../notifications/NotificationContext";
+import { createStallDetector, frameSignature, retryDelay, withRetryParam } from "../camera/stream";
+import { saveBlob } from "../utils/download";
+
+interface CameraFeedProps {
+    cameras: Camera[];
+    api: PrinterApi;
+    // Snapshots are attached to this job; without one they are downloaded instead.
+    jobId: number | null;
+    canAttach: boolean;
+    height?: number;
+}
+
+type StreamState = "connecting" | "live" | "stalled" | "offline";
+
+const STATE_CHIPS: Record<StreamState, { label: string; color: "success" | "warning" | "error" }> = {
+    connecting: { label: "Connecting", color: "warning" },
+    live: { label: "Live", color: "success" },
+    stalled: { label: "Stalled", color: "warning" },
+    offline: { label: "Offline", color: "error" },
+};
+
+const STALL_CHECK_MS = 2000;
+// No visible change for this long marks the stream as stalled.
+const STALL_AFTER_MS = 15000;
+const RECORDING_FPS = 10;
+const MAX_RECORDING_SECONDS = 30;
+const MAX_ZOOM = 4;
+
+// Copies the current frame of the stream into a canvas. Throws a SecurityError when the camera
+// doesn't allow cross-origin reads.
+const drawFrame = (image: HTMLImageElement, canvas: HTMLCanvasElement) => {
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext("2d");
+    context?.drawImage(image, 0, 0);
+    return context;
+};
+
+const CameraView: React.FC<Omit<CameraFeedProps, "cameras"> & { camera: Camera }> = ({
+    camera,
+    api,
+    jobId,
+    canAttach,
+    height = 350,
+}) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const imageRef = useRef<HTMLImageElement>(null);
+    const recorderRef = useRef<{ recorder: MediaRecorder; timer: number } | null>(null);
+    // Reconnects since the stream was last live, for the backoff; `connection` only ever grows and
+    // keeps each reconnect's URL unique.
+    const [failures, setFailures] = useState(0);
+    const [connection, setConnection] = useState(0);
+    const { notify } = useNotifications();
+    const [state, setState] = useState<StreamState>("connecting");
+    const [zoom, setZoom] = useState(1);
+    const [fullscreen, setFullscreen] = useState(false);
+    const [recordingSince, setRecordingSince] = useState<number | null>(null);
+    const [savingSnapshot, setSavingSnapshot] = useState(false);
+
+    const retry = useCallback(() => {
+        setState("connecting");
+        setFailures((prev) => prev + 1);
+        setConnection((prev) => prev + 1);
+    }, []);
+
+    // Reconnect automatically with backoff while the camera is offline.
+    useEffect(() => {
+        if (state !== "offline") return;
+        const timer = window.setTimeout(retry, retryDelay(failures + 1));
+        return () => window.clearTimeout(timer);
+    }, [state, failures, retry]);
+
+    // Sample the picture periodically; an unchanged picture means the stream has frozen. Only
+    // starting or stopping to watch restarts this, so switching between live and stalled doesn't.
+    const watching = state === "live" || state === "stalled";
+    useEffect(() => {
+        if (!camera.cors || !watching) return;
+        const canvas = document.createElement("canvas");
+        const detectStall = createStallDetector(STALL_AFTER_MS);
+
+        const interval = window.setInterval(() => {
+            const image = imageRef.current;
+            if (!image || !image.naturalWidth) return;
+            try {
+                const context = drawFrame(image, canvas);
+                const signature = context ? frameSignature(context.getImageData(0, 0, canvas.width, canvas.height).data) : "";
+                setState(detectStall(signature));
+            } catch {
+                // Cross-origin camera without CORS headers: frames can't be inspected.
+                window.clearInterval(interval);
+            }
+        }, STALL_CHECK_MS);
+
+        return () => window.clearInterval(interval);
+    }, [camera.cors, watching]);
+
+    useEffect(() => {
+        const onChange = () => setFullscreen(document.fullscreenElement === containerRef.current);
+        document.addEventListener("fullscreenchange", onChange);
+        return () => document.removeEventListener("fullscreenchange", onChange);
+    }, []);
+
+    // Stop a running recording when the view goes away; nothing is saved in that case.
+    useEffect(() => () => {
+        const current = recorderRef.current;
+        if (!current) return;
+        window.clearInterval(current.timer);
+        current.recorder.ondataavailable = null;
+        current.recorder.onstop = null;
+        current.recorder.stop();
+    }, []);
+
+    const toggleFullscreen = () => {
+        if (document.fullscreenElement) document.exitFullscreen().catch((error) => console.error("Error leaving fullscreen:", error));
+        else containerRef.current?.requestFullscreen().catch((error) => console.error("Error entering fullscreen:", error));
+    };
+
+    const takeSnapshot = async () => {
+        const image = imageRef.current;
+        if (!image) return;
+        setSavingSnapshot(true);
+        try {
+            const canvas = document.createElement("canvas");
+            drawFrame(image, canvas);
+            const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.92));
+            if (!blob) throw new Error("Could not encode the snapshot.");
+
+            if (jobId !== null && canAttach) {
+                await api.uploadSnapshot(jobId, camera.id, blob);
+                notify({ severity: "success", message: `Snapshot attached to job ${jobId}.` });
+            } else {
+                saveBlob(blob, `snapshot_${camera.id}_${Date.now()}.jpg`);
+            }
+        } catch (error) {
+            console.error("Error taking snapshot:", error);
+            notify({
+                severity: "error",
+                message:
+                    error instanceof DOMException && error.name === "SecurityError"
+                        ? "This camera doesn't allow capturing frames (missing CORS headers)."
+                        : `Failed to take snapshot. ${describeError(error)}`,
+            });
+        } finally {
+            setSavingSnapshot(false);
+        }
+    };
+
+    const stopRecording = () => recorderRef.current?.recorder.stop();
+
+    const startRecording = () => {
+        const image = imageRef.current;
+        if (!image) return;
+        try {
+            const canvas = document.createElement("canvas");
+            drawFrame(image, canvas);
+            const recorder = new MediaRecorder(canvas.captureStream(RECORDING_FPS), { mimeType: "video/webm" });
+            const chunks: Blob[] = [];
+            const startedAt = Date.now();
+
+            // Re-draw the <img> onto the recorded canvas at a steady frame rate.
+            const timer = window.setInterval(() => {
+                drawFrame(image, canvas);
+                if (Date.now() - startedAt >= MAX_RECORDING_SECONDS * 1000) recorder.stop();
+            }, 1000 / RECORDING_FPS);
+
+            recorder.ondataavailable = (event) => chunks.push(event.data);
+            recorder.onstop = () => {
+                window.clearInterval(timer);
+                recorderRef.current = null;
+                setRecordingSince(null);
+                saveBlob(new Blob(chunks, { type: "video/webm" }), `recording_${camera.id}_${startedAt}.webm`);
+            };
+            recorder.start();
+            recorderRef.current = { recorder, timer };
+            setRecordingSince(startedAt);
+        } catch (error) {
+            console.error("Error starting recording:", error);
+            notify({ severity: "error", message: `Recording is not possible for this camera. ${describeError(error)}` });
+        }
+    };
+
+    const chip = STATE_CHIPS[state];
+    const canCapture = !!camera.cors && (state === "live" || state === "stalled");
+
+    return (
+        <Box>
+            <Box
+                ref={containerRef}
+                sx={{
+                    position: "relative",
+                    height: fullscreen ? "100vh" : `${height}px`,
+                    overflow: "auto",
+                    border: "1px solid #ccc",
+                    borderRadius: "8px",
+                    backgroundColor: "#000",
+                }}
+            >
+                <img
+                    key={connection}
+                    ref={imageRef}
+                    src={withRetryParam(camera.streamUrl, connection)}
+                    alt={`${camera.name} camera`}
+                    crossOrigin={camera.cors ? "anonymous" : undefined}
+                    onLoad={() => {
+                        setState("live");
+                        setFailures(0);
+                    }}
+                    onError={() => setState("offline")}
+                    style={{
+                        width: `${zoom * 100}%`,
+                        height: zoom === 1 ? "100%" : "auto",
+                        objectFit: "contain",
+                        display: state === "offline" ? "none" : "block",
+                    }}
+                />
+                {state === "offline" && (
+                    <Stack alignItems="center" justifyContent="center" spacing={1} sx={{ height: "100%", color: "#fff" }}>
+                        <Typography>{camera.name} camera is offline.</Typography>
+                        <Typography variant="caption">Retrying automatically…</Typography>
+                        <Button variant="outlined" size="small" onClick={retry} startIcon={<RefreshIcon />}>
+                            Retry Now
+                        </Button>
+                    </Stack>
+                )}
+                <Chip
+                    size="small"
+                    color={chip.color}
+                    label={recordingSince ? "● Recording" : `● ${chip.label}`}
+                    sx={{ position: "absolute", top: 8, left: 8 }}
+                />
+            </Box>
+
+            <Stack direction="row" spacing={1} alignItems="center" sx={{ marginTop: 1 }}>
+                <Tooltip title="Zoom out">
+                    <span>
+                        <IconButton size="small" disabled={zoom <= 1} onClick={() => setZoom((z) => Math.max(1, z - 0.5))}>
+                            <ZoomOutIcon />
+                        </IconButton>
+                    </span>
+                </Tooltip>
+                <Typography variant="caption">{zoom.toFixed(1)}×</Typography>
+                <Tooltip title="Zoom in">
+                    <span>
+                        <IconButton size="small" disabled={zoom >= MAX_ZOOM} onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z + 0.5))}>
+                            <ZoomInIcon />
+                        </IconButton>
+                    </span>
+                </Tooltip>
+                <Tooltip title={fullscreen ? "Exit fullscreen" : "Fullscreen"}>
+                    <IconButton size="small" onClick={toggleFullscreen}>
+                        {fullscreen ? <FullscreenExitIcon /> : <FullscreenIcon />}
+                    </IconButton>
+                </Tooltip>
+                <Tooltip title="Reconnect">
+                    <IconButton size="small" onClick={retry}>
+                        <RefreshIcon />
+                    </IconButton>
+                </Tooltip>
+                <Box sx={{ flexGrow: 1 }} />
+                <Button
+                    size="small"
+                    startIcon={<PhotoCameraIcon />}
+                    disabled={!canCapture || savingSnapshot}
+                    onClick={takeSnapshot}
+                >
+                    {jobId !== null && canAttach ? "Snapshot to Job" : "Snapshot"}
+                </Button>
+                {recordingSince ? (
+                    <Button size="small" color="error" startIcon={<StopIcon />} onClick={stopRecording}>
+                        Stop Recording
+                    </Button>
+                ) : (
+                    <Button
+                        size="small"
+                        color="error"
+                        startIcon={<FiberManualRecordIcon />}
+                        disabled={!canCapture || typeof MediaRecorder === "undefined"}
+                        onClick={startRecording}
+                    >
+                        Record {MAX_RECORDING_SECONDS}s
+                    </Button>
+                )}
+            </Stack>
+            {state === "stalled" && (
+                <Typography variant="caption" sx={{ color: "#ef6c00" }}>
+                    The picture hasn't changed for a while. The stream may be frozen; try reconnecting.
+                </Typography>
+            )}
+        </Box>
+    );
+};
+
+const CameraFeed: React.FC<CameraFeedProps> = ({ cameras, ...props }) => {
+    const [cameraId, setCameraId] = useState(cameras[0]?.id);
+    const camera = cameras.find((c) => c.id === cameraId) ?? cameras[0];
+
+    if (!camera) {
+        return <Typography sx={{ fontStyle: "italic", color: "gray" }}>No cameras configured for this printer.</Typography>;
+    }
+
+    return (
+        <Box>
+            {cameras.length > 1 && (
+                <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={camera.id}
+                    onChange={(_, value: string | null) => value && setCameraId(value)}
+                    sx={{ marginBottom: 1 }}
+                >
+                    {cameras.map((c) => (
+                        <ToggleButton key={c.id} value={c.id}>
+                            {c.name}
+                        </ToggleButton>
+                    ))}
+                </ToggleButtonGroup>
+            )}
+            {/* Keyed so switching cameras starts with fresh connection state. */}
+            <CameraView key={camera.id} camera={camera} {...props} />
+        </Box>
+    );
+};
+
+export default CameraFeed;
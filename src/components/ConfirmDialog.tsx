@@ -0,0 +1,31 @@
+import React from "react";
+import { Button, Dialog, DialogActions, DialogContent, DialogContentText, DialogTitle } from "@mui/material";
+
+interface ConfirmDialogProps {
+    open: boolean;
+    title: string;
+    message: React.ReactNode;
+    confirmLabel?: string;
+    cancelLabel?: string;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ open, title, message, confirmLabel = "Confirm", cancelLabel = "Cancel", onConfirm, onCancel }) => (
+    <Dialog open={open} onClose={onCancel}>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogContent>
+            <DialogContentText>{message}</DialogContentText>
+        </DialogContent>
+        <DialogActions>
+            <Button onClick={onCancel} autoFocus>
+                {cancelLabel}
+            </Button>
+            <Button variant="contained" color="error" onClick={onConfirm}>
+                {confirmLabel}
+            </Button>
+        </DialogActions>
+    </Dialog>
+);
+
+export default ConfirmDialog;
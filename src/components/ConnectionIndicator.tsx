@@ -0,0 +1,22 @@
+import React from "react";
+import { Chip } from "@mui/material";
+import { ConnectionState } from "../hooks/useTelemetry";
+
+const LABELS: Record<ConnectionState, { label: string; color: "success" | "warning" | "default" }> = {
+    connecting: { label: "Connecting", color: "warning" },
+    live: { label: "Live", color: "success" },
+    reconnecting: { label: "Reconnecting", color: "warning" },
+    polling: { label: "Polling", color: "default" },
+};
+
+interface ConnectionIndicatorProps {
+    state: ConnectionState;
+}
+
+const ConnectionIndicator: React.FC<ConnectionIndicatorProps> = ({ state }) => {
+    const { label, color } = LABELS[state];
+
+    return <Chip size="small" variant="outlined" color={color} label={`● ${label}`} />;
+};
+
+export default ConnectionIndicator;
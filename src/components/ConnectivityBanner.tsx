@@ -0,0 +1,39 @@
+import React from "react";
+import { Alert, Button } from "@mui/material";
+import { useSettings } from "../config/SettingsContext";
+import { useConnectivity } from "../offline/ConnectivityContext";
+
+const ConnectivityBanner: React.FC = () => {
+    const { browserOnline, unreachablePrinters, outbox, flush } = useConnectivity();
+    const { findPrinter } = useSettings();
+
+    if (browserOnline && unreachablePrinters.length === 0 && outbox.length === 0) return null;
+
+    const names = unreachablePrinters.map((id) => findPrinter(id)?.name ?? id);
+    const message = !browserOnline
+        ? "You are offline. Showing the last known data."
+        : names.length > 0
+          ? `Can't reach ${names.join(", ")}. Showing the last known data.`
+          : "Connection restored.";
+    const queued = outbox.length > 0 ? ` ${outbox.length} queued action${outbox.length === 1 ? "" : "s"} will be sent when the printer is reachable.` : "";
+
+    return (
+        <Alert
+            severity={browserOnline && names.length === 0 ? "info" : "warning"}
+            square
+            sx={{ position: "sticky", top: 0, zIndex: (theme) => theme.zIndex.appBar }}
+            action={
+                outbox.length > 0 && (
+                    <Button color="inherit" size="small" onClick={flush} disabled={!browserOnline}>
+                        Retry now
+                    </Button>
+                )
+            }
+        >
+            {message}
+            {queued}
+        </Alert>
+    );
+};
+
+export default ConnectivityBanner;
@@ -0,0 +1,168 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import Dashboard from './Dashboard';
+import { SettingsProvider } from '../config/SettingsContext';
+import { NotificationProvider } from '../notifications/NotificationContext';
+import { AuthProvider } from '../auth/AuthContext';
+import { ConnectivityProvider } from '../offline/ConnectivityContext';
+import { Role } from '../auth/roles';
+import { ScenarioStep, SCENARIOS } from '../simulator/scenarios';
+import { createSimulatedBackend, SimulatedBackend } from '../simulator/simulatedFetch';
+
+// Canvas and WebGL aren't available in jsdom; these are covered by their own modules.
+jest.mock('./TemperatureChart', () => () => null);
+jest.mock('./PrinterTwin3D', () => () => null);
+jest.mock('./CameraFeed', () => () => null);
+jest.mock('./GcodeViewer', () => () => null);
+
+// Each test renders the full dashboard and drives it through several polls.
+jest.setTimeout(20000);
+
+const printer = { id: 'sim', name: 'Simulated', baseUrl: 'http://printer.test', cameras: [] };
+
+let backend: SimulatedBackend;
+
+const renderDashboard = (role: Role = 'operator', scenario: ScenarioStep[] = [], url = '/') => {
+  backend = createSimulatedBackend({ scenario, jobDuration: 600 });
+  jest.spyOn(global, 'fetch').mockImplementation(backend.fetch);
+  localStorage.setItem('settings', JSON.stringify({ refreshInterval: 100 }));
+  localStorage.setItem('auth.session', JSON.stringify({ token: `sim-token-${role}`, user: { username: role, role } }));
+
+  return render(
+    <SettingsProvider>
+      <NotificationProvider>
+        <AuthProvider>
+          <ConnectivityProvider>
+            <MemoryRouter initialEntries={[url]}>
+              <Dashboard printer={printer} />
+            </MemoryRouter>
+          </ConnectivityProvider>
+        </AuthProvider>
+      </NotificationProvider>
+    </SettingsProvider>
+  );
+};
+
+// Matches the whole line, as the label and the state are separate elements.
+const textLine = (text: string) => (_: string, element: Element | null) =>
+  element?.tagName === 'P' && element.textContent === text;
+
+const findPrinterState = (state: string) => screen.findByText(textLine(`Printer State: ${state}`));
+
+// Starts the first queued job through the UI and waits until it is heated and printing.
+const startPrinting = async () => {
+  await screen.findByText('bracket.gcode');
+  fireEvent.click(screen.getByRole('button', { name: 'Start Next' }));
+  await findPrinterState('Printing');
+  backend.tick(240);
+  await screen.findByText('Live Print Metrics');
+};
+
+beforeEach(() => localStorage.clear());
+afterEach(() => jest.restoreAllMocks());
+
+test('shows the idle printer, its history and queue', async () => {
+  renderDashboard();
+
+  expect(await screen.findByText('Idle')).toBeInTheDocument();
+  expect(screen.getByText('No active print job.')).toBeInTheDocument();
+  expect(await screen.findByText('bracket.gcode')).toBeInTheDocument();
+  expect(await screen.findByText('phone_stand.gcode')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Pause Print' })).toBeDisabled();
+});
+
+test('starts, pauses and resumes a print', async () => {
+  renderDashboard();
+  await startPrinting();
+
+  // Once in the live metrics and once in the history.
+  expect(screen.getAllByText(textLine('File: bracket.gcode'))).toHaveLength(2);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Pause Print' }));
+  expect(await findPrinterState('Paused')).toBeInTheDocument();
+  expect(await screen.findByText('Error Recovery')).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Continue Print' }));
+  expect(await findPrinterState('Printing')).toBeInTheDocument();
+  expect(screen.queryByText('Error Recovery')).not.toBeInTheDocument();
+});
+
+test('cancels a print after confirmation', async () => {
+  renderDashboard();
+  await startPrinting();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Cancel Print' }));
+  fireEvent.click(within(await screen.findByRole('dialog')).getByRole('button', { name: 'Cancel Print' }));
+
+  expect(await screen.findByText('No active print job.')).toBeInTheDocument();
+});
+
+test('reports a mid-print failure', async () => {
+  renderDashboard('operator', SCENARIOS.midPrintFailure);
+  await startPrinting();
+
+  backend.tick(300);
+
+  expect(await findPrinterState('Error')).toBeInTheDocument();
+  expect(await screen.findByText('No active print job.')).toBeInTheDocument();
+});
+
+test('marks data as stale while the printer is unreachable', async () => {
+  renderDashboard('operator', SCENARIOS.connectionLoss);
+  await startPrinting();
+
+  backend.tick(170);
+
+  expect(await screen.findByText(/^Stale/)).toBeInTheDocument();
+  backend.tick(20);
+  await waitFor(() => expect(screen.queryByText(/^Stale/)).not.toBeInTheDocument());
+});
+
+test('viewers cannot control the printer', async () => {
+  renderDashboard('viewer');
+
+  await screen.findByText('Idle');
+
+  expect(screen.getByRole('button', { name: 'Start Next' })).toBeDisabled();
+  expect(screen.getByRole('button', { name: 'Cancel Print' })).toBeDisabled();
+});
+
+test('rearranges and removes widgets and remembers the layout per user', async () => {
+  const { unmount } = renderDashboard();
+  const queued = await screen.findByText('bracket.gcode');
+
+  fireEvent.click(screen.getByRole('button', { name: 'Edit Layout' }));
+  // Widgets aren't remounted when editing starts.
+  expect(screen.getByText('bracket.gcode')).toBe(queued);
+  fireEvent.dragStart(screen.getByTestId('widget-queue'));
+  fireEvent.dragOver(screen.getByTestId('widget-status'));
+  fireEvent.drop(screen.getByTestId('widget-status'));
+  expect(screen.getAllByTestId(/^widget-/)[0]).toHaveAttribute('data-testid', 'widget-queue');
+
+  fireEvent.click(screen.getByRole('button', { name: 'Remove Job Queue' }));
+  fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+  expect(screen.queryByRole('button', { name: 'Start Next' })).not.toBeInTheDocument();
+
+  unmount();
+  renderDashboard();
+  await screen.findByText('Idle');
+  expect(screen.queryByRole('button', { name: 'Start Next' })).not.toBeInTheDocument();
+
+  fireEvent.mouseDown(screen.getByRole('combobox', { name: 'Dashboard view' }));
+  fireEvent.click(screen.getByRole('option', { name: 'Default' }));
+  expect(await screen.findByRole('button', { name: 'Start Next' })).toBeInTheDocument();
+});
+
+test('kiosk mode shows a preset without navigation or editing', async () => {
+  renderDashboard('operator', [], '/?kiosk=1&view=wall');
+  await screen.findByText('Idle');
+
+  expect(screen.queryByRole('link', { name: /Back to Fleet/ })).not.toBeInTheDocument();
+  expect(screen.queryByRole('button', { name: 'Edit Layout' })).not.toBeInTheDocument();
+  expect(screen.queryByRole('button', { name: 'Pause Print' })).not.toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Exit Kiosk' }));
+  expect(await screen.findByRole('button', { name: 'Edit Layout' })).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Pause Print' })).toBeInTheDocument();
+});
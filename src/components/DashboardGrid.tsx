@@ -0,0 +1,207 @@
+import React, { useRef, useState } from "react";
+import { Box, IconButton, Paper, Stack, Tooltip, Typography } from "@mui/material";
+import DragIndicatorIcon from "@mui/icons-material/DragIndicator";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import ArrowForwardIcon from "@mui/icons-material/ArrowForward";
+import HeightIcon from "@mui/icons-material/Height";
+import CloseIcon from "@mui/icons-material/Close";
+import {
+    DashboardLayout,
+    GRID_COLUMNS,
+    moveWidget,
+    removeWidget,
+    resizeWidget,
+    ROW_HEIGHT,
+    WidgetId,
+    WidgetPlacement,
+} from "../dashboard/layout";
+import { WIDGETS } from "./widgets/registry";
+
+interface DashboardGridProps {
+    layout: DashboardLayout;
+    editing: boolean;
+    // Takes an updater so drags and resizes always apply to the latest layout.
+    onChange: (update: (layout: DashboardLayout) => DashboardLayout) => void;
+}
+
+const FRAME_SX = { padding: 3, boxShadow: 3, borderRadius: "12px" };
+
+interface WidgetTileProps {
+    placement: WidgetPlacement;
+    index: number;
+    count: number;
+    editing: boolean;
+    dragging: WidgetId | null;
+    onDragChange: (id: WidgetId | null) => void;
+    onChange: DashboardGridProps["onChange"];
+}
+
+const WidgetTile: React.FC<WidgetTileProps> = ({ placement, index, count, editing, dragging, onDragChange, onChange }) => {
+    const tileRef = useRef<HTMLDivElement>(null);
+    // Size shown while the corner is dragged; the layout only changes when it's let go.
+    const [resized, setResized] = useState<WidgetPlacement | null>(null);
+    const { id, width, height } = resized ?? placement;
+    const { title, component: Widget, framed } = WIDGETS[id];
+
+    // Dragging the corner handle resizes in whole columns and rows.
+    const startResize = (event: React.PointerEvent<HTMLElement>) => {
+        const tile = tileRef.current;
+        const grid = tile?.parentElement;
+        if (!tile || !grid) return;
+        event.preventDefault();
+        const columnWidth = grid.clientWidth / GRID_COLUMNS;
+        const start = { x: event.clientX, y: event.clientY, height: tile.offsetHeight };
+        let size: { width: number; height: number } | null = null;
+        const onMove = (move: PointerEvent) => {
+            size = {
+                width: placement.width + (move.clientX - start.x) / columnWidth,
+                height: (start.height + move.clientY - start.y) / ROW_HEIGHT,
+            };
+            setResized(resizeWidget([placement], id, size)[0]);
+        };
+        const onUp = () => {
+            window.removeEventListener("pointermove", onMove);
+            window.removeEventListener("pointerup", onUp);
+            const final = size;
+            if (final) onChange((layout) => resizeWidget(layout, id, final));
+            setResized(null);
+        };
+        window.addEventListener("pointermove", onMove);
+        window.addEventListener("pointerup", onUp);
+    };
+
+    // The widget keeps its place in the tree in both modes, so editing doesn't remount it.
+    return (
+        <Paper
+            ref={tileRef}
+            data-testid={`widget-${id}`}
+            elevation={framed ? 1 : 0}
+            draggable={editing}
+            onDragStart={(event) => {
+                if (!editing) return;
+                event.dataTransfer?.setData("text/plain", id);
+                onDragChange(id);
+            }}
+            onDragEnd={() => onDragChange(null)}
+            onDragOver={(event) => {
+                if (editing && dragging && dragging !== id) event.preventDefault();
+            }}
+            onDrop={(event) => {
+                if (!editing) return;
+                event.preventDefault();
+                if (!dragging || dragging === id) return;
+                // The dropped widget takes the target's position; the others shift to make room.
+                onChange((layout) => moveWidget(layout, dragging, layout.findIndex((item) => item.id === id)));
+                onDragChange(null);
+            }}
+            sx={{
+                gridColumn: { xs: `span ${GRID_COLUMNS}`, md: `span ${width}` },
+                height: height === undefined ? undefined : height * ROW_HEIGHT,
+                overflow: height === undefined ? undefined : "auto",
+                ...(framed ? FRAME_SX : { backgroundColor: "transparent" }),
+                // Widgets with nothing to show, like recovery while printing, take no space.
+                "&:empty": { display: "none" },
+                ...(editing && {
+                    position: "relative",
+                    padding: framed ? 3 : 1,
+                    border: "2px dashed",
+                    borderColor: "divider",
+                    opacity: dragging === id ? 0.4 : 1,
+                    // Widgets stay visible while editing but don't take clicks.
+                    "& > :not([data-tile-chrome])": { pointerEvents: "none", opacity: 0.7 },
+                }),
+            }}
+        >
+            {editing && (
+                <Stack data-tile-chrome direction="row" alignItems="center" spacing={0.5} sx={{ marginBottom: 1 }}>
+                    <DragIndicatorIcon color="action" sx={{ cursor: "grab" }} />
+                    <Typography sx={{ fontWeight: "bold", flexGrow: 1 }}>{title}</Typography>
+                    <IconButton
+                        size="small"
+                        aria-label={`Move ${title} earlier`}
+                        disabled={index === 0}
+                        onClick={() => onChange((layout) => moveWidget(layout, id, index - 1))}
+                    >
+                        <ArrowBackIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton
+                        size="small"
+                        aria-label={`Move ${title} later`}
+                        disabled={index === count - 1}
+                        onClick={() => onChange((layout) => moveWidget(layout, id, index + 1))}
+                    >
+                        <ArrowForwardIcon fontSize="small" />
+                    </IconButton>
+                    {height !== undefined && (
+                        <Tooltip title="Fit to content">
+                            <IconButton
+                                size="small"
+                                aria-label={`Fit ${title} to its content`}
+                                onClick={() => onChange((layout) => resizeWidget(layout, id, { width }))}
+                            >
+                                <HeightIcon fontSize="small" />
+                            </IconButton>
+                        </Tooltip>
+                    )}
+                    <IconButton size="small" aria-label={`Remove ${title}`} onClick={() => onChange((layout) => removeWidget(layout, id))}>
+                        <CloseIcon fontSize="small" />
+                    </IconButton>
+                </Stack>
+            )}
+            <Widget />
+            {editing && (
+                <Box
+                    data-tile-chrome
+                    aria-label={`Resize ${title}`}
+                    onPointerDown={startResize}
+                    sx={{
+                        position: "absolute",
+                        right: 0,
+                        bottom: 0,
+                        width: 16,
+                        height: 16,
+                        cursor: "nwse-resize",
+                        borderRight: "3px solid",
+                        borderBottom: "3px solid",
+                        borderColor: "action.active",
+                    }}
+                />
+            )}
+        </Paper>
+    );
+};
+
+/**
+ * The dashboard widgets on a 12-column grid. In edit mode a widget dragged onto another takes its
+ * position, and widgets can be resized from their corner, moved with the arrow buttons and removed.
+ */
+const DashboardGrid: React.FC<DashboardGridProps> = ({ layout, editing, onChange }) => {
+    const [dragging, setDragging] = useState<WidgetId | null>(null);
+
+    return (
+        <Box
+            sx={{
+                display: "grid",
+                gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))`,
+                gridAutoFlow: "row dense",
+                alignItems: "start",
+                gap: 3,
+            }}
+        >
+            {layout.map((placement, index) => (
+                <WidgetTile
+                    key={placement.id}
+                    placement={placement}
+                    index={index}
+                    count={layout.length}
+                    editing={editing}
+                    dragging={dragging}
+                    onDragChange={setDragging}
+                    onChange={onChange}
+                />
+            ))}
+        </Box>
+    );
+};
+
+export default DashboardGrid;
@@ -0,0 +1,32 @@
+import React, { useState } from "react";
+import { Button, Menu, MenuItem } from "@mui/material";
+import { ExportFormat } from "../export/tabular";
+
+interface ExportMenuProps {
+    label?: string;
+    disabled?: boolean;
+    onExport: (format: ExportFormat) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ label = "Export", disabled, onExport }) => {
+    const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+
+    const choose = (format: ExportFormat) => {
+        setAnchor(null);
+        onExport(format);
+    };
+
+    return (
+        <>
+            <Button size="small" disabled={disabled} onClick={(event) => setAnchor(event.currentTarget)}>
+                {label}
+            </Button>
+            <Menu anchorEl={anchor} open={anchor !== null} onClose={() => setAnchor(null)}>
+                <MenuItem onClick={() => choose("csv")}>CSV</MenuItem>
+                <MenuItem onClick={() => choose("json")}>JSON</MenuItem>
+            </Menu>
+        </>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,29 @@
+import React from "react";
+import { Box, Typography, Grid, Stack } from "@mui/material";
+import PrinterCard from "./PrinterCard";
+import UserMenu from "./UserMenu";
+import { useSettings } from "../config/SettingsContext";
+
+const FleetOverview: React.FC = () => {
+    const { printers } = useSettings();
+
+    return (
+        <Box sx={{ padding: 4, backgroundColor: "#f9f9f9", minHeight: "100vh" }}>
+            <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ marginBottom: 2 }}>
+                <Typography variant="h3">
+                    Printer Fleet
+                </Typography>
+                <UserMenu />
+            </Stack>
+            <Grid container spacing={4}>
+                {printers.map((printer) => (
+                    <Grid item xs={12} md={6} lg={4} key={printer.id}>
+                        <PrinterCard printer={printer} />
+                    </Grid>
+                ))}
+            </Grid>
+        </Box>
+    );
+};
+
+export default FleetOverview;
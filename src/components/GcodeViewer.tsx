@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { Box, FormControlLabel, Slider, Stack, Switch, Typography } from "@mui/material";
+import { PrinterApi } from "../api/client";
+import { describeError } from "../api/errors";
+import { findCurrentLine, findLayerAtLine, GcodeLayer, parseGcode, ParsedGcode } from "../gcode/parser";
+
+interface GcodeViewerProps {
+    jobId: number;
+    api: PrinterApi;
+    // Live position, only passed for the job that is currently printing.
+    progress?: number;
+    lastCommand?: string | null;
+    height?: number;
+}
+
+const PADDING = 12;
+
+const drawLayers = (
+    canvas: HTMLCanvasElement,
+    parsed: ParsedGcode,
+    layer: GcodeLayer,
+    previous: GcodeLayer | undefined,
+    printedUpTo: number | null
+) => {
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    const { width, height } = canvas;
+    const { minX, maxX, minY, maxY } = parsed.bounds;
+    const scale = Math.min((width - 2 * PADDING) / (maxX - minX || 1), (height - 2 * PADDING) / (maxY - minY || 1));
+    // Printer Y grows away from the viewer, canvas Y grows downwards.
+    const toCanvas = (x: number, y: number): [number, number] => [
+        PADDING + (x - minX) * scale,
+        height - PADDING - (y - minY) * scale,
+    ];
+
+    const stroke = (moves: GcodeLayer["moves"], color: string) => {
+        context.strokeStyle = color;
+        context.beginPath();
+        moves.forEach((move) => {
+            context.moveTo(...toCanvas(move.fromX, move.fromY));
+            context.lineTo(...toCanvas(move.toX, move.toY));
+        });
+        context.stroke();
+    };
+
+    context.clearRect(0, 0, width, height);
+    context.lineWidth = 1;
+
+    if (previous) stroke(previous.moves.filter((move) => move.extrude), "#e0e0e0");
+
+    const extrusions = layer.moves.filter((move) => move.extrude);
+    if (printedUpTo === null) {
+        stroke(extrusions, "#1976d2");
+        return;
+    }
+
+    stroke(extrusions.filter((move) => move.line > printedUpTo), "#bbdefb");
+    stroke(extrusions.filter((move) => move.line <= printedUpTo), "#0d47a1");
+
+    const head = [...layer.moves].reverse().find((move) => move.line <= printedUpTo);
+    if (head && Number.isFinite(printedUpTo)) {
+        const [x, y] = toCanvas(head.toX, head.toY);
+        context.fillStyle = "red";
+        context.beginPath();
+        context.arc(x, y, 4, 0, 2 * Math.PI);
+        context.fill();
+    }
+};
+
+const GcodeViewer: React.FC<GcodeViewerProps> = ({ jobId, api, progress, lastCommand, height = 300 }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [parsed, setParsed] = useState<ParsedGcode | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedLayer, setSelectedLayer] = useState(0);
+    const [followLive, setFollowLive] = useState(true);
+    const live = progress !== undefined;
+
+    useEffect(() => {
+        let cancelled = false;
+        setParsed(null);
+        setError(null);
+
+        api.getGcode(jobId)
+            .then((text) => {
+                if (!cancelled) setParsed(parseGcode(text));
+            })
+            .catch((err) => {
+                console.error("Error fetching G-code:", err);
+                if (!cancelled) setError(describeError(err));
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [api, jobId]);
+
+    const currentLine = useMemo(
+        () => (parsed && progress !== undefined ? findCurrentLine(parsed.lines, progress, lastCommand) : null),
+        [parsed, progress, lastCommand]
+    );
+    const liveLayer = parsed && currentLine !== null ? findLayerAtLine(parsed, currentLine) : null;
+    const layerIndex = live && followLive && liveLayer !== null ? liveLayer : selectedLayer;
+
+    useEffect(() => {
+        if (!parsed || !canvasRef.current || parsed.layers.length === 0) return;
+
+        const canvas = canvasRef.current;
+        canvas.width = canvas.clientWidth || 400;
+        canvas.height = height;
+
+        const layer = parsed.layers[Math.min(layerIndex, parsed.layers.length - 1)];
+        // Layers below the live one are complete, layers above it haven't started.
+        const printedUpTo = liveLayer === null ? null : layer.index < liveLayer ? Infinity : layer.index > liveLayer ? -1 : currentLine;
+        drawLayers(canvas, parsed, layer, parsed.layers[layer.index - 1], printedUpTo);
+    }, [parsed, layerIndex, liveLayer, currentLine, height]);
+
+    if (error) return <Typography sx={{ color: "red" }}>Failed to load G-code. {error}</Typography>;
+    if (!parsed) return <Typography sx={{ fontStyle: "italic", color: "gray" }}>Loading G-code...</Typography>;
+    if (parsed.layers.length === 0) return <Typography>No printable moves in this file.</Typography>;
+
+    const layer = parsed.layers[Math.min(layerIndex, parsed.layers.length - 1)];
+
+    return (
+        <Box>
+            <canvas
+                ref={canvasRef}
+                style={{ width: "100%", height: `${height}px`, border: "1px solid #ccc", borderRadius: "8px", background: "#fff" }}
+            />
+            <Stack direction="row" spacing={2} alignItems="center">
+                <Typography sx={{ whiteSpace: "nowrap", minWidth: 150 }}>
+                    Layer {layer.index + 1} / {parsed.layers.length} (Z {layer.z.toFixed(2)} mm)
+                </Typography>
+                <Slider
+                    size="small"
+                    min={0}
+                    max={parsed.layers.length - 1}
+                    value={layer.index}
+                    onChange={(_, value) => {
+                        setSelectedLayer(value as number);
+                        setFollowLive(false);
+                    }}
+                />
+                {live && (
+                    <FormControlLabel
+                        control={<Switch size="small" checked={followLive} onChange={(e) => setFollowLive(e.target.checked)} />}
+                        label="Live"
+                    />
+                )}
+            </Stack>
+        </Box>
+    );
+};
+
+export default GcodeViewer;
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from "react";
+import { Link as RouterLink, useParams } from "react-router-dom";
+import { Box, Button, Grid, Paper, Table, TableBody, TableCell, TableRow, Typography } from "@mui/material";
+import { Job, JobEvent, JobRating, Printer } from "../types";
+import { useSettings } from "../config/SettingsContext";
+import { usePrinterApi } from "../api/PrinterApiContext";
+import { describeError } from "../api/errors";
+import { formatDuration, formatTimestamp } from "../utils/format";
+import { JOB_STATUS_COLORS } from "../lifecycle/jobState";
+import { jobDurations } from "../jobs/history";
+import JobMediaViewer from "./JobMediaViewer";
+import JobStateTimeline from "./JobStateTimeline";
+import JobReportPanel from "./JobReportPanel";
+
+const JobDetail: React.FC<{ printer: Printer; jobId: number }> = ({ printer, jobId }) => {
+    const api = usePrinterApi(printer);
+    const [job, setJob] = useState<Job | null>(null);
+    const [rating, setRating] = useState<JobRating | null | undefined>(undefined);
+    const [events, setEvents] = useState<JobEvent[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        api.getJob(jobId)
+            .then((result) => {
+                if (!cancelled) setJob(result);
+            })
+            .catch((err) => {
+                console.error("Error fetching job:", err);
+                if (!cancelled) setError(describeError(err));
+            });
+        api.getJobRating(jobId)
+            .then((result) => {
+                if (!cancelled) setRating(result);
+            })
+            .catch((err) => {
+                console.error("Error fetching job rating:", err);
+                if (!cancelled) setRating(null);
+            });
+        api.getJobEvents(jobId)
+            .then((result) => {
+                if (!cancelled) setEvents(result);
+            })
+            .catch((err) => console.error("Error fetching job history:", err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [api, jobId]);
+
+    if (error) return <Typography sx={{ color: "red" }}>Failed to load job {jobId}. {error}</Typography>;
+    if (!job) return <Typography>Loading job...</Typography>;
+
+    const { actual, estimated } = jobDurations(job);
+    const fields: [string, React.ReactNode][] = [
+        ["Job ID", job.id],
+        ["File", job.file_name],
+        [
+            "Status",
+            <span style={{ color: JOB_STATUS_COLORS[job.status], fontWeight: "bold" }}>{job.status}</span>,
+        ],
+        ["Started", formatTimestamp(job.start_time)],
+        ["Ended", formatTimestamp(job.end_time ?? null)],
+        ["Progress", job.progress !== undefined ? `${job.progress.toFixed(1)}%` : "N/A"],
+        ["Filament Used", job.filament_used !== undefined ? `${job.filament_used.toFixed(2)} mm` : "N/A"],
+        ["Estimated Duration", formatDuration(estimated)],
+        [job.end_time ? "Actual Duration" : "Elapsed", formatDuration(actual)],
+    ];
+    if (actual !== undefined && estimated && job.end_time) {
+        const difference = ((actual - estimated) / estimated) * 100;
+        fields.push(["Versus Estimate", `${difference >= 0 ? "+" : ""}${difference.toFixed(1)}%`]);
+    }
+
+    return (
+        <Grid container spacing={4}>
+            <Grid item xs={12} md={6}>
+                <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px", marginBottom: 3 }}>
+                    <Typography variant="h5" sx={{ fontWeight: "bold", marginBottom: 1 }}>
+                        Details
+                    </Typography>
+                    <Table size="small">
+                        <TableBody>
+                            {fields.map(([label, value]) => (
+                                <TableRow key={label}>
+                                    <TableCell sx={{ fontWeight: "bold", width: "40%" }}>{label}</TableCell>
+                                    <TableCell>{value}</TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </Paper>
+
+                <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px", marginBottom: 3 }}>
+                    <Typography variant="h5" sx={{ fontWeight: "bold", marginBottom: 1 }}>
+                        State Timeline
+                    </Typography>
+                    <JobStateTimeline job={job} printerId={printer.id} />
+                </Paper>
+
+                <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px", marginBottom: 3 }}>
+                    <Typography variant="h5" sx={{ fontWeight: "bold", marginBottom: 1 }}>
+                        Rating
+                    </Typography>
+                    {rating === undefined ? (
+                        <Typography>Loading rating...</Typography>
+                    ) : rating ? (
+                        <>
+                            <Typography><strong>Print Quality:</strong> {rating.printQuality} / 10</Typography>
+                            <Typography><strong>Print Speed:</strong> {rating.printSpeed} / 10</Typography>
+                            <Typography><strong>Feedback:</strong> {rating.feedback || "—"}</Typography>
+                            <Typography><strong>Defects:</strong> {rating.defects.length > 0 ? rating.defects.join(", ") : "None"}</Typography>
+                            {rating.photo && <Typography><strong>Photo:</strong> {rating.photo}</Typography>}
+                        </>
+                    ) : (
+                        <Typography sx={{ fontStyle: "italic", color: "gray" }}>This job hasn't been rated yet.</Typography>
+                    )}
+                </Paper>
+
+                {events.length > 0 && (
+                    <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px" }}>
+                        <Typography variant="h5" sx={{ fontWeight: "bold", marginBottom: 1 }}>
+                            Events
+                        </Typography>
+                        {events.map((event) => (
+                            <Typography key={`${event.timestamp}-${event.message}`} variant="body2">
+                                {formatTimestamp(event.timestamp)} [{event.type}] {event.message}
+                            </Typography>
+                        ))}
+                    </Paper>
+                )}
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+                <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px", marginBottom: 3 }}>
+                    <Typography variant="h5" sx={{ fontWeight: "bold", marginBottom: 1 }}>
+                        Report & Export
+                    </Typography>
+                    <JobReportPanel printer={printer} job={job} rating={rating ?? null} events={events} api={api} />
+                </Paper>
+
+                <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px" }}>
+                    <Typography variant="h5" sx={{ fontWeight: "bold", marginBottom: 1 }}>
+                        Timelapse & Photos
+                    </Typography>
+                    <JobMediaViewer jobId={jobId} api={api} />
+                </Paper>
+            </Grid>
+        </Grid>
+    );
+};
+
+const JobDetailPage: React.FC = () => {
+    const { printerId, jobId } = useParams();
+    const { findPrinter } = useSettings();
+    const printer = findPrinter(printerId);
+    const id = Number(jobId);
+
+    return (
+        <Box sx={{ padding: 4, backgroundColor: "#f9f9f9", minHeight: "100vh" }}>
+            <Button component={RouterLink} to={printer ? `/printers/${printer.id}` : "/"} sx={{ marginBottom: 1 }}>
+                ← Back to Dashboard
+            </Button>
+            <Typography variant="h3" gutterBottom>
+                Job {jobId}
+            </Typography>
+            {!printer ? (
+                <Typography>Unknown printer "{printerId}".</Typography>
+            ) : !Number.isInteger(id) ? (
+                <Typography>Invalid job id "{jobId}".</Typography>
+            ) : (
+                <JobDetail printer={printer} jobId={id} />
+            )}
+        </Box>
+    );
+};
+
+export default JobDetailPage;
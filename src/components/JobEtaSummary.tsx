@@ -0,0 +1,63 @@
+import React from "react";
+import { Chip, Stack, Tooltip, Typography } from "@mui/material";
+import { confidenceLabel, EtaConfidence, JobEta, ON_ESTIMATE_TOLERANCE } from "../jobs/eta";
+import { formatDuration, formatTimestamp } from "../utils/format";
+
+const CONFIDENCE_COLORS: Record<EtaConfidence, "default" | "info" | "success"> = {
+    low: "default",
+    medium: "info",
+    high: "success",
+};
+
+interface JobEtaSummaryProps {
+    eta: JobEta | null;
+    // Slicer estimate in seconds.
+    estimated?: number;
+    paused: boolean;
+}
+
+const DeviationChip: React.FC<{ deviation: number }> = ({ deviation }) => {
+    if (Math.abs(deviation) < ON_ESTIMATE_TOLERANCE) return <Chip size="small" label="On estimate" />;
+    const percent = Math.round(Math.abs(deviation) * 100);
+    return deviation > 0 ? (
+        <Chip size="small" color="warning" label={`${percent}% behind estimate`} />
+    ) : (
+        <Chip size="small" color="success" label={`${percent}% ahead of estimate`} />
+    );
+};
+
+const JobEtaSummary: React.FC<JobEtaSummaryProps> = ({ eta, estimated, paused }) => {
+    if (!eta) {
+        return (
+            <Typography>
+                <strong>Remaining:</strong> Waiting for progress… (slicer estimate {formatDuration(estimated)})
+            </Typography>
+        );
+    }
+
+    const confidence = confidenceLabel(eta.confidence);
+    const calibration = eta.calibrationRuns > 0
+        ? `Calibrated against ${eta.calibrationRuns} earlier run${eta.calibrationRuns === 1 ? "" : "s"} of this file.`
+        : "No earlier runs of this file to calibrate against.";
+
+    return (
+        <>
+            <Typography>
+                <strong>Remaining:</strong> {eta.remaining < 1 ? "00:00:00" : formatDuration(eta.remaining)}
+                {paused && " (paused)"}
+            </Typography>
+            <Typography>
+                <strong>Estimated End:</strong> {formatTimestamp(new Date(eta.endsAt).toISOString())}
+                {estimated !== undefined && ` · slicer estimate ${formatDuration(estimated)}`}
+            </Typography>
+            <Stack direction="row" spacing={1} sx={{ marginY: 0.5 }}>
+                <Tooltip title={calibration}>
+                    <Chip size="small" variant="outlined" color={CONFIDENCE_COLORS[confidence]} label={`${confidence} confidence`} />
+                </Tooltip>
+                {eta.deviation !== null && <DeviationChip deviation={eta.deviation} />}
+            </Stack>
+        </>
+    );
+};
+
+export default JobEtaSummary;
@@ -0,0 +1,232 @@
+import React, { useState, useMemo } from "react";
+import { Link as RouterLink } from "react-router-dom";
+import {
+    Box,
+    Button,
+    Card,
+    Checkbox,
+    Chip,
+    Divider,
+    FormControl,
+    InputLabel,
+    Link,
+    ListItemText,
+    MenuItem,
+    OutlinedInput,
+    Pagination,
+    Paper,
+    Select,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { Job, JobRating } from "../types";
+import { formatTimestamp } from "../utils/format";
+import { isActiveJob, JOB_STATUS_COLORS } from "../lifecycle/jobState";
+import { EMPTY_FILTER, filterJobs, JobFilter, paginate } from "../jobs/history";
+import { EXPORT_TYPES, ExportFormat, exportFileName, jobHistoryCsv, jobHistoryJson } from "../export/tabular";
+import { saveText } from "../utils/download";
+import ExportMenu from "./ExportMenu";
+
+interface JobHistoryPanelProps {
+    // Newest first.
+    jobs: Job[];
+    ratings: Map<number, JobRating>;
+    printerId: string;
+    onOpenMedia: (job: Job) => void;
+    onPreview: (job: Job) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const RatingSummary: React.FC<{ rating: JobRating }> = ({ rating }) => (
+    <Box>
+        <Typography>
+            <strong>Rating:</strong> quality {rating.printQuality}/10, speed {rating.printSpeed}/10
+        </Typography>
+        {rating.defects.length > 0 && (
+            <Stack direction="row" useFlexGap flexWrap="wrap" spacing={0.5} sx={{ marginY: 0.5 }}>
+                {rating.defects.map((defect) => (
+                    <Chip key={defect} size="small" color="error" variant="outlined" label={defect} />
+                ))}
+            </Stack>
+        )}
+    </Box>
+);
+
+const JobHistoryPanel: React.FC<JobHistoryPanelProps> = ({
+    jobs,
+    ratings,
+    printerId,
+    onOpenMedia,
+    onPreview,
+}) => {
+    const [filter, setFilter] = useState<JobFilter>(EMPTY_FILTER);
+    const [page, setPage] = useState(1);
+
+    const statuses = useMemo(() => Array.from(new Set(jobs.map((job) => job.status))).sort(), [jobs]);
+    const filtered = useMemo(() => filterJobs(jobs, filter), [jobs, filter]);
+    const visible = paginate(filtered, page, PAGE_SIZE);
+    const isFiltered = !!(filter.search || filter.statuses.length || filter.from || filter.to);
+
+    const updateFilter = (changes: Partial<JobFilter>) => {
+        setFilter((prev) => ({ ...prev, ...changes }));
+        setPage(1);
+    };
+
+    // Exports what the filters currently match, across all pages.
+    const exportJobs = (format: ExportFormat) =>
+        saveText(
+            format === "csv" ? jobHistoryCsv(filtered, ratings) : jobHistoryJson(filtered, ratings),
+            EXPORT_TYPES[format],
+            exportFileName([printerId, "jobs"], format)
+        );
+
+    return (
+        <Paper
+            sx={{
+                padding: 3,
+                boxShadow: 3,
+                borderRadius: "12px",
+                height: "100%", // Fills its dashboard tile
+                minHeight: "400px",
+                display: "flex",
+                flexDirection: "column",
+            }}
+        >
+            {/* Pinned Header */}
+            <Box sx={{ flexShrink: 0 }}>
+                <Stack direction="row" alignItems="center" justifyContent="space-between">
+                    <Typography variant="h5" sx={{ fontWeight: "bold" }}>
+                        Job History
+                    </Typography>
+                    <ExportMenu disabled={filtered.length === 0} onExport={exportJobs} />
+                </Stack>
+                <Stack direction="row" spacing={1} sx={{ marginY: 1 }} useFlexGap flexWrap="wrap">
+                    <TextField
+                        size="small"
+                        label="Search file name"
+                        value={filter.search}
+                        onChange={(e) => updateFilter({ search: e.target.value })}
+                        sx={{ flexGrow: 1, minWidth: 160 }}
+                    />
+                    <FormControl size="small" sx={{ minWidth: 140 }}>
+                        <InputLabel id="job-status-filter">Status</InputLabel>
+                        <Select
+                            labelId="job-status-filter"
+                            multiple
+                            value={filter.statuses}
+                            onChange={(e) => {
+                                const value = e.target.value;
+                                updateFilter({ statuses: typeof value === "string" ? value.split(",") : value });
+                            }}
+                            input={<OutlinedInput label="Status" />}
+                            renderValue={(selected) => selected.join(", ")}
+                        >
+                            {statuses.map((status) => (
+                                <MenuItem key={status} value={status}>
+                                    <Checkbox size="small" checked={filter.statuses.includes(status)} />
+                                    <ListItemText primary={status} />
+                                </MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <TextField
+                        size="small"
+                        type="date"
+                        label="From"
+                        value={filter.from}
+                        onChange={(e) => updateFilter({ from: e.target.value })}
+                        InputLabelProps={{ shrink: true }}
+                    />
+                    <TextField
+                        size="small"
+                        type="date"
+                        label="To"
+                        value={filter.to}
+                        onChange={(e) => updateFilter({ to: e.target.value })}
+                        InputLabelProps={{ shrink: true }}
+                    />
+                    {isFiltered && (
+                        <Button size="small" onClick={() => updateFilter(EMPTY_FILTER)}>
+                            Clear
+                        </Button>
+                    )}
+                </Stack>
+                <Divider />
+            </Box>
+
+            {/* Scrollable Job List */}
+            <Box sx={{ flexGrow: 1, overflowY: "auto", paddingRight: 1 }}>
+                {visible.items.length > 0 ? (
+                    visible.items.map((job) => (
+                        <Card
+                            key={job.id}
+                            sx={{
+                                marginTop: 2,
+                                padding: 2,
+                                boxShadow: 1,
+                                borderRadius: "8px",
+                                backgroundColor: isActiveJob(job) ? "#d1e5ff" : "#fff",
+                            }}
+                        >
+                            <Typography>
+                                <strong>Job ID:</strong>{" "}
+                                <Link component={RouterLink} to={`/printers/${printerId}/jobs/${job.id}`}>
+                                    {job.id}
+                                </Link>
+                            </Typography>
+                            <Typography>
+                                <strong>File:</strong> {job.file_name}
+                            </Typography>
+                            <Typography>
+                                <strong>Status:</strong>{" "}
+                                <span
+                                    style={{
+                                        color: JOB_STATUS_COLORS[job.status],
+                                        fontWeight: "bold",
+                                    }}
+                                >
+                                    {job.status}
+                                </span>
+                            </Typography>
+                            {/* Filament Used */}
+                            {job.filament_used !== null && job.filament_used !== undefined && (
+                                <Typography>
+                                    <strong>Filament Used:</strong> {job.filament_used.toFixed(2)}mm
+                                </Typography>
+                            )}
+                            {ratings.has(job.id) && <RatingSummary rating={ratings.get(job.id) as JobRating} />}
+                            <Typography variant="caption" sx={{ color: "gray" }}>
+                                {formatTimestamp(job.start_time)} →{" "}
+                                {job.end_time ? formatTimestamp(job.end_time) : isActiveJob(job) ? "In Progress" : "—"}
+                            </Typography>
+                            <Divider sx={{ marginY: 2 }} />
+                            <Stack direction="row" spacing={2} sx={{ marginTop: 2 }}>
+                                <Button variant="contained" color="primary" onClick={() => onOpenMedia(job)}>
+                                    Timelapse & Photos
+                                </Button>
+                                <Button variant="outlined" onClick={() => onPreview(job)}>
+                                    Preview G-code
+                                </Button>
+                            </Stack>
+                        </Card>
+                    ))
+                ) : (
+                    <Typography sx={{ marginTop: 2 }}>
+                        {jobs.length > 0 ? "No jobs match the current filters." : "No job history available."}
+                    </Typography>
+                )}
+            </Box>
+
+            <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ flexShrink: 0, paddingTop: 1 }}>
+                <Typography variant="caption" sx={{ color: "gray" }}>
+                    {filtered.length} of {jobs.length} jobs
+                </Typography>
+                <Pagination size="small" count={visible.pageCount} page={visible.page} onChange={(_, value) => setPage(value)} />
+            </Stack>
+        </Paper>
+    );
+};
+
+export default JobHistoryPanel;
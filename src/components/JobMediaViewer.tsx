@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    ImageList,
+    ImageListItem,
+    ImageListItemBar,
+    LinearProgress,
+    Stack,
+    Tab,
+    Tabs,
+    Typography,
+} from "@mui/material";
+import { PrinterApi } from "../api/client";
+import { DownloadProgress, GalleryPhoto, useJobPhotos } from "../hooks/useJobPhotos";
+import { useJobTimelapse } from "../hooks/useJobTimelapse";
+import { saveBlob } from "../utils/download";
+import { formatDuration } from "../utils/format";
+
+interface JobMediaViewerProps {
+    jobId: number;
+    api: PrinterApi;
+}
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const ProgressBar: React.FC<{ progress: DownloadProgress }> = ({ progress }) => (
+    <Box sx={{ marginY: 1 }}>
+        <LinearProgress
+            variant={progress.total ? "determinate" : "indeterminate"}
+            value={progress.total ? (progress.loaded / progress.total) * 100 : undefined}
+        />
+        <Typography variant="caption" sx={{ color: "gray" }}>
+            {formatBytes(progress.loaded)}
+            {progress.total && ` of ${formatBytes(progress.total)}`}
+        </Typography>
+    </Box>
+);
+
+const JobMediaViewer: React.FC<JobMediaViewerProps> = ({ jobId, api }) => {
+    const [tab, setTab] = useState<"timelapse" | "photos">("timelapse");
+    const timelapse = useJobTimelapse(api, jobId, tab === "timelapse");
+    const [videoError, setVideoError] = useState(false);
+    const { archive, photos, progress: photosProgress, error: photosError, retry } = useJobPhotos(api, jobId, tab === "photos");
+    // Up to two photos; with two selected they are shown side by side.
+    const [selected, setSelected] = useState<GalleryPhoto[]>([]);
+
+    const toggle = (photo: GalleryPhoto) =>
+        setSelected((prev) =>
+            prev.includes(photo) ? prev.filter((p) => p !== photo) : [...prev, photo].slice(-2)
+        );
+
+    return (
+        <Box>
+            <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ marginBottom: 2 }}>
+                <Tab value="timelapse" label="Timelapse" />
+                <Tab value="photos" label={photos ? `Photos (${photos.length})` : "Photos"} />
+            </Tabs>
+
+            {tab === "timelapse" && (
+                <>
+                    {timelapse.progress && <ProgressBar progress={timelapse.progress} />}
+                    {timelapse.error && (
+                        <Typography sx={{ color: "red" }}>
+                            Failed to load timelapse. {timelapse.error}{" "}
+                            <Button size="small" onClick={timelapse.retry}>Retry</Button>
+                        </Typography>
+                    )}
+                    {timelapse.missing || videoError ? (
+                        <Typography sx={{ fontStyle: "italic", color: "gray" }}>No timelapse available for this job.</Typography>
+                    ) : (
+                        timelapse.video && (
+                            <video
+                                key={timelapse.video.url}
+                                src={timelapse.video.url}
+                                controls
+                                onError={() => setVideoError(true)}
+                                style={{ width: "100%", maxHeight: "480px", borderRadius: "8px", background: "#000" }}
+                            />
+                        )
+                    )}
+                    <Button
+                        variant="contained"
+                        sx={{ marginTop: 1 }}
+                        disabled={!timelapse.video}
+                        onClick={() => timelapse.video && saveBlob(timelapse.video.blob, `timelapse_${jobId}.mp4`)}
+                    >
+                        Download Timelapse
+                    </Button>
+                </>
+            )}
+
+            {tab === "photos" && (
+                <>
+                    {photosProgress && <ProgressBar progress={photosProgress} />}
+                    {photosError && (
+                        <Typography sx={{ color: "red" }}>
+                            Failed to load photos. {photosError}{" "}
+                            <Button size="small" onClick={retry}>Retry</Button>
+                        </Typography>
+                    )}
+                    {photos && photos.length === 0 && (
+                        <Typography sx={{ fontStyle: "italic", color: "gray" }}>The archive contains no photos.</Typography>
+                    )}
+
+                    {selected.length > 0 && (
+                        <Stack direction="row" spacing={2} sx={{ marginBottom: 2 }}>
+                            {selected.map((photo) => (
+                                <Box key={photo.url} sx={{ flex: 1 }}>
+                                    <img src={photo.url} alt={photo.name} style={{ width: "100%", borderRadius: "8px" }} />
+                                    <Typography variant="caption">{photo.timestamp.toLocaleString()}</Typography>
+                                </Box>
+                            ))}
+                        </Stack>
+                    )}
+                    {selected.length === 2 && (
+                        <Typography variant="body2" sx={{ marginBottom: 1 }}>
+                            {formatDuration(Math.abs(selected[1].timestamp.getTime() - selected[0].timestamp.getTime()) / 1000)} apart
+                        </Typography>
+                    )}
+
+                    {photos && photos.length > 0 && (
+                        <>
+                            <Typography variant="caption" sx={{ color: "gray" }}>
+                                Click a photo to enlarge it, or two photos to compare them.
+                            </Typography>
+                            <ImageList cols={4} gap={8} sx={{ maxHeight: 400, marginTop: 1 }}>
+                                {photos.map((photo) => (
+                                    <ImageListItem
+                                        key={photo.url}
+                                        onClick={() => toggle(photo)}
+                                        sx={{
+                                            cursor: "pointer",
+                                            outline: selected.includes(photo) ? "3px solid #1976d2" : "none",
+                                        }}
+                                    >
+                                        <img src={photo.url} alt={photo.name} loading="lazy" />
+                                        <ImageListItemBar subtitle={photo.timestamp.toLocaleTimeString()} />
+                                    </ImageListItem>
+                                ))}
+                            </ImageList>
+                        </>
+                    )}
+
+                    <Button
+                        variant="contained"
+                        color="secondary"
+                        sx={{ marginTop: 1 }}
+                        disabled={!archive}
+                        onClick={() => archive && saveBlob(archive, `photos_${jobId}.zip`)}
+                    >
+                        Download Photos
+                    </Button>
+                </>
+            )}
+        </Box>
+    );
+};
+
+export default JobMediaViewer;
@@ -0,0 +1,169 @@
+import React, { useRef, useState } from "react";
+import { Box, Button, Divider, IconButton, LinearProgress, Paper, Stack, Tooltip, Typography } from "@mui/material";
+import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
+import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { Job } from "../types";
+import { PrinterApi } from "../api/client";
+import { describeError } from "../api/errors";
+import { formatTimestamp } from "../utils/format";
+import { useNotifications } from "../notifications/NotificationContext";
+import ConfirmDialog from "./ConfirmDialog";
+
+const GCODE_EXTENSIONS = [".gcode", ".gco", ".g"];
+
+interface JobQueuePanelProps {
+    queue: Job[];
+    api: PrinterApi;
+    printerBusy: boolean;
+    onQueueChanged: () => void;
+    canManage: boolean;
+}
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ queue, api, printerBusy, onQueueChanged, canManage }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [working, setWorking] = useState(false);
+    const [removing, setRemoving] = useState<Job | null>(null);
+    const { notify } = useNotifications();
+    const disabled = working || !canManage;
+
+    const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+        setWorking(true);
+        try {
+            await action();
+            onQueueChanged();
+        } catch (error) {
+            console.error(`${failureMessage}:`, error);
+            notify({ severity: "error", message: `${failureMessage}. ${describeError(error)}` });
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files || []);
+        event.target.value = ""; // Allow selecting the same file again
+
+        const invalid = files.filter((file) => !GCODE_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext)));
+        if (invalid.length > 0) {
+            notify({ severity: "error", message: `Not a G-code file: ${invalid.map((file) => file.name).join(", ")}` });
+            return;
+        }
+
+        runAction(async () => {
+            for (const file of files) {
+                await api.uploadGcode(file);
+            }
+        }, "Failed to upload G-code");
+    };
+
+    const move = (index: number, offset: number) => {
+        const order = queue.map((job) => job.id);
+        const [jobId] = order.splice(index, 1);
+        order.splice(index + offset, 0, jobId);
+        runAction(() => api.reorderQueue(order), "Failed to reorder queue");
+    };
+
+    return (
+        <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px" }}>
+            <Stack direction="row" alignItems="center" justifyContent="space-between">
+                <Typography variant="h5" sx={{ fontWeight: "bold" }}>
+                    Job Queue
+                </Typography>
+                <Stack direction="row" spacing={1}>
+                    <Button variant="outlined" disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+                        Upload G-code
+                    </Button>
+                    <Button
+                        variant="contained"
+                        color="success"
+                        disabled={disabled || printerBusy || queue.length === 0}
+                        onClick={() => runAction(api.startNextJob, "Failed to start next job")}
+                    >
+                        Start Next
+                    </Button>
+                </Stack>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={GCODE_EXTENSIONS.join(",")}
+                    multiple
+                    hidden
+                    onChange={handleUpload}
+                />
+            </Stack>
+            <Divider sx={{ marginTop: 1 }} />
+            {working && <LinearProgress sx={{ marginTop: 1 }} />}
+
+            <Box sx={{ maxHeight: 240, overflowY: "auto" }}>
+                {queue.length > 0 ? (
+                    queue.map((job, index) => (
+                        <Stack
+                            key={job.id}
+                            direction="row"
+                            alignItems="center"
+                            spacing={1}
+                            sx={{ paddingY: 1, borderBottom: "1px solid #eee" }}
+                        >
+                            <Typography sx={{ width: 24, color: "gray" }}>{index + 1}.</Typography>
+                            <Box sx={{ flexGrow: 1 }}>
+                                <Typography>{job.file_name}</Typography>
+                                <Typography variant="caption" sx={{ color: "gray" }}>
+                                    Queued {formatTimestamp(job.start_time)}
+                                </Typography>
+                            </Box>
+                            <Tooltip title="Move up">
+                                <span>
+                                    <IconButton size="small" disabled={disabled || index === 0} onClick={() => move(index, -1)}>
+                                        <ArrowUpwardIcon fontSize="small" />
+                                    </IconButton>
+                                </span>
+                            </Tooltip>
+                            <Tooltip title="Move down">
+                                <span>
+                                    <IconButton
+                                        size="small"
+                                        disabled={disabled || index === queue.length - 1}
+                                        onClick={() => move(index, 1)}
+                                    >
+                                        <ArrowDownwardIcon fontSize="small" />
+                                    </IconButton>
+                                </span>
+                            </Tooltip>
+                            <Tooltip title="Remove from queue">
+                                <span>
+                                    <IconButton
+                                        size="small"
+                                        disabled={disabled}
+                                        onClick={() => setRemoving(job)}
+                                    >
+                                        <DeleteIcon fontSize="small" />
+                                    </IconButton>
+                                </span>
+                            </Tooltip>
+                        </Stack>
+                    ))
+                ) : (
+                    <Typography sx={{ fontStyle: "italic", color: "gray", marginTop: 2 }}>
+                        No jobs queued.
+                    </Typography>
+                )}
+            </Box>
+
+            <ConfirmDialog
+                open={removing !== null}
+                title="Remove from queue?"
+                message={`${removing?.file_name} will be removed from the queue.`}
+                confirmLabel="Remove"
+                onCancel={() => setRemoving(null)}
+                onConfirm={() => {
+                    const jobId = removing?.id;
+                    setRemoving(null);
+                    if (jobId !== undefined) runAction(() => api.removeFromQueue(jobId), "Failed to remove job");
+                }}
+            />
+        </Paper>
+    );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,107 @@
+import React, { useState } from "react";
+import { Button, LinearProgress, Stack, Typography } from "@mui/material";
+import { Job, JobEvent, JobRating, Printer } from "../types";
+import { PrinterApi } from "../api/client";
+import { describeError } from "../api/errors";
+import { readZip } from "../media/zip";
+import { Photo, photosFromZip } from "../media/photos";
+import { buildJobReport } from "../export/report";
+import { EXPORT_TYPES, ExportFormat, exportFileName, temperatureCsv, temperatureJson } from "../export/tabular";
+import { printHtml, saveText } from "../utils/download";
+import { useSettings } from "../config/SettingsContext";
+import { useNotifications } from "../notifications/NotificationContext";
+import ExportMenu from "./ExportMenu";
+
+interface JobReportPanelProps {
+    printer: Printer;
+    job: Job;
+    rating: JobRating | null;
+    events: JobEvent[];
+    api: PrinterApi;
+}
+
+const JobReportPanel: React.FC<JobReportPanelProps> = ({ printer, job, rating, events, api }) => {
+    const [working, setWorking] = useState(false);
+    const { settings } = useSettings();
+    const { notify } = useNotifications();
+
+    // Snapshots are a nice-to-have; a report without them is better than none.
+    const loadPhotos = async (): Promise<Photo[]> => {
+        try {
+            const archive = await api.getPictureHistory(job.id);
+            return photosFromZip(readZip(await archive.arrayBuffer()));
+        } catch (error) {
+            console.error("Error loading photos for report:", error);
+            return [];
+        }
+    };
+
+    const run = async (action: () => Promise<void>, failureMessage: string) => {
+        setWorking(true);
+        try {
+            await action();
+        } catch (error) {
+            console.error(`${failureMessage}:`, error);
+            notify({ severity: "error", message: `${failureMessage}. ${describeError(error)}` });
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const exportTemperatures = (format: ExportFormat) =>
+        run(async () => {
+            const samples = await api.getTemperatureHistory(job.id);
+            saveText(
+                format === "csv" ? temperatureCsv(samples) : temperatureJson(samples),
+                EXPORT_TYPES[format],
+                exportFileName([printer.id, "job", job.id, "temperatures"], format)
+            );
+        }, "Failed to export temperatures");
+
+    const createReport = async () => {
+        const [temperatures, photos] = await Promise.all([api.getTemperatureHistory(job.id), loadPhotos()]);
+        return buildJobReport({
+            printer,
+            job,
+            rating,
+            events,
+            temperatures,
+            photos,
+            unit: settings.temperatureUnit,
+            generatedAt: new Date(),
+        });
+    };
+
+    const printReport = () =>
+        run(async () => {
+            if (!printHtml(await createReport())) {
+                notify({ severity: "warning", message: "The report window was blocked. Allow pop-ups or download the HTML instead." });
+            }
+        }, "Failed to create report");
+
+    const downloadReport = () =>
+        run(async () => {
+            saveText(await createReport(), "text/html", exportFileName([printer.id, "job", job.id, "report"], "html"));
+        }, "Failed to create report");
+
+    return (
+        <>
+            <Typography variant="body2" sx={{ color: "gray", marginBottom: 1 }}>
+                The report combines the details, temperature chart, rating, events and key snapshots. Print it or save it as PDF
+                from the print dialog.
+            </Typography>
+            <Stack direction="row" spacing={1} alignItems="center" useFlexGap flexWrap="wrap">
+                <Button variant="contained" disabled={working} onClick={printReport}>
+                    Print / Save as PDF
+                </Button>
+                <Button variant="outlined" disabled={working} onClick={downloadReport}>
+                    Download HTML
+                </Button>
+                <ExportMenu label="Export Temperatures" disabled={working} onExport={exportTemperatures} />
+            </Stack>
+            {working && <LinearProgress sx={{ marginTop: 1 }} />}
+        </>
+    );
+};
+
+export default JobReportPanel;
@@ -0,0 +1,43 @@
+import React, { useMemo } from "react";
+import { Step, StepContent, StepLabel, Stepper, Typography } from "@mui/material";
+import { Job } from "../types";
+import { JOB_STATUS_COLORS } from "../lifecycle/jobState";
+import { jobTimeline, loadTimeline } from "../lifecycle/timeline";
+
+interface JobStateTimelineProps {
+    job: Job;
+    printerId: string;
+}
+
+const JobStateTimeline: React.FC<JobStateTimelineProps> = ({ job, printerId }) => {
+    const entries = useMemo(() => jobTimeline(job, loadTimeline(printerId, job.id)), [job, printerId]);
+
+    if (entries.length === 0) {
+        return <Typography sx={{ fontStyle: "italic", color: "gray" }}>No state changes recorded.</Typography>;
+    }
+
+    return (
+        <Stepper orientation="vertical" activeStep={entries.length - 1}>
+            {entries.map((entry) => (
+                <Step key={`${entry.status}-${entry.at}`} completed expanded>
+                    <StepLabel error={!entry.valid}>
+                        <span style={{ color: JOB_STATUS_COLORS[entry.status], fontWeight: "bold" }}>{entry.status}</span>
+                    </StepLabel>
+                    <StepContent>
+                        <Typography variant="body2">
+                            {new Date(entry.at).toLocaleString()}
+                            {entry.source === "reported" && " (from job times)"}
+                        </Typography>
+                        {!entry.valid && (
+                            <Typography variant="body2" sx={{ color: "red" }}>
+                                Unexpected transition.
+                            </Typography>
+                        )}
+                    </StepContent>
+                </Step>
+            ))}
+        </Stepper>
+    );
+};
+
+export default JobStateTimeline;
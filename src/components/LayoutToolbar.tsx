@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import {
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    Menu,
+    MenuItem,
+    Select,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { LayoutPreset, WidgetId } from "../dashboard/layout";
+import { WIDGETS } from "./widgets/registry";
+
+interface LayoutToolbarProps {
+    presets: LayoutPreset[];
+    activePreset: LayoutPreset | null;
+    hiddenWidgets: WidgetId[];
+    editing: boolean;
+    onEditingChange: (editing: boolean) => void;
+    onApplyPreset: (id: string) => void;
+    onAddWidget: (id: WidgetId) => void;
+    onSaveView: (name: string) => void;
+    onDeleteView: (id: string) => void;
+    onKiosk: () => void;
+}
+
+const CUSTOM = "custom";
+
+const LayoutToolbar: React.FC<LayoutToolbarProps> = ({
+    presets,
+    activePreset,
+    hiddenWidgets,
+    editing,
+    onEditingChange,
+    onApplyPreset,
+    onAddWidget,
+    onSaveView,
+    onDeleteView,
+    onKiosk,
+}) => {
+    const [addAnchor, setAddAnchor] = useState<HTMLElement | null>(null);
+    const [naming, setNaming] = useState(false);
+    const [name, setName] = useState("");
+
+    return (
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ marginBottom: 2 }}>
+            <Typography>View:</Typography>
+            <Select
+                size="small"
+                value={activePreset?.id ?? CUSTOM}
+                onChange={(e) => onApplyPreset(e.target.value)}
+                inputProps={{ "aria-label": "Dashboard view" }}
+                sx={{ minWidth: 160 }}
+            >
+                {presets.map((preset) => (
+                    <MenuItem key={preset.id} value={preset.id}>
+                        {preset.name}
+                    </MenuItem>
+                ))}
+                <MenuItem value={CUSTOM} disabled>
+                    Custom
+                </MenuItem>
+            </Select>
+            {editing ? (
+                <>
+                    <Button onClick={(e) => setAddAnchor(e.currentTarget)} disabled={hiddenWidgets.length === 0}>
+                        Add Widget
+                    </Button>
+                    <Menu anchorEl={addAnchor} open={addAnchor !== null} onClose={() => setAddAnchor(null)}>
+                        {hiddenWidgets.map((id) => (
+                            <MenuItem
+                                key={id}
+                                onClick={() => {
+                                    onAddWidget(id);
+                                    setAddAnchor(null);
+                                }}
+                            >
+                                {WIDGETS[id].title}
+                            </MenuItem>
+                        ))}
+                    </Menu>
+                    <Button
+                        onClick={() => {
+                            setName(activePreset && !activePreset.builtIn ? activePreset.name : "");
+                            setNaming(true);
+                        }}
+                    >
+                        Save View
+                    </Button>
+                    {activePreset && !activePreset.builtIn && (
+                        <Button color="error" onClick={() => onDeleteView(activePreset.id)}>
+                            Delete View
+                        </Button>
+                    )}
+                    <Button variant="contained" onClick={() => onEditingChange(false)}>
+                        Done
+                    </Button>
+                </>
+            ) : (
+                <Button onClick={() => onEditingChange(true)}>Edit Layout</Button>
+            )}
+            <Button onClick={onKiosk}>Kiosk Mode</Button>
+
+            <Dialog open={naming} onClose={() => setNaming(false)}>
+                <DialogTitle>Save view</DialogTitle>
+                <DialogContent>
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        label="Name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        helperText="Saving under an existing name replaces that view."
+                        sx={{ marginTop: 1 }}
+                    />
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setNaming(false)}>Cancel</Button>
+                    <Button
+                        variant="contained"
+                        disabled={!name.trim()}
+                        onClick={() => {
+                            onSaveView(name.trim());
+                            setNaming(false);
+                        }}
+                    >
+                        Save
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Stack>
+    );
+};
+
+export default LayoutToolbar;
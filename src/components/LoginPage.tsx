@@ -0,0 +1,57 @@
+import React, { useState } from "react";
+import { Link as RouterLink, Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Alert, Box, Button, Paper, Stack, TextField, Typography } from "@mui/material";
+import { useAuth } from "../auth/AuthContext";
+import { ApiError, describeError } from "../api/errors";
+
+const LoginPage: React.FC = () => {
+    const { user, login } = useAuth();
+    const navigate = useNavigate();
+    const location = useLocation();
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+
+    const from = (location.state as { from?: string } | null)?.from || "/";
+
+    if (user) return <Navigate to={from} replace />;
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setSubmitting(true);
+        setError(null);
+        try {
+            await login(username, password);
+            navigate(from, { replace: true });
+        } catch (err) {
+            console.error("Error logging in:", err);
+            setError(err instanceof ApiError && err.status === 401 ? "Invalid username or password." : describeError(err));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Box sx={{ padding: 4, backgroundColor: "#f9f9f9", minHeight: "100vh", display: "flex", justifyContent: "center" }}>
+            <Paper component="form" onSubmit={handleSubmit} sx={{ padding: 4, width: 360, height: "fit-content", borderRadius: "12px" }}>
+                <Typography variant="h5" sx={{ fontWeight: "bold", marginBottom: 2 }}>
+                    Sign in
+                </Typography>
+                <Stack spacing={2}>
+                    {error && <Alert severity="error">{error}</Alert>}
+                    <TextField label="Username" value={username} onChange={(e) => setUsername(e.target.value)} autoFocus />
+                    <TextField label="Password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                    <Button type="submit" variant="contained" disabled={submitting || !username || !password}>
+                        Sign in
+                    </Button>
+                    <Button size="small" component={RouterLink} to="/settings">
+                        Connection settings
+                    </Button>
+                </Stack>
+            </Paper>
+        </Box>
+    );
+};
+
+export default LoginPage;
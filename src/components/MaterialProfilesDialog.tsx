@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from "react";
+import {
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    IconButton,
+    Stack,
+    TextField,
+    Tooltip,
+} from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { DEFAULT_PROFILES, MaterialProfile, validateSetpoints } from "../preheat/profiles";
+
+interface MaterialProfilesDialogProps {
+    open: boolean;
+    profiles: MaterialProfile[];
+    onClose: () => void;
+    onSave: (profiles: MaterialProfile[]) => void;
+}
+
+const MaterialProfilesDialog: React.FC<MaterialProfilesDialogProps> = ({ open, profiles, onClose, onSave }) => {
+    const [draft, setDraft] = useState<MaterialProfile[]>(profiles);
+
+    useEffect(() => {
+        if (open) setDraft(profiles);
+    }, [open, profiles]);
+
+    const updateProfile = (id: string, changes: Partial<MaterialProfile>) =>
+        setDraft((prev) => prev.map((profile) => (profile.id === id ? { ...profile, ...changes } : profile)));
+
+    const addProfile = () =>
+        setDraft((prev) => [
+            ...prev,
+            { id: `custom-${Date.now()}`, name: "Custom", nozzle: 210, bed: 60, builtIn: false },
+        ]);
+
+    const isValid = draft.every((profile) => profile.name.trim() && !validateSetpoints(profile));
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+            <DialogTitle>Material Profiles</DialogTitle>
+            <DialogContent>
+                {draft.map((profile) => {
+                    const error = validateSetpoints(profile);
+                    return (
+                        <Stack key={profile.id} direction="row" spacing={2} alignItems="center" sx={{ marginY: 1.5 }}>
+                            <TextField
+                                size="small"
+                                label="Material"
+                                value={profile.name}
+                                error={!profile.name.trim()}
+                                onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                                sx={{ flexGrow: 1 }}
+                            />
+                            <TextField
+                                size="small"
+                                type="number"
+                                label="Nozzle (°C)"
+                                value={Number.isFinite(profile.nozzle) ? profile.nozzle : ""}
+                                error={!!error && error.startsWith("Nozzle")}
+                                onChange={(e) => updateProfile(profile.id, { nozzle: parseFloat(e.target.value) })}
+                                sx={{ width: 120 }}
+                            />
+                            <TextField
+                                size="small"
+                                type="number"
+                                label="Bed (°C)"
+                                value={Number.isFinite(profile.bed) ? profile.bed : ""}
+                                error={!!error && error.startsWith("Bed")}
+                                onChange={(e) => updateProfile(profile.id, { bed: parseFloat(e.target.value) })}
+                                sx={{ width: 120 }}
+                            />
+                            <Tooltip title={profile.builtIn ? "Built-in profiles can't be deleted" : "Delete profile"}>
+                                <span>
+                                    <IconButton
+                                        size="small"
+                                        disabled={profile.builtIn}
+                                        onClick={() => setDraft((prev) => prev.filter((p) => p.id !== profile.id))}
+                                    >
+                                        <DeleteIcon fontSize="small" />
+                                    </IconButton>
+                                </span>
+                            </Tooltip>
+                        </Stack>
+                    );
+                })}
+                <Button onClick={addProfile}>Add Custom Profile</Button>
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={() => setDraft(DEFAULT_PROFILES)}>Restore Defaults</Button>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button
+                    variant="contained"
+                    disabled={!isValid}
+                    onClick={() => {
+                        onSave(draft);
+                        onClose();
+                    }}
+                >
+                    Save
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default MaterialProfilesDialog;
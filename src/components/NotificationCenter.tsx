@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import {
+    Alert,
+    AlertTitle,
+    Badge,
+    Box,
+    Button,
+    Drawer,
+    FormControlLabel,
+    IconButton,
+    Stack,
+    Switch,
+    Tooltip,
+    Typography,
+} from "@mui/material";
+import NotificationsIcon from "@mui/icons-material/Notifications";
+import { useNotifications } from "../notifications/NotificationContext";
+
+const NotificationCenter: React.FC = () => {
+    const { notifications, markAllRead, clear, desktopEnabled, setDesktopEnabled } = useNotifications();
+    const [open, setOpen] = useState(false);
+    const unread = notifications.filter((notification) => !notification.read).length;
+
+    const close = () => {
+        setOpen(false);
+        markAllRead();
+    };
+
+    return (
+        <>
+            <Tooltip title="Notifications">
+                <IconButton onClick={() => setOpen(true)}>
+                    <Badge badgeContent={unread} color="error">
+                        <NotificationsIcon />
+                    </Badge>
+                </IconButton>
+            </Tooltip>
+            <Drawer anchor="right" open={open} onClose={close}>
+                <Box sx={{ width: 380, padding: 2 }}>
+                    <Stack direction="row" alignItems="center" justifyContent="space-between">
+                        <Typography variant="h6" sx={{ fontWeight: "bold" }}>
+                            Notifications
+                        </Typography>
+                        <Button size="small" onClick={clear} disabled={notifications.length === 0}>
+                            Clear
+                        </Button>
+                    </Stack>
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                size="small"
+                                checked={desktopEnabled}
+                                onChange={(e) => setDesktopEnabled(e.target.checked)}
+                            />
+                        }
+                        label="Desktop notifications for printer events and thermal alerts"
+                    />
+                    <Stack spacing={1} sx={{ marginTop: 1 }}>
+                        {notifications.length === 0 && (
+                            <Typography sx={{ fontStyle: "italic", color: "gray" }}>No notifications.</Typography>
+                        )}
+                        {notifications.map((notification) => (
+                            <Alert
+                                key={notification.id}
+                                severity={notification.severity}
+                                variant={notification.read ? "outlined" : "standard"}
+                            >
+                                {notification.title && <AlertTitle>{notification.title}</AlertTitle>}
+                                {notification.message}
+                                <Typography variant="caption" component="div" sx={{ color: "gray" }}>
+                                    {new Date(notification.timestamp).toLocaleString()}
+                                </Typography>
+                            </Alert>
+                        ))}
+                    </Stack>
+                </Box>
+            </Drawer>
+        </>
+    );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,34 @@
+import React from "react";
+import { Alert, AlertTitle, Snackbar } from "@mui/material";
+import { useNotifications } from "../notifications/NotificationContext";
+
+// Errors stay up longer so there is time to read what went wrong.
+const DURATION = { success: 4000, info: 5000, warning: 8000, error: 10000 };
+
+const NotificationToasts: React.FC = () => {
+    const { toasts, dismissToast } = useNotifications();
+    const toast = toasts[0];
+    if (!toast) return null;
+
+    const close = (_?: unknown, reason?: string) => {
+        if (reason !== "clickaway") dismissToast(toast.id);
+    };
+
+    return (
+        <Snackbar
+            key={toast.id}
+            open
+            autoHideDuration={DURATION[toast.severity]}
+            onClose={close}
+            anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+        >
+            <Alert severity={toast.severity} variant="filled" onClose={close} sx={{ width: "100%" }}>
+                {toast.title && <AlertTitle>{toast.title}</AlertTitle>}
+                {toast.message}
+                {toasts.length > 1 && ` (+${toasts.length - 1} more)`}
+            </Alert>
+        </Snackbar>
+    );
+};
+
+export default NotificationToasts;
@@ -0,0 +1,83 @@
+import React from "react";
+import {
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    ImageList,
+    ImageListItem,
+    ImageListItemBar,
+    LinearProgress,
+    Typography,
+} from "@mui/material";
+import { PrinterApi } from "../api/client";
+import { useJobPhotos } from "../hooks/useJobPhotos";
+
+interface PhotoPickerDialogProps {
+    open: boolean;
+    jobId: number;
+    api: PrinterApi;
+    selected: string | null;
+    onClose: () => void;
+    onSelect: (photoName: string | null) => void;
+}
+
+const PhotoPickerDialog: React.FC<PhotoPickerDialogProps> = ({ open, jobId, api, selected, onClose, onSelect }) => {
+    const { photos, progress, error, retry } = useJobPhotos(api, jobId, open);
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>Attach a Photo from Job {jobId}</DialogTitle>
+            <DialogContent>
+                {progress && (
+                    <LinearProgress
+                        variant={progress.total ? "determinate" : "indeterminate"}
+                        value={progress.total ? (progress.loaded / progress.total) * 100 : undefined}
+                    />
+                )}
+                {error && (
+                    <Typography sx={{ color: "red" }}>
+                        Failed to load photos. {error} <Button size="small" onClick={retry}>Retry</Button>
+                    </Typography>
+                )}
+                {photos && photos.length === 0 && (
+                    <Typography sx={{ fontStyle: "italic", color: "gray" }}>This job has no photos.</Typography>
+                )}
+                {photos && photos.length > 0 && (
+                    <ImageList cols={4} gap={8}>
+                        {photos.map((photo) => (
+                            <ImageListItem
+                                key={photo.name}
+                                onClick={() => {
+                                    onSelect(photo.name);
+                                    onClose();
+                                }}
+                                sx={{ cursor: "pointer", outline: photo.name === selected ? "3px solid #1976d2" : "none" }}
+                            >
+                                <img src={photo.url} alt={photo.name} loading="lazy" />
+                                <ImageListItemBar subtitle={photo.timestamp.toLocaleString()} />
+                            </ImageListItem>
+                        ))}
+                    </ImageList>
+                )}
+            </DialogContent>
+            <DialogActions>
+                {selected && (
+                    <Button
+                        color="error"
+                        onClick={() => {
+                            onSelect(null);
+                            onClose();
+                        }}
+                    >
+                        Remove Photo
+                    </Button>
+                )}
+                <Button onClick={onClose}>Cancel</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default PhotoPickerDialog;
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from "react";
+import { Button, MenuItem, Select, Stack, TextField, Typography } from "@mui/material";
+import { MAX_BED_TEMP, MAX_NOZZLE_TEMP, Setpoints, validateSetpoints } from "../preheat/profiles";
+import { useMaterialProfiles } from "../hooks/useMaterialProfiles";
+import MaterialProfilesDialog from "./MaterialProfilesDialog";
+
+interface PreheatControlProps {
+    disabled: boolean;
+    onPreheat: (setpoints: Setpoints) => void;
+}
+
+const MANUAL = "manual";
+
+const PreheatControl: React.FC<PreheatControlProps> = ({ disabled, onPreheat }) => {
+    const { profiles, setProfiles, selected, select } = useMaterialProfiles();
+    const [nozzle, setNozzle] = useState("");
+    const [bed, setBed] = useState("");
+    const [manual, setManual] = useState(false);
+    const [editingProfiles, setEditingProfiles] = useState(false);
+
+    // Picking a profile (or editing the selected one) fills in its setpoints.
+    useEffect(() => {
+        if (!selected) return;
+        setNozzle(String(selected.nozzle));
+        setBed(String(selected.bed));
+        setManual(false);
+    }, [selected]);
+
+    const setpoints = { nozzle: parseFloat(nozzle), bed: parseFloat(bed) };
+    const error = validateSetpoints(setpoints);
+
+    return (
+        <>
+            <Stack direction="row" spacing={1} alignItems="flex-start">
+                <Select
+                    size="small"
+                    value={manual || !selected ? MANUAL : selected.id}
+                    onChange={(e) => {
+                        if (e.target.value !== MANUAL) select(e.target.value);
+                        setManual(e.target.value === MANUAL);
+                    }}
+                    sx={{ minWidth: 120 }}
+                >
+                    {profiles.map((profile) => (
+                        <MenuItem key={profile.id} value={profile.id}>
+                            {profile.name}
+                        </MenuItem>
+                    ))}
+                    <MenuItem value={MANUAL}>Manual</MenuItem>
+                </Select>
+                <TextField
+                    size="small"
+                    type="number"
+                    label="Nozzle (°C)"
+                    value={nozzle}
+                    inputProps={{ min: 0, max: MAX_NOZZLE_TEMP }}
+                    onChange={(e) => {
+                        setNozzle(e.target.value);
+                        setManual(true);
+                    }}
+                    sx={{ width: 110 }}
+                />
+                <TextField
+                    size="small"
+                    type="number"
+                    label="Bed (°C)"
+                    value={bed}
+                    inputProps={{ min: 0, max: MAX_BED_TEMP }}
+                    onChange={(e) => {
+                        setBed(e.target.value);
+                        setManual(true);
+                    }}
+                    sx={{ width: 110 }}
+                />
+                <Button variant="contained" color="primary" disabled={disabled || !!error} onClick={() => onPreheat(setpoints)}>
+                    Preheat
+                </Button>
+                <Button size="small" disabled={disabled} onClick={() => setEditingProfiles(true)}>
+                    Profiles
+                </Button>
+            </Stack>
+            {error && nozzle !== "" && bed !== "" && (
+                <Typography variant="caption" sx={{ color: "#d32f2f" }}>
+                    {error}
+                </Typography>
+            )}
+
+            <MaterialProfilesDialog
+                open={editingProfiles}
+                profiles={profiles}
+                onClose={() => setEditingProfiles(false)}
+                onSave={setProfiles}
+            />
+        </>
+    );
+};
+
+export default PreheatControl;
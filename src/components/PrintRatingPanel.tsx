@@ -0,0 +1,220 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Chip,
+    FormControl,
+    FormHelperText,
+    MenuItem,
+    Paper,
+    Select,
+    Slider,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { Job, JobRating } from "../types";
+import { PrinterApi } from "../api/client";
+import { describeError } from "../api/errors";
+import {
+    DEFECT_TAGS,
+    EMPTY_DRAFT,
+    isRatable,
+    MAX_FEEDBACK_LENGTH,
+    MAX_SCORE,
+    MIN_SCORE,
+    RatingDraft,
+    toRating,
+    validateRating,
+} from "../jobs/rating";
+import { useConnectivity } from "../offline/ConnectivityContext";
+import { isOfflineError } from "../offline/outbox";
+import { useNotifications } from "../notifications/NotificationContext";
+import PhotoPickerDialog from "./PhotoPickerDialog";
+
+interface PrintRatingPanelProps {
+    // Newest first.
+    jobs: Job[];
+    ratings: Map<number, JobRating>;
+    api: PrinterApi;
+    printerId: string;
+    canRate: boolean;
+    onRated: () => void;
+}
+
+const ScoreSlider: React.FC<{
+    label: string;
+    value: number | null;
+    error?: string;
+    disabled: boolean;
+    onChange: (value: number) => void;
+}> = ({ label, value, error, disabled, onChange }) => (
+    <Box>
+        <Typography>
+            {label}: <strong>{value ?? "not rated"}</strong>
+        </Typography>
+        <Slider
+            value={value ?? MIN_SCORE}
+            min={MIN_SCORE}
+            max={MAX_SCORE}
+            step={1}
+            marks
+            valueLabelDisplay="auto"
+            disabled={disabled}
+            // Untouched sliders are drawn muted until the user picks a value.
+            color={value === null ? "secondary" : "primary"}
+            onChange={(_, newValue) => onChange(newValue as number)}
+        />
+        {error && <FormHelperText error>{error}</FormHelperText>}
+    </Box>
+);
+
+const PrintRatingPanel: React.FC<PrintRatingPanelProps> = ({ jobs, ratings, api, printerId, canRate, onRated }) => {
+    const { enqueue } = useConnectivity();
+    const { notify } = useNotifications();
+    const [draft, setDraft] = useState<RatingDraft>(EMPTY_DRAFT);
+    const [showErrors, setShowErrors] = useState(false);
+    const [submitting, setSubmitting] = useState(false);
+    const [pickingPhoto, setPickingPhoto] = useState(false);
+
+    const ratableJobs = jobs.filter(isRatable);
+    const existing = draft.jobId !== null ? ratings.get(draft.jobId) : undefined;
+    const errors = validateRating(draft);
+    const disabled = !canRate || submitting;
+
+    const selectJob = (jobId: number) => {
+        const rating = ratings.get(jobId);
+        setDraft(rating ? { ...rating } : { ...EMPTY_DRAFT, jobId });
+        setShowErrors(false);
+    };
+
+    const toggleDefect = (tag: string) =>
+        setDraft((prev) => ({
+            ...prev,
+            defects: prev.defects.includes(tag) ? prev.defects.filter((d) => d !== tag) : [...prev.defects, tag],
+        }));
+
+    const submit = async () => {
+        const rating = toRating(draft);
+        if (!rating) {
+            setShowErrors(true);
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            if (existing) await api.updateRating(rating);
+            else await api.rateJob(rating);
+            notify({ severity: "success", message: existing ? "Print rating updated." : "Print rating submitted successfully!" });
+            onRated();
+        } catch (error) {
+            if (isOfflineError(error)) {
+                // Ratings are safe to replay later, so keep them instead of failing.
+                enqueue(printerId, { kind: existing ? "updateRating" : "rateJob", rating });
+                notify({ severity: "info", message: "The printer can't be reached. The rating will be sent when it's back online." });
+                return;
+            }
+            console.error("Error submitting print rating:", error);
+            notify({ severity: "error", message: `Failed to submit rating. ${describeError(error)}` });
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px" }}>
+            <Typography variant="h5" sx={{ fontWeight: "bold" }}>
+                Print Rating
+            </Typography>
+            <Stack spacing={2} sx={{ marginTop: 2 }}>
+                <FormControl fullWidth error={showErrors && !!errors.jobId}>
+                    <Select
+                        value={draft.jobId ?? ""}
+                        onChange={(e) => selectJob(Number(e.target.value))}
+                        displayEmpty
+                        disabled={disabled}
+                        renderValue={(selected) => (selected ? selected.toString() : "Select Job ID")}
+                    >
+                        <MenuItem value="" disabled>-- Select a finished or failed job --</MenuItem>
+                        {ratableJobs.map((job) => (
+                            <MenuItem key={job.id} value={job.id}>
+                                {job.id} - {job.file_name} ({job.status}){ratings.has(job.id) && " ★ rated"}
+                            </MenuItem>
+                        ))}
+                    </Select>
+                    {showErrors && errors.jobId && <FormHelperText>{errors.jobId}</FormHelperText>}
+                    {existing && <FormHelperText>This job was already rated; submitting updates the rating.</FormHelperText>}
+                </FormControl>
+
+                <ScoreSlider
+                    label="Print Quality"
+                    value={draft.printQuality}
+                    error={showErrors ? errors.printQuality : undefined}
+                    disabled={disabled || draft.jobId === null}
+                    onChange={(value) => setDraft((prev) => ({ ...prev, printQuality: value }))}
+                />
+                <ScoreSlider
+                    label="Print Speed"
+                    value={draft.printSpeed}
+                    error={showErrors ? errors.printSpeed : undefined}
+                    disabled={disabled || draft.jobId === null}
+                    onChange={(value) => setDraft((prev) => ({ ...prev, printSpeed: value }))}
+                />
+
+                <Box>
+                    <Typography sx={{ marginBottom: 1 }}>Defects</Typography>
+                    <Stack direction="row" useFlexGap flexWrap="wrap" spacing={1}>
+                        {DEFECT_TAGS.map((tag) => (
+                            <Chip
+                                key={tag}
+                                label={tag}
+                                disabled={disabled || draft.jobId === null}
+                                color={draft.defects.includes(tag) ? "error" : "default"}
+                                variant={draft.defects.includes(tag) ? "filled" : "outlined"}
+                                onClick={() => toggleDefect(tag)}
+                            />
+                        ))}
+                    </Stack>
+                </Box>
+
+                <TextField
+                    label="Feedback"
+                    multiline
+                    rows={3}
+                    value={draft.feedback}
+                    disabled={disabled || draft.jobId === null}
+                    error={!!errors.feedback}
+                    helperText={errors.feedback ?? `${draft.feedback.length}/${MAX_FEEDBACK_LENGTH}`}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, feedback: e.target.value }))}
+                />
+
+                <Stack direction="row" spacing={2} alignItems="center">
+                    <Button variant="outlined" disabled={disabled || draft.jobId === null} onClick={() => setPickingPhoto(true)}>
+                        {draft.photo ? "Change Photo" : "Attach Photo"}
+                    </Button>
+                    <Typography variant="body2" sx={{ color: "gray" }}>
+                        {draft.photo ?? "No photo attached"}
+                    </Typography>
+                </Stack>
+
+                <Button variant="contained" color="primary" onClick={submit} disabled={disabled || draft.jobId === null}>
+                    {existing ? "Update Rating" : "Submit"}
+                </Button>
+            </Stack>
+
+            {draft.jobId !== null && (
+                <PhotoPickerDialog
+                    key={draft.jobId}
+                    open={pickingPhoto}
+                    jobId={draft.jobId}
+                    api={api}
+                    selected={draft.photo}
+                    onClose={() => setPickingPhoto(false)}
+                    onSelect={(photo) => setDraft((prev) => ({ ...prev, photo }))}
+                />
+            )}
+        </Paper>
+    );
+};
+
+export default PrintRatingPanel;
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from "react";
+import { Link as RouterLink } from "react-router-dom";
+import { Box, Typography, Card, CardContent, CardActions, Divider, Button, Stack } from "@mui/material";
+import { Printer, PrinterStatus } from "../types";
+import { usePrinterApi } from "../api/PrinterApiContext";
+import { effectiveState, PRINTER_STATE_INFO } from "../lifecycle/printerState";
+import { useSettings } from "../config/SettingsContext";
+import { formatTemperature } from "../config/settings";
+import { usePrinterEvents } from "../hooks/usePrinterEvents";
+import { loadSnapshot } from "../offline/snapshot";
+import { useConnectivity } from "../offline/ConnectivityContext";
+import StaleDataChip from "./StaleDataChip";
+
+interface PrinterCardProps {
+    printer: Printer;
+}
+
+const PrinterCard: React.FC<PrinterCardProps> = ({ printer }) => {
+    // Start from the data the printer's dashboard cached last, so an unreachable printer still shows something.
+    const [snapshot] = useState(() => loadSnapshot(printer.id));
+    const [status, setStatus] = useState<PrinterStatus | null>(snapshot.status);
+    const [statusAt, setStatusAt] = useState<number | null>(snapshot.statusAt);
+    const [unreachable, setUnreachable] = useState(false);
+    const { browserOnline } = useConnectivity();
+    const api = usePrinterApi(printer);
+    const { settings } = useSettings();
+    const { refreshInterval, temperatureUnit } = settings;
+    usePrinterEvents(printer, status, null);
+
+    useEffect(() => {
+        const fetchPrinterStatus = async () => {
+            try {
+                setStatus(await api.getPrinterStatus());
+                setStatusAt(Date.now());
+                setUnreachable(false);
+            } catch (error) {
+                console.error(`Error fetching status for ${printer.name}:`, error);
+                setUnreachable(true);
+            }
+        };
+
+        fetchPrinterStatus();
+        const interval = setInterval(fetchPrinterStatus, refreshInterval);
+
+        return () => clearInterval(interval);
+    }, [api, printer, refreshInterval]);
+
+    return (
+        <Card sx={{ padding: 2, boxShadow: 3, borderRadius: "12px" }}>
+            <CardContent>
+                <Box sx={{ display: "flex", alignItems: "center", marginBottom: 2 }}>
+                    <img
+                        src="/3d_printer.svg"
+                        alt={printer.name}
+                        style={{ width: "64px", height: "64px", marginRight: "16px", objectFit: "contain" }}
+                    />
+                    <Box>
+                        <Typography variant="h5" sx={{ fontWeight: "bold", color: "#1976d2" }}>
+                            {printer.name}
+                        </Typography>
+                        <Typography sx={{ fontSize: "0.875rem", color: "gray" }}>
+                            {printer.baseUrl}
+                        </Typography>
+                    </Box>
+                </Box>
+                <Divider sx={{ marginY: 2 }} />
+                {(unreachable || !browserOnline) && (
+                    <Stack direction="row" sx={{ marginBottom: 1 }}>
+                        <StaleDataChip since={statusAt} />
+                    </Stack>
+                )}
+                {status ? (
+                    <>
+                        <Typography>
+                            <strong>Printer State:</strong>{" "}
+                            <span style={{ color: PRINTER_STATE_INFO[effectiveState(status)].color, fontWeight: "bold" }}>
+                                {effectiveState(status)}
+                            </span>
+                        </Typography>
+                        <Typography>
+                            <strong>Nozzle Temp:</strong> {formatTemperature(status.nozzle_temperature, temperatureUnit)}
+                        </Typography>
+                        <Typography>
+                            <strong>Bed Temp:</strong> {formatTemperature(status.bed_temperature, temperatureUnit)}
+                        </Typography>
+                    </>
+                ) : (
+                    <Typography sx={{ fontStyle: "italic", color: "gray" }}>
+                        {unreachable ? "Printer unreachable." : "Loading printer status..."}
+                    </Typography>
+                )}
+            </CardContent>
+            <CardActions>
+                <Button variant="contained" component={RouterLink} to={`/printers/${printer.id}`}>
+                    Open Dashboard
+                </Button>
+            </CardActions>
+        </Card>
+    );
+};
+
+export default PrinterCard;
@@ -0,0 +1,29 @@
+import React from "react";
+import { Link as RouterLink, useParams } from "react-router-dom";
+import { Box, Typography, Button } from "@mui/material";
+import Dashboard from "./Dashboard";
+import { useSettings } from "../config/SettingsContext";
+
+const PrinterPage: React.FC = () => {
+    const { printerId } = useParams();
+    const { findPrinter } = useSettings();
+    const printer = findPrinter(printerId);
+
+    if (!printer) {
+        return (
+            <Box sx={{ padding: 4 }}>
+                <Typography variant="h5" gutterBottom>
+                    Unknown printer "{printerId}".
+                </Typography>
+                <Button variant="contained" component={RouterLink} to="/">
+                    Back to Fleet
+                </Button>
+            </Box>
+        );
+    }
+
+    // Keyed so that switching printers starts with fresh state and polling.
+    return <Dashboard key={printer.id} printer={printer} />;
+};
+
+export default PrinterPage;
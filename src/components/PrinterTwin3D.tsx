@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Box, Typography } from "@mui/material";
+import * as THREE from "three";
+import { BuildVolume, PrinterStatus } from "../types";
+import { readMoveTarget } from "../gcode/parser";
+import { effectiveState, PRINTER_STATE_INFO } from "../lifecycle/printerState";
+
+interface PrinterTwin3DProps {
+    status: PrinterStatus | null;
+    command: string | null;
+    buildVolume: BuildVolume;
+    height?: number;
+}
+
+// Bed colour runs from cold steel to glowing red between these temperatures.
+const AMBIENT_TEMP = 25;
+const HOT_BED_TEMP = 110;
+const COLD_COLOR = new THREE.Color("#607d8b");
+const HOT_COLOR = new THREE.Color("#ff3d00");
+
+interface Scene {
+    renderer: THREE.WebGLRenderer;
+    camera: THREE.PerspectiveCamera;
+    bedMaterial: THREE.MeshStandardMaterial;
+    headMaterial: THREE.MeshStandardMaterial;
+    lightMaterial: THREE.MeshBasicMaterial;
+}
+
+// Printer coordinates (mm, Z up) to scene coordinates (Y up), with the bed origin at the front left.
+const toScene = (volume: BuildVolume, x: number, y: number, z: number) =>
+    new THREE.Vector3(x - volume.x / 2, z, volume.y / 2 - y);
+
+const stateColor = (status: PrinterStatus | null) =>
+    !status ? "gray" : PRINTER_STATE_INFO[effectiveState(status)].color;
+
+const PrinterTwin3D: React.FC<PrinterTwin3DProps> = ({ status, command, buildVolume, height = 300 }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const sceneRef = useRef<Scene | null>(null);
+    const [headPosition, setHeadPosition] = useState({ X: 0, Y: 0, Z: 0 });
+    const positionRef = useRef(headPosition);
+    positionRef.current = headPosition;
+    const [unsupported, setUnsupported] = useState(false);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        let renderer: THREE.WebGLRenderer;
+        try {
+            renderer = new THREE.WebGLRenderer({ antialias: true });
+        } catch (error) {
+            console.error("WebGL is not available:", error);
+            setUnsupported(true);
+            return;
+        }
+
+        const width = container.clientWidth || 400;
+        renderer.setPixelRatio(window.devicePixelRatio);
+        renderer.setSize(width, height);
+        renderer.setClearColor("#f4f6f8");
+        container.appendChild(renderer.domElement);
+
+        const scene = new THREE.Scene();
+        scene.add(new THREE.AmbientLight("#ffffff", 1.5));
+        const sun = new THREE.DirectionalLight("#ffffff", 2);
+        sun.position.set(200, 400, 300);
+        scene.add(sun);
+
+        const camera = new THREE.PerspectiveCamera(45, width / height, 1, 5000);
+        const target = new THREE.Vector3(0, buildVolume.z / 3, 0);
+        const orbit = { azimuth: Math.PI / 5, elevation: Math.PI / 7, distance: Math.max(buildVolume.x, buildVolume.y, buildVolume.z) * 2.2 };
+        const placeCamera = () => {
+            camera.position.set(
+                target.x + orbit.distance * Math.cos(orbit.elevation) * Math.sin(orbit.azimuth),
+                target.y + orbit.distance * Math.sin(orbit.elevation),
+                target.z + orbit.distance * Math.cos(orbit.elevation) * Math.cos(orbit.azimuth)
+            );
+            camera.lookAt(target);
+        };
+        placeCamera();
+
+        // Frame outlining the build volume
+        const frame = new THREE.LineSegments(
+            new THREE.EdgesGeometry(new THREE.BoxGeometry(buildVolume.x, buildVolume.z, buildVolume.y)),
+            new THREE.LineBasicMaterial({ color: "#90a4ae" })
+        );
+        frame.position.set(0, buildVolume.z / 2, 0);
+        scene.add(frame);
+
+        const bedMaterial = new THREE.MeshStandardMaterial({ color: COLD_COLOR });
+        const bed = new THREE.Mesh(new THREE.BoxGeometry(buildVolume.x, 4, buildVolume.y), bedMaterial);
+        bed.position.set(0, -2, 0);
+        scene.add(bed);
+
+        const gantry = new THREE.Mesh(
+            new THREE.BoxGeometry(buildVolume.x + 40, 10, 10),
+            new THREE.MeshStandardMaterial({ color: "#455a64" })
+        );
+        scene.add(gantry);
+
+        const headMaterial = new THREE.MeshStandardMaterial({ color: "#1976d2" });
+        const head = new THREE.Group();
+        const carriage = new THREE.Mesh(new THREE.BoxGeometry(30, 40, 30), headMaterial);
+        carriage.position.y = 25;
+        const nozzle = new THREE.Mesh(new THREE.ConeGeometry(4, 8, 16), new THREE.MeshStandardMaterial({ color: "#ffb300" }));
+        nozzle.rotation.x = Math.PI;
+        nozzle.position.y = 4;
+        head.add(carriage, nozzle);
+        scene.add(head);
+
+        const lightMaterial = new THREE.MeshBasicMaterial({ color: "gray" });
+        const statusLight = new THREE.Mesh(new THREE.SphereGeometry(8, 16, 16), lightMaterial);
+        statusLight.position.set(-buildVolume.x / 2, buildVolume.z + 10, -buildVolume.y / 2);
+        scene.add(statusLight);
+
+        sceneRef.current = { renderer, camera, bedMaterial, headMaterial, lightMaterial };
+
+        // Drag to orbit, wheel to zoom
+        let dragging: { x: number; y: number } | null = null;
+        const onPointerDown = (e: PointerEvent) => {
+            dragging = { x: e.clientX, y: e.clientY };
+        };
+        const onPointerMove = (e: PointerEvent) => {
+            if (!dragging) return;
+            orbit.azimuth -= (e.clientX - dragging.x) * 0.01;
+            orbit.elevation = Math.min(Math.PI / 2.2, Math.max(-0.1, orbit.elevation + (e.clientY - dragging.y) * 0.01));
+            dragging = { x: e.clientX, y: e.clientY };
+            placeCamera();
+        };
+        const onPointerUp = () => {
+            dragging = null;
+        };
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            orbit.distance = Math.min(4000, Math.max(150, orbit.distance * (e.deltaY > 0 ? 1.1 : 0.9)));
+            placeCamera();
+        };
+        const canvas = renderer.domElement;
+        canvas.addEventListener("pointerdown", onPointerDown);
+        window.addEventListener("pointermove", onPointerMove);
+        window.addEventListener("pointerup", onPointerUp);
+        canvas.addEventListener("wheel", onWheel, { passive: false });
+
+        const onResize = () => {
+            const newWidth = container.clientWidth || width;
+            renderer.setSize(newWidth, height);
+            camera.aspect = newWidth / height;
+            camera.updateProjectionMatrix();
+        };
+        window.addEventListener("resize", onResize);
+
+        let frameId = 0;
+        const animate = () => {
+            // Ease towards the last commanded position instead of jumping between polls.
+            const { X, Y, Z } = positionRef.current;
+            const goal = toScene(buildVolume, X, Y, Z);
+            head.position.lerp(goal, 0.15);
+            gantry.position.set(0, head.position.y + 25, head.position.z);
+
+            renderer.render(scene, camera);
+            frameId = requestAnimationFrame(animate);
+        };
+        animate();
+
+        return () => {
+            cancelAnimationFrame(frameId);
+            canvas.removeEventListener("pointerdown", onPointerDown);
+            window.removeEventListener("pointermove", onPointerMove);
+            window.removeEventListener("pointerup", onPointerUp);
+            canvas.removeEventListener("wheel", onWheel);
+            window.removeEventListener("resize", onResize);
+            scene.traverse((object) => {
+                if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+                    object.geometry.dispose();
+                    (object.material as THREE.Material).dispose();
+                }
+            });
+            renderer.dispose();
+            container.removeChild(canvas);
+            sceneRef.current = null;
+        };
+    }, [buildVolume, height]);
+
+    useEffect(() => {
+        // Commands only name the axes they move, so merge them into the last known position.
+        if (command) setHeadPosition((prev) => ({ ...prev, ...readMoveTarget(command) }));
+    }, [command]);
+
+    useEffect(() => {
+        const scene = sceneRef.current;
+        if (!scene) return;
+
+        const heat = status
+            ? Math.min(1, Math.max(0, (status.bed_temperature - AMBIENT_TEMP) / (HOT_BED_TEMP - AMBIENT_TEMP)))
+            : 0;
+        scene.bedMaterial.color.copy(COLD_COLOR).lerp(HOT_COLOR, heat);
+
+        const color = stateColor(status);
+        scene.headMaterial.color.set(color);
+        scene.lightMaterial.color.set(color);
+    }, [status]);
+
+    if (unsupported) {
+        return (
+            <Typography sx={{ fontStyle: "italic", color: "gray" }}>
+                3D view is not available in this browser.
+            </Typography>
+        );
+    }
+
+    return (
+        <Box>
+            <div ref={containerRef} style={{ width: "100%", height: `${height}px`, borderRadius: "8px", overflow: "hidden", cursor: "grab" }} />
+            <Typography variant="caption" sx={{ color: "gray" }}>
+                Head at X {headPosition.X.toFixed(1)} Y {headPosition.Y.toFixed(1)} Z {headPosition.Z.toFixed(2)} mm · drag to rotate, scroll to zoom
+            </Typography>
+        </Box>
+    );
+};
+
+export default PrinterTwin3D;
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+    Box,
+    Button,
+    List,
+    ListItemButton,
+    Paper,
+    Stack,
+    Step,
+    StepLabel,
+    Stepper,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { Job, JobEvent } from "../types";
+import { PrinterApi } from "../api/client";
+import { describeError } from "../api/errors";
+import { findCurrentLine, machineStateAtLine } from "../gcode/parser";
+import { validateGcodeCommand } from "../gcode/validate";
+import { formatTimestamp } from "../utils/format";
+import { useNotifications } from "../notifications/NotificationContext";
+
+interface RecoveryWizardProps {
+    job: Job | null;
+    api: PrinterApi;
+    lastValidCommand: string | null;
+}
+
+// Lines shown on each side of the last valid command.
+const CONTEXT_LINES = 8;
+const STEPS = ["Choose resume line", "Review command", "Confirm"];
+
+const RecoveryWizard: React.FC<RecoveryWizardProps> = ({ job, api, lastValidCommand }) => {
+    const [lines, setLines] = useState<string[] | null>(null);
+    const [events, setEvents] = useState<JobEvent[]>([]);
+    const [activeStep, setActiveStep] = useState(0);
+    const [resumeLine, setResumeLine] = useState<number | null>(null);
+    const [command, setCommand] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+    const [gcodeUnavailable, setGcodeUnavailable] = useState(false);
+    const jobId = job?.id;
+    const progress = job?.progress || 0;
+    const { notify } = useNotifications();
+
+    // Nothing from the previous job carries over, including a failed G-code download.
+    const [shownJobId, setShownJobId] = useState(jobId);
+    if (shownJobId !== jobId) {
+        setShownJobId(jobId);
+        setLines(null);
+        setEvents([]);
+        setGcodeUnavailable(false);
+        setActiveStep(0);
+        setResumeLine(null);
+        setCommand("");
+    }
+
+    useEffect(() => {
+        if (jobId === undefined) return;
+        let cancelled = false;
+
+        api.getGcode(jobId)
+            .then((text) => {
+                if (!cancelled) setLines(text.split(/\r?\n/));
+            })
+            .catch((error) => {
+                console.error("Error fetching G-code for recovery:", error);
+                if (!cancelled) setGcodeUnavailable(true);
+            });
+        api.getJobEvents(jobId)
+            .then((history) => {
+                if (!cancelled) setEvents(history.filter((event) => event.type === "recovery"));
+            })
+            .catch((error) => console.error("Error fetching job history:", error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [api, jobId]);
+
+    const lastValidLine = useMemo(
+        () => (lines ? findCurrentLine(lines, progress, lastValidCommand) : null),
+        [lines, progress, lastValidCommand]
+    );
+
+    const context = useMemo(() => {
+        if (!lines || lastValidLine === null) return [];
+        const start = Math.max(0, lastValidLine - CONTEXT_LINES);
+        const end = Math.min(lines.length, lastValidLine + CONTEXT_LINES + 1);
+        return lines.slice(start, end).map((text, offset) => ({ index: start + offset, text }));
+    }, [lines, lastValidLine]);
+
+    const preview = useMemo(
+        () => (lines && resumeLine !== null ? machineStateAtLine(lines, resumeLine) : null),
+        [lines, resumeLine]
+    );
+
+    const validationError = command.trim() ? validateGcodeCommand(command) : null;
+
+    const chooseLine = (index: number) => {
+        setResumeLine(index);
+        setCommand(lines ? lines[index].split(";")[0].trim() : "");
+    };
+
+    const reset = () => {
+        setActiveStep(0);
+        setResumeLine(null);
+        setCommand("");
+    };
+
+    const submit = async () => {
+        setSubmitting(true);
+        const submitted = command.trim();
+        try {
+            await api.submitNextValidCommand(submitted, resumeLine ?? undefined);
+        } catch (error) {
+            console.error("Error submitting next valid command:", error);
+            notify({ severity: "error", message: `Failed to submit next valid command. ${describeError(error)}` });
+            setSubmitting(false);
+            return;
+        }
+        notify({ severity: "success", message: "Next valid command submitted successfully!" });
+        reset();
+        setSubmitting(false);
+
+        // The printer already has the command; failing to log it must not read as a failed recovery.
+        if (jobId === undefined) return;
+        const message = resumeLine !== null
+            ? `Resumed from line ${resumeLine + 1} with "${submitted}".`
+            : `Resumed with "${submitted}".`;
+        try {
+            await api.addJobEvent(jobId, { type: "recovery", message });
+            const history = await api.getJobEvents(jobId);
+            setEvents(history.filter((event) => event.type === "recovery"));
+        } catch (error) {
+            console.error("Error recording recovery in the job history:", error);
+            notify({ severity: "warning", message: `The recovery wasn't added to the job history. ${describeError(error)}` });
+        }
+    };
+
+    return (
+        <Paper sx={{ padding: 2, backgroundColor: "#ffebee", borderRadius: "8px" }}>
+            <Typography variant="h6" sx={{ fontWeight: "bold", marginBottom: 1, color: "#d32f2f" }}>
+                Error Recovery
+            </Typography>
+            <Typography>
+                <strong>Last Valid Command:</strong> {lastValidCommand || "Fetching..."}
+            </Typography>
+
+            <Stepper activeStep={activeStep} sx={{ marginY: 2 }}>
+                {STEPS.map((label) => (
+                    <Step key={label}>
+                        <StepLabel>{label}</StepLabel>
+                    </Step>
+                ))}
+            </Stepper>
+
+            {activeStep === 0 && (
+                <>
+                    {context.length > 0 ? (
+                        <List dense sx={{ backgroundColor: "#fff", borderRadius: "4px", maxHeight: 300, overflowY: "auto" }}>
+                            {context.map(({ index, text }) => (
+                                <ListItemButton
+                                    key={index}
+                                    selected={index === resumeLine}
+                                    onClick={() => chooseLine(index)}
+                                    sx={{ fontFamily: "monospace", fontWeight: index === lastValidLine ? "bold" : "normal" }}
+                                >
+                                    <Box component="span" sx={{ width: 60, color: "gray" }}>{index + 1}</Box>
+                                    {text || " "}
+                                    {index === lastValidLine && (
+                                        <Box component="span" sx={{ marginLeft: 2, color: "#d32f2f" }}>← last valid</Box>
+                                    )}
+                                </ListItemButton>
+                            ))}
+                        </List>
+                    ) : (
+                        <Typography sx={{ fontStyle: "italic", color: "gray" }}>
+                            {job && !gcodeUnavailable ? "Loading G-code..." : "No job file available. Enter the command manually."}
+                        </Typography>
+                    )}
+                    <Stack direction="row" spacing={2} sx={{ marginTop: 2 }}>
+                        <Button variant="contained" onClick={() => setActiveStep(1)} disabled={context.length > 0 && resumeLine === null}>
+                            Next
+                        </Button>
+                    </Stack>
+                </>
+            )}
+
+            {activeStep === 1 && (
+                <>
+                    <TextField
+                        fullWidth
+                        label="Next Valid Command"
+                        variant="outlined"
+                        value={command}
+                        onChange={(e) => setCommand(e.target.value)}
+                        error={!!validationError}
+                        helperText={validationError || (resumeLine !== null ? `Resuming from line ${resumeLine + 1}` : " ")}
+                        sx={{ backgroundColor: "#fff" }}
+                    />
+                    {preview && (
+                        <Box sx={{ marginTop: 1 }}>
+                            <Typography sx={{ fontWeight: "bold" }}>Printer will be set to:</Typography>
+                            <Typography>
+                                Position X {preview.position.X.toFixed(2)} Y {preview.position.Y.toFixed(2)} Z {preview.position.Z.toFixed(2)} E {preview.position.E.toFixed(2)}
+                            </Typography>
+                            <Typography>
+                                Nozzle {preview.nozzleTarget ?? "—"}°C · Bed {preview.bedTarget ?? "—"}°C · Fan {Math.round((preview.fanSpeed / 255) * 100)}%
+                                {preview.feedRate !== null && ` · Feed rate ${preview.feedRate} mm/min`}
+                            </Typography>
+                        </Box>
+                    )}
+                    <Stack direction="row" spacing={2} sx={{ marginTop: 2 }}>
+                        <Button onClick={() => setActiveStep(0)}>Back</Button>
+                        <Button variant="contained" onClick={() => setActiveStep(2)} disabled={!command.trim() || !!validationError}>
+                            Next
+                        </Button>
+                    </Stack>
+                </>
+            )}
+
+            {activeStep === 2 && (
+                <>
+                    <Typography>
+                        Send <code>{command.trim()}</code>
+                        {resumeLine !== null && <> and resume from line {resumeLine + 1}</>}?
+                    </Typography>
+                    <Stack direction="row" spacing={2} sx={{ marginTop: 2 }}>
+                        <Button onClick={() => setActiveStep(1)} disabled={submitting}>Back</Button>
+                        <Button variant="contained" color="primary" onClick={submit} disabled={submitting}>
+                            Submit
+                        </Button>
+                    </Stack>
+                </>
+            )}
+
+            {events.length > 0 && (
+                <Box sx={{ marginTop: 2 }}>
+                    <Typography sx={{ fontWeight: "bold" }}>Recovery History</Typography>
+                    {events.map((event) => (
+                        <Typography key={`${event.timestamp}-${event.message}`} variant="body2">
+                            {formatTimestamp(event.timestamp)} — {event.message}
+                        </Typography>
+                    ))}
+                </Box>
+            )}
+        </Paper>
+    );
+};
+
+export default RecoveryWizard;
@@ -0,0 +1,230 @@
+import React, { useState } from "react";
+import { Link as RouterLink } from "react-router-dom";
+import {
+    Alert,
+    Box,
+    Button,
+    Divider,
+    MenuItem,
+    Paper,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import { Printer } from "../types";
+import { createPrinterApi } from "../api/client";
+import { describeError } from "../api/errors";
+import { useAuth } from "../auth/AuthContext";
+import { PRINTERS } from "../config/printers";
+import { useSettings } from "../config/SettingsContext";
+import {
+    AppSettings,
+    applyPrinterSettings,
+    DEFAULT_SETTINGS,
+    MAX_REFRESH_INTERVAL,
+    MIN_REFRESH_INTERVAL,
+    TemperatureUnit,
+    UNIT_SYMBOLS,
+    validateSettings,
+} from "../config/settings";
+
+type TestResult = { ok: boolean; message: string } | "testing";
+
+const PrinterConnectionFields: React.FC<{
+    printer: Printer;
+    draft: AppSettings;
+    errors: Record<string, string>;
+    onChange: (draft: AppSettings) => void;
+}> = ({ printer, draft, errors, onChange }) => {
+    const { token } = useAuth();
+    const [result, setResult] = useState<TestResult | null>(null);
+    const connection = draft.printers[printer.id];
+    const baseUrlError = errors[`printers.${printer.id}.baseUrl`];
+
+    const update = (changes: Partial<typeof connection>) =>
+        onChange({ ...draft, printers: { ...draft.printers, [printer.id]: { ...connection, ...changes } } });
+
+    // Talks to the backend directly so a bad URL being tested doesn't mark the printer offline.
+    const testConnection = async () => {
+        setResult("testing");
+        try {
+            const status = await createPrinterApi(applyPrinterSettings(printer, draft), token).getPrinterStatus();
+            setResult({ ok: true, message: `Connected. Printer is ${status.state}.` });
+        } catch (error) {
+            console.error(`Error testing connection to ${printer.name}:`, error);
+            setResult({ ok: false, message: `Connection failed. ${describeError(error)}` });
+        }
+    };
+
+    return (
+        <Box sx={{ marginTop: 2 }}>
+            <Typography variant="h6">{printer.name}</Typography>
+            <Stack spacing={2} sx={{ marginTop: 1 }}>
+                <Stack direction="row" spacing={1} alignItems="flex-start">
+                    <TextField
+                        fullWidth
+                        size="small"
+                        label="Backend URL"
+                        value={connection.baseUrl}
+                        onChange={(e) => {
+                            update({ baseUrl: e.target.value.trim() });
+                            setResult(null);
+                        }}
+                        error={!!baseUrlError}
+                        helperText={baseUrlError || " "}
+                    />
+                    <Button
+                        variant="outlined"
+                        onClick={testConnection}
+                        disabled={!!baseUrlError || result === "testing"}
+                        sx={{ whiteSpace: "nowrap" }}
+                    >
+                        Test Connection
+                    </Button>
+                </Stack>
+                {result && result !== "testing" && (
+                    <Alert severity={result.ok ? "success" : "error"}>{result.message}</Alert>
+                )}
+                {printer.cameras.map((camera) => {
+                    const error = errors[`printers.${printer.id}.cameras.${camera.id}`];
+                    return (
+                        <TextField
+                            key={camera.id}
+                            size="small"
+                            label={`${camera.name} camera stream URL`}
+                            value={connection.cameraUrls[camera.id] ?? ""}
+                            onChange={(e) => update({ cameraUrls: { ...connection.cameraUrls, [camera.id]: e.target.value.trim() } })}
+                            error={!!error}
+                            helperText={error || " "}
+                        />
+                    );
+                })}
+            </Stack>
+        </Box>
+    );
+};
+
+const SettingsPage: React.FC = () => {
+    const { settings, saveSettings, resetSettings } = useSettings();
+    const [draft, setDraft] = useState<AppSettings>(settings);
+    const [saved, setSaved] = useState(false);
+    const errors = validateSettings(draft);
+    const isValid = Object.keys(errors).length === 0;
+
+    const change = (next: AppSettings) => {
+        setDraft(next);
+        setSaved(false);
+    };
+
+    return (
+        <Box sx={{ padding: 4, backgroundColor: "#f9f9f9", minHeight: "100vh" }}>
+            <Button component={RouterLink} to="/" sx={{ marginBottom: 1 }}>
+                ← Back to Fleet
+            </Button>
+            <Typography variant="h3" gutterBottom>
+                Settings
+            </Typography>
+            <Typography sx={{ color: "gray", marginBottom: 2 }}>
+                Saved in this browser. Build-time defaults come from the REACT_APP_* environment variables.
+            </Typography>
+
+            <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px", marginBottom: 3 }}>
+                <Typography variant="h5" sx={{ fontWeight: "bold" }}>
+                    Connections
+                </Typography>
+                <Divider sx={{ marginY: 1 }} />
+                <TextField
+                    fullWidth
+                    size="small"
+                    label="Login service URL"
+                    value={draft.authUrl}
+                    onChange={(e) => change({ ...draft, authUrl: e.target.value.trim() })}
+                    error={!!errors.authUrl}
+                    helperText={errors.authUrl || " "}
+                    sx={{ marginTop: 1 }}
+                />
+                {PRINTERS.map((printer) => (
+                    <PrinterConnectionFields key={printer.id} printer={printer} draft={draft} errors={errors} onChange={change} />
+                ))}
+            </Paper>
+
+            <Paper sx={{ padding: 3, boxShadow: 3, borderRadius: "12px", marginBottom: 3 }}>
+                <Typography variant="h5" sx={{ fontWeight: "bold" }}>
+                    Display
+                </Typography>
+                <Divider sx={{ marginY: 1 }} />
+                <Stack spacing={2} sx={{ marginTop: 2, maxWidth: 400 }}>
+                    <TextField
+                        size="small"
+                        type="number"
+                        label="Refresh interval (ms)"
+                        value={draft.refreshInterval}
+                        onChange={(e) => change({ ...draft, refreshInterval: Number(e.target.value) })}
+                        error={!!errors.refreshInterval}
+                        helperText={errors.refreshInterval || `Polling rate when live telemetry is unavailable, ${MIN_REFRESH_INTERVAL}–${MAX_REFRESH_INTERVAL} ms.`}
+                    />
+                    <TextField
+                        select
+                        size="small"
+                        label="Temperature unit"
+                        value={draft.temperatureUnit}
+                        onChange={(e) => change({ ...draft, temperatureUnit: e.target.value as TemperatureUnit })}
+                        helperText="Setpoints are always entered in °C."
+                    >
+                        {(Object.keys(UNIT_SYMBOLS) as TemperatureUnit[]).map((unit) => (
+                            <MenuItem key={unit} value={unit}>
+                                {UNIT_SYMBOLS[unit]}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                    <TextField
+                        size="small"
+                        type="number"
+                        label="Chart maximum (°C)"
+                        value={draft.chartMaxTemperature ?? ""}
+                        onChange={(e) =>
+                            change({ ...draft, chartMaxTemperature: e.target.value === "" ? null : Number(e.target.value) })
+                        }
+                        error={!!errors.chartMaxTemperature}
+                        helperText={errors.chartMaxTemperature || "Leave empty to fit the data."}
+                    />
+                    <TextField
+                        size="small"
+                        type="number"
+                        label="Chart history (minutes)"
+                        value={draft.chartHistoryMinutes}
+                        onChange={(e) => change({ ...draft, chartHistoryMinutes: Number(e.target.value) })}
+                        error={!!errors.chartHistoryMinutes}
+                        helperText={errors.chartHistoryMinutes || "Live temperature samples older than this are dropped."}
+                    />
+                </Stack>
+            </Paper>
+
+            <Stack direction="row" spacing={2} alignItems="center">
+                <Button
+                    variant="contained"
+                    disabled={!isValid}
+                    onClick={() => {
+                        saveSettings(draft);
+                        setSaved(true);
+                    }}
+                >
+                    Save
+                </Button>
+                <Button
+                    color="error"
+                    onClick={() => {
+                        resetSettings();
+                        setDraft(DEFAULT_SETTINGS);
+                        setSaved(false);
+                    }}
+                >
+                    Restore Defaults
+                </Button>
+                {saved && <Typography sx={{ color: "green" }}>Settings saved.</Typography>}
+            </Stack>
+        </Box>
+    );
+};
+
+export default SettingsPage;
@@ -0,0 +1,28 @@
+import React, { useEffect, useState } from "react";
+import { Chip, Tooltip } from "@mui/material";
+import { formatAge } from "../offline/snapshot";
+import { formatTimestamp } from "../utils/format";
+
+interface StaleDataChipProps {
+    // When the shown data was last received, null if it never was.
+    since: number | null;
+}
+
+const StaleDataChip: React.FC<StaleDataChipProps> = ({ since }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const interval = window.setInterval(() => setNow(Date.now()), 5000);
+        return () => window.clearInterval(interval);
+    }, []);
+
+    if (since === null) return <Chip size="small" color="error" label="Offline · no cached data" />;
+
+    return (
+        <Tooltip title={`Last update ${formatTimestamp(new Date(since).toISOString())}`}>
+            <Chip size="small" color="warning" label={`Stale · ${formatAge(now - since)} old`} />
+        </Tooltip>
+    );
+};
+
+export default StaleDataChip;
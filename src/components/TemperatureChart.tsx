@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { Box, Typography, Stack, Button, LinearProgress, ToggleButton, ToggleButtonGroup } from "@mui/material";
+import { Line } from "react-chartjs-2";
+import {
+    Chart as ChartJS,
+    LinearScale,
+    PointElement,
+    LineElement,
+    Title,
+    Tooltip,
+    Legend,
+    Decimation,
+} from "chart.js";
+import zoomPlugin from "chartjs-plugin-zoom";
+import { Job, TemperatureSample } from "../types";
+import { heatingProgress } from "../preheat/profiles";
+import { formatTemperature, TemperatureUnit, toDisplayTemperature, UNIT_SYMBOLS } from "../config/settings";
+import { EXPORT_TYPES, ExportFormat, exportFileName, temperatureCsv, temperatureJson } from "../export/tabular";
+import { saveText } from "../utils/download";
+import ExportMenu from "./ExportMenu";
+
+ChartJS.register(LinearScale, PointElement, LineElement, Title, Tooltip, Legend, Decimation, zoomPlugin);
+
+type TimeRange = "5m" | "1h" | "job" | "session";
+
+const RANGE_MS: Partial<Record<TimeRange, number>> = {
+    "5m": 5 * 60 * 1000,
+    "1h": 60 * 60 * 1000,
+};
+
+interface TemperatureChartProps {
+    samples: TemperatureSample[];
+    currentJob: Job | null;
+    loadJobHistory: (jobId: number) => Promise<TemperatureSample[]>;
+    unit: TemperatureUnit;
+    // In °C, null to fit the data.
+    maxTemperature: number | null;
+}
+
+const toPoints = (
+    samples: TemperatureSample[],
+    value: (sample: TemperatureSample) => number | undefined,
+    unit: TemperatureUnit
+) =>
+    samples.flatMap((sample) => {
+        const y = value(sample);
+        return y === undefined ? [] : [{ x: sample.timestamp, y: toDisplayTemperature(y, unit) }];
+    });
+
+const HeaterProgress: React.FC<{ label: string; color: string; current: number; target?: number; unit: TemperatureUnit }> = ({
+    label,
+    color,
+    current,
+    target,
+    unit,
+}) => {
+    const progress = heatingProgress(current, target);
+    if (progress === null) return null;
+
+    return (
+        <Box sx={{ flex: 1 }}>
+            <Typography variant="caption">
+                {label} {toDisplayTemperature(current, unit).toFixed(0)} / {formatTemperature(target as number, unit)} ({Math.round(progress * 100)}%)
+            </Typography>
+            <LinearProgress
+                variant="determinate"
+                value={progress * 100}
+                sx={{ height: 6, borderRadius: 3, "& .MuiLinearProgress-bar": { backgroundColor: color } }}
+            />
+        </Box>
+    );
+};
+
+const TemperatureChart: React.FC<TemperatureChartProps> = ({ samples, currentJob, loadJobHistory, unit, maxTemperature }) => {
+    const symbol = UNIT_SYMBOLS[unit];
+    const chartRef = useRef<ChartJS<"line", { x: number; y: number }[]>>(null);
+    const [range, setRange] = useState<TimeRange>("5m");
+    const [jobHistory, setJobHistory] = useState<TemperatureSample[]>([]);
+    const jobId = currentJob?.id;
+    // Another job's history never carries over; without a job the job range has nothing to show.
+    const [shownJobId, setShownJobId] = useState(jobId);
+    if (shownJobId !== jobId) {
+        setShownJobId(jobId);
+        setJobHistory([]);
+        if (jobId === undefined && range === "job") setRange("session");
+    }
+
+    useEffect(() => {
+        if (range !== "job" || jobId === undefined) return;
+
+        let cancelled = false;
+        loadJobHistory(jobId)
+            .then((history) => {
+                if (!cancelled) setJobHistory(history);
+            })
+            .catch((error) => {
+                console.error("Error fetching temperature history:", error);
+                if (!cancelled) setJobHistory([]);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [range, jobId, loadJobHistory]);
+
+    const visibleSamples = useMemo(() => {
+        if (range === "session") return samples;
+
+        if (range === "job") {
+            if (!currentJob) return [];
+            const jobStart = new Date(currentJob.start_time).getTime();
+            // Backend history covers the job up to the fetch; session samples fill in the rest.
+            const lastStored = jobHistory.length > 0 ? jobHistory[jobHistory.length - 1].timestamp : -Infinity;
+            return [
+                ...jobHistory,
+                ...samples.filter((sample) => sample.timestamp > lastStored && sample.timestamp >= jobStart),
+            ];
+        }
+
+        const since = Date.now() - (RANGE_MS[range] ?? 0);
+        return samples.filter((sample) => sample.timestamp >= since);
+    }, [range, samples, currentJob, jobHistory]);
+
+    const latest = samples.length > 0 ? samples[samples.length - 1] : null;
+
+    const handleRangeChange = (_: React.MouseEvent<HTMLElement>, value: TimeRange | null) => {
+        if (!value) return;
+        setRange(value);
+        chartRef.current?.resetZoom();
+    };
+
+    // Exports the selected range, in °C regardless of the display unit.
+    const exportSamples = (format: ExportFormat) =>
+        saveText(
+            format === "csv" ? temperatureCsv(visibleSamples) : temperatureJson(visibleSamples),
+            EXPORT_TYPES[format],
+            exportFileName(range === "job" && jobId !== undefined ? ["temperatures", "job", jobId] : ["temperatures", range], format)
+        );
+
+    return (
+        <Box>
+            <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ marginBottom: 1 }}>
+                <Typography sx={{ fontSize: "1rem", fontWeight: "bold" }}>
+                    Temperature Graph
+                </Typography>
+                <Stack direction="row" spacing={1}>
+                    <ToggleButtonGroup size="small" exclusive value={range} onChange={handleRangeChange}>
+                        <ToggleButton value="5m">5 min</ToggleButton>
+                        <ToggleButton value="1h">1 h</ToggleButton>
+                        <ToggleButton value="job" disabled={!currentJob}>Job</ToggleButton>
+                        <ToggleButton value="session">Session</ToggleButton>
+                    </ToggleButtonGroup>
+                    <Button size="small" onClick={() => chartRef.current?.resetZoom()}>
+                        Reset Zoom
+                    </Button>
+                    <ExportMenu disabled={visibleSamples.length === 0} onExport={exportSamples} />
+                </Stack>
+            </Stack>
+            {latest && (latest.nozzleTarget || latest.bedTarget) ? (
+                <Stack direction="row" spacing={2} sx={{ marginBottom: 1 }}>
+                    <HeaterProgress label="Nozzle" color="red" current={latest.nozzle} target={latest.nozzleTarget} unit={unit} />
+                    <HeaterProgress label="Bed" color="blue" current={latest.bed} target={latest.bedTarget} unit={unit} />
+                </Stack>
+            ) : null}
+            <div style={{ height: "250px", width: "100%" }}>
+                <Line
+                    ref={chartRef}
+                    data={{
+                        datasets: [
+                            {
+                                label: `Nozzle Temperature (${symbol})`,
+                                data: toPoints(visibleSamples, (sample) => sample.nozzle, unit),
+                                borderColor: "red",
+                                pointRadius: 0,
+                                fill: false,
+                            },
+                            {
+                                label: `Nozzle Target (${symbol})`,
+                                data: toPoints(visibleSamples, (sample) => sample.nozzleTarget, unit),
+                                borderColor: "red",
+                                borderDash: [6, 4],
+                                borderWidth: 1,
+                                pointRadius: 0,
+                                stepped: true,
+                                fill: false,
+                            },
+                            {
+                                label: `Bed Temperature (${symbol})`,
+                                data: toPoints(visibleSamples, (sample) => sample.bed, unit),
+                                borderColor: "blue",
+                                pointRadius: 0,
+                                fill: false,
+                            },
+                            {
+                                label: `Bed Target (${symbol})`,
+                                data: toPoints(visibleSamples, (sample) => sample.bedTarget, unit),
+                                borderColor: "blue",
+                                borderDash: [6, 4],
+                                borderWidth: 1,
+                                pointRadius: 0,
+                                stepped: true,
+                                fill: false,
+                            },
+                        ],
+                    }}
+                    options={{
+                        maintainAspectRatio: false,
+                        responsive: true,
+                        animation: false,
+                        parsing: false,
+                        scales: {
+                            x: {
+                                type: "linear",
+                                ticks: {
+                                    maxTicksLimit: 8,
+                                    callback: (value) => new Date(Number(value)).toLocaleTimeString(),
+                                },
+                            },
+                            y: {
+                                suggestedMin: toDisplayTemperature(0, unit),
+                                suggestedMax: maxTemperature === null ? undefined : toDisplayTemperature(maxTemperature, unit),
+                            },
+                        },
+                        plugins: {
+                            // Keeps long sessions responsive by drawing a representative subset of points.
+                            decimation: {
+                                enabled: true,
+                                algorithm: "lttb",
+                                samples: 500,
+                            },
+                            tooltip: {
+                                callbacks: {
+                                    title: (items) => new Date(items[0].parsed.x).toLocaleTimeString(),
+                                },
+                            },
+                            zoom: {
+                                pan: { enabled: true, mode: "x" },
+                                zoom: {
+                                    wheel: { enabled: true },
+                                    pinch: { enabled: true },
+                                    mode: "x",
+                                },
+                            },
+                        },
+                    }}
+                />
+            </div>
+        </Box>
+    );
+};
+
+export default TemperatureChart;
@@ -0,0 +1,26 @@
+import React from "react";
+import { Link as RouterLink } from "react-router-dom";
+import { Button, Chip, Stack, Typography } from "@mui/material";
+import { useAuth } from "../auth/AuthContext";
+import NotificationCenter from "./NotificationCenter";
+
+const UserMenu: React.FC = () => {
+    const { user, logout } = useAuth();
+    if (!user) return null;
+
+    return (
+        <Stack direction="row" spacing={1} alignItems="center">
+            <NotificationCenter />
+            <Typography>{user.username}</Typography>
+            <Chip size="small" label={user.role} />
+            <Button size="small" component={RouterLink} to="/settings">
+                Settings
+            </Button>
+            <Button size="small" onClick={logout}>
+                Sign out
+            </Button>
+        </Stack>
+    );
+};
+
+export default UserMenu;
@@ -0,0 +1,21 @@
+import React from "react";
+import { useDashboardAlerts } from "../../dashboard/DashboardContext";
+import { useAuth } from "../../auth/AuthContext";
+import AlertPanel from "../AlertPanel";
+
+const AlertsWidget: React.FC = () => {
+    const thermalAlerts = useDashboardAlerts();
+    const { can } = useAuth();
+
+    return (
+        <AlertPanel
+            alerts={thermalAlerts.alerts}
+            rules={thermalAlerts.rules}
+            onAcknowledge={thermalAlerts.acknowledge}
+            onRulesChange={thermalAlerts.setRules}
+            canEditRules={can("configureAlerts")}
+        />
+    );
+};
+
+export default AlertsWidget;
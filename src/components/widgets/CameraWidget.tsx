@@ -0,0 +1,23 @@
+import React from "react";
+import { Typography } from "@mui/material";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectActiveJob } from "../../dashboard/selectors";
+import { useAuth } from "../../auth/AuthContext";
+import CameraFeed from "../CameraFeed";
+
+const CameraWidget: React.FC = () => {
+    const { printer, api } = useDashboard();
+    const { can } = useAuth();
+    const jobId = useDashboardStore((state) => selectActiveJob(state)?.id ?? null);
+
+    return (
+        <>
+            <Typography sx={{ fontSize: "1rem", fontWeight: "bold", marginBottom: 1 }}>
+                Live Camera Feed
+            </Typography>
+            <CameraFeed cameras={printer.cameras} api={api} jobId={jobId} canAttach={can("control")} />
+        </>
+    );
+};
+
+export default CameraWidget;
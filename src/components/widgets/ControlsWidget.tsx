@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import { Button, Stack } from "@mui/material";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectActiveJob, selectStateInfo } from "../../dashboard/selectors";
+import { useAuth } from "../../auth/AuthContext";
+import PreheatControl from "../PreheatControl";
+import ConfirmDialog from "../ConfirmDialog";
+
+const ControlsWidget: React.FC = () => {
+    const { api, sendCommand } = useDashboard();
+    const { can } = useAuth();
+    const stateInfo = useDashboardStore(selectStateInfo);
+    const currentJob = useDashboardStore(selectActiveJob);
+    const [confirmingCancel, setConfirmingCancel] = useState(false);
+
+    return (
+        <>
+            <Stack spacing={2} direction="row" sx={{ marginBottom: 2 }}>
+                <Button
+                    variant="contained"
+                    color="warning"
+                    onClick={() => sendCommand(api.pause, "Print paused.")}
+                    disabled={!can("control") || !stateInfo?.canPause}
+                >
+                    Pause Print
+                </Button>
+
+                <Button
+                    variant="contained"
+                    color="success"
+                    onClick={() => sendCommand(api.continuePrint, "Print resumed.")}
+                    disabled={!can("control") || !stateInfo?.canResume}
+                >
+                    Continue Print
+                </Button>
+
+                <Button
+                    variant="contained"
+                    color="error"
+                    onClick={() => setConfirmingCancel(true)}
+                    disabled={!can("cancel") || !stateInfo?.canCancel}
+                >
+                    Cancel Print
+                </Button>
+            </Stack>
+            <PreheatControl
+                disabled={!can("control")}
+                onPreheat={(setpoints) =>
+                    sendCommand(
+                        () => api.preheat(setpoints),
+                        `Preheating to ${setpoints.nozzle}°C nozzle, ${setpoints.bed}°C bed.`
+                    )
+                }
+            />
+            <ConfirmDialog
+                open={confirmingCancel}
+                title="Cancel print?"
+                message={
+                    currentJob
+                        ? `This stops job ${currentJob.id} (${currentJob.file_name}) at ${currentJob.progress?.toFixed(1) || 0}% and cannot be undone.`
+                        : "This stops the current print and cannot be undone."
+                }
+                confirmLabel="Cancel Print"
+                cancelLabel="Keep Printing"
+                onCancel={() => setConfirmingCancel(false)}
+                onConfirm={() => {
+                    setConfirmingCancel(false);
+                    sendCommand(api.cancel, "Print canceled.");
+                }}
+            />
+        </>
+    );
+};
+
+export default ControlsWidget;
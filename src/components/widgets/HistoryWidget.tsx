@@ -0,0 +1,48 @@
+import React, { useState } from "react";
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle } from "@mui/material";
+import { Job } from "../../types";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectHistory } from "../../dashboard/selectors";
+import JobHistoryPanel from "../JobHistoryPanel";
+import GcodeViewer from "../GcodeViewer";
+import JobMediaViewer from "../JobMediaViewer";
+
+const HistoryWidget: React.FC = () => {
+    const { printer, api } = useDashboard();
+    const jobs = useDashboardStore(selectHistory);
+    const ratings = useDashboardStore((state) => state.ratings);
+    const [previewJob, setPreviewJob] = useState<Job | null>(null);
+    const [mediaJob, setMediaJob] = useState<Job | null>(null);
+
+    return (
+        <>
+            <JobHistoryPanel
+                jobs={jobs}
+                ratings={ratings}
+                printerId={printer.id}
+                onOpenMedia={setMediaJob}
+                onPreview={setPreviewJob}
+            />
+
+            <Dialog open={previewJob !== null} onClose={() => setPreviewJob(null)} maxWidth="md" fullWidth>
+                <DialogTitle>{previewJob?.file_name}</DialogTitle>
+                <DialogContent>
+                    {previewJob && <GcodeViewer jobId={previewJob.id} api={api} height={450} />}
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setPreviewJob(null)}>Close</Button>
+                </DialogActions>
+            </Dialog>
+
+            <Dialog open={mediaJob !== null} onClose={() => setMediaJob(null)} maxWidth="md" fullWidth>
+                <DialogTitle>{mediaJob?.file_name}</DialogTitle>
+                <DialogContent>{mediaJob && <JobMediaViewer jobId={mediaJob.id} api={api} />}</DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setMediaJob(null)}>Close</Button>
+                </DialogActions>
+            </Dialog>
+        </>
+    );
+};
+
+export default HistoryWidget;
@@ -0,0 +1,68 @@
+import React from "react";
+import { Box, LinearProgress, Paper, Typography } from "@mui/material";
+import { Job } from "../../types";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectActiveJob, selectPrinterState } from "../../dashboard/selectors";
+import { useJobEta } from "../../hooks/useJobEta";
+import { formatTimestamp } from "../../utils/format";
+import GcodeViewer from "../GcodeViewer";
+import JobEtaSummary from "../JobEtaSummary";
+
+// The last command changes with every move, so only the viewer follows it.
+const LiveGcode: React.FC<{ job: Job }> = ({ job }) => {
+    const { api } = useDashboard();
+    const lastValidCommand = useDashboardStore((state) => state.lastValidCommand);
+    return <GcodeViewer jobId={job.id} api={api} progress={job.progress || 0} lastCommand={lastValidCommand} />;
+};
+
+const LiveMetricsWidget: React.FC = () => {
+    const { printer } = useDashboard();
+    const currentJob = useDashboardStore(selectActiveJob);
+    const printerState = useDashboardStore(selectPrinterState);
+    const jobs = useDashboardStore((state) => state.jobs);
+    const eta = useJobEta(printer.id, currentJob, printerState === "Printing", jobs);
+
+    if (!currentJob) {
+        return (
+            <Typography sx={{ fontStyle: "italic", color: "gray" }}>
+                No active print job.
+            </Typography>
+        );
+    }
+
+    return (
+        <Paper sx={{ padding: 2, backgroundColor: "#eef2f6", borderRadius: "8px" }}>
+            <Typography variant="h6" sx={{ fontWeight: "bold", marginBottom: 1 }}>
+                Live Print Metrics
+            </Typography>
+            <Typography><strong>File:</strong> {currentJob.file_name}</Typography>
+
+            <Typography>
+                <strong>Started:</strong> {formatTimestamp(currentJob.start_time)}
+            </Typography>
+            <JobEtaSummary
+                eta={eta}
+                estimated={currentJob.estimated_completion_time}
+                paused={printerState === "Paused"}
+            />
+
+            <Typography>
+                <strong>Estimated Filament Use:</strong> {currentJob.filament_used?.toFixed(2) || "N/A"} mm
+            </Typography>
+
+            <Typography><strong>Progress:</strong> {currentJob.progress?.toFixed(1) || 0}%</Typography>
+
+            <LinearProgress
+                variant="determinate"
+                value={currentJob.progress || 0}
+                sx={{ marginTop: 1, height: 8 }}
+            />
+
+            <Box sx={{ marginTop: 2 }}>
+                <LiveGcode job={currentJob} />
+            </Box>
+        </Paper>
+    );
+};
+
+export default LiveMetricsWidget;
@@ -0,0 +1,27 @@
+import React from "react";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectStateInfo } from "../../dashboard/selectors";
+import { useAuth } from "../../auth/AuthContext";
+import JobQueuePanel from "../JobQueuePanel";
+
+const QueueWidget: React.FC = () => {
+    const { api, refreshQueue, refreshJobs } = useDashboard();
+    const { can } = useAuth();
+    const queue = useDashboardStore((state) => state.queue);
+    const printerBusy = useDashboardStore((state) => selectStateInfo(state)?.busy ?? true);
+
+    return (
+        <JobQueuePanel
+            queue={queue}
+            api={api}
+            printerBusy={printerBusy}
+            canManage={can("queue")}
+            onQueueChanged={() => {
+                refreshQueue();
+                refreshJobs();
+            }}
+        />
+    );
+};
+
+export default QueueWidget;
@@ -0,0 +1,25 @@
+import React from "react";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectHistory } from "../../dashboard/selectors";
+import { useAuth } from "../../auth/AuthContext";
+import PrintRatingPanel from "../PrintRatingPanel";
+
+const RatingWidget: React.FC = () => {
+    const { printer, api, refreshRatings } = useDashboard();
+    const { can } = useAuth();
+    const jobs = useDashboardStore(selectHistory);
+    const ratings = useDashboardStore((state) => state.ratings);
+
+    return (
+        <PrintRatingPanel
+            jobs={jobs}
+            ratings={ratings}
+            api={api}
+            printerId={printer.id}
+            canRate={can("rate")}
+            onRated={refreshRatings}
+        />
+    );
+};
+
+export default RatingWidget;
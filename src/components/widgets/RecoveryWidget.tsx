@@ -0,0 +1,28 @@
+import React from "react";
+import { Typography } from "@mui/material";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectActiveJob, selectPrinterState } from "../../dashboard/selectors";
+import { useAuth } from "../../auth/AuthContext";
+import RecoveryWizard from "../RecoveryWizard";
+
+// Error recovery is only offered while the printer is paused.
+const RecoveryWidget: React.FC = () => {
+    const { api } = useDashboard();
+    const { can } = useAuth();
+    const paused = useDashboardStore((state) => selectPrinterState(state) === "Paused");
+    const currentJob = useDashboardStore(selectActiveJob);
+    // Only read while paused, when the command no longer changes.
+    const lastValidCommand = useDashboardStore((state) => (paused ? state.lastValidCommand : null));
+
+    if (!paused) return null;
+
+    return can("recover") ? (
+        <RecoveryWizard job={currentJob} api={api} lastValidCommand={lastValidCommand} />
+    ) : (
+        <Typography sx={{ color: "#d32f2f" }}>
+            Print is paused. An operator needs to resume it.
+        </Typography>
+    );
+};
+
+export default RecoveryWidget;
@@ -0,0 +1,60 @@
+import React from "react";
+import { Box, Divider, Typography } from "@mui/material";
+import { useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectPrinterState, selectStateInfo } from "../../dashboard/selectors";
+import { useSettings } from "../../config/SettingsContext";
+import { formatTemperature } from "../../config/settings";
+
+const StatusWidget: React.FC = () => {
+    const { settings } = useSettings();
+    const nozzle = useDashboardStore((state) => state.status?.nozzle_temperature);
+    const bed = useDashboardStore((state) => state.status?.bed_temperature);
+    const printerState = useDashboardStore(selectPrinterState);
+    const stateInfo = useDashboardStore(selectStateInfo);
+
+    return (
+        <>
+            <Box sx={{ display: "flex", alignItems: "center", marginBottom: 2 }}>
+                <img
+                    src="/3d_printer.svg"
+                    alt="3D Printer"
+                    style={{ width: "100px", height: "100px", marginRight: "16px", objectFit: "contain" }}
+                />
+                <Box>
+                    <Typography variant="h5" sx={{ fontWeight: "bold", color: "#1976d2" }}>
+                        3D Printer Live Status
+                    </Typography>
+                    <Typography sx={{ fontSize: "0.875rem", color: "gray" }}>
+                        Monitoring in real-time
+                    </Typography>
+                </Box>
+            </Box>
+            <Divider sx={{ marginY: 2 }} />
+            {nozzle === undefined || bed === undefined ? (
+                <Typography>Loading printer status...</Typography>
+            ) : (
+                <>
+                    <Typography>
+                        <strong>Nozzle Temp:</strong> {formatTemperature(nozzle, settings.temperatureUnit)}
+                    </Typography>
+                    <Typography>
+                        <strong>Bed Temp:</strong> {formatTemperature(bed, settings.temperatureUnit)}
+                    </Typography>
+                    <Typography>
+                        <strong>Printer State:</strong>{" "}
+                        <span
+                            style={{
+                                color: stateInfo?.color,
+                                fontWeight: "bold",
+                            }}
+                        >
+                            {printerState}
+                        </span>
+                    </Typography>
+                </>
+            )}
+        </>
+    );
+};
+
+export default StatusWidget;
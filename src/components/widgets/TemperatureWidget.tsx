@@ -0,0 +1,24 @@
+import React from "react";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import { selectActiveJob } from "../../dashboard/selectors";
+import { useSettings } from "../../config/SettingsContext";
+import TemperatureChart from "../TemperatureChart";
+
+const TemperatureWidget: React.FC = () => {
+    const { api } = useDashboard();
+    const { settings } = useSettings();
+    const samples = useDashboardStore((state) => state.temperatures);
+    const currentJob = useDashboardStore(selectActiveJob);
+
+    return (
+        <TemperatureChart
+            samples={samples}
+            currentJob={currentJob}
+            loadJobHistory={api.getTemperatureHistory}
+            unit={settings.temperatureUnit}
+            maxTemperature={settings.chartMaxTemperature}
+        />
+    );
+};
+
+export default TemperatureWidget;
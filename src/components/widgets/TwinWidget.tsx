@@ -0,0 +1,26 @@
+import React from "react";
+import { Typography } from "@mui/material";
+import { DEFAULT_BUILD_VOLUME } from "../../config/printers";
+import { useDashboard, useDashboardStore } from "../../dashboard/DashboardContext";
+import PrinterTwin3D from "../PrinterTwin3D";
+
+const TwinWidget: React.FC = () => {
+    const { printer } = useDashboard();
+    const status = useDashboardStore((state) => state.status);
+    const lastValidCommand = useDashboardStore((state) => state.lastValidCommand);
+
+    return (
+        <>
+            <Typography sx={{ fontSize: "1rem", fontWeight: "bold", marginBottom: 1 }}>
+                Digital Twin
+            </Typography>
+            <PrinterTwin3D
+                status={status}
+                command={lastValidCommand}
+                buildVolume={printer.buildVolume || DEFAULT_BUILD_VOLUME}
+            />
+        </>
+    );
+};
+
+export default TwinWidget;
@@ -0,0 +1,34 @@
+import React from "react";
+import { WidgetId } from "../../dashboard/layout";
+import StatusWidget from "./StatusWidget";
+import ControlsWidget from "./ControlsWidget";
+import AlertsWidget from "./AlertsWidget";
+import TemperatureWidget from "./TemperatureWidget";
+import LiveMetricsWidget from "./LiveMetricsWidget";
+import RecoveryWidget from "./RecoveryWidget";
+import TwinWidget from "./TwinWidget";
+import CameraWidget from "./CameraWidget";
+import QueueWidget from "./QueueWidget";
+import HistoryWidget from "./HistoryWidget";
+import RatingWidget from "./RatingWidget";
+
+export interface WidgetDefinition {
+    title: string;
+    component: React.FC;
+    // Whether the grid draws a card around the widget; panels that bring their own are left bare.
+    framed: boolean;
+}
+
+export const WIDGETS: Record<WidgetId, WidgetDefinition> = {
+    status: { title: "Printer Status", component: StatusWidget, framed: true },
+    controls: { title: "Print Controls", component: ControlsWidget, framed: true },
+    alerts: { title: "Thermal Alerts", component: AlertsWidget, framed: true },
+    temperature: { title: "Temperature Chart", component: TemperatureWidget, framed: true },
+    metrics: { title: "Live Metrics", component: LiveMetricsWidget, framed: true },
+    recovery: { title: "Recovery", component: RecoveryWidget, framed: true },
+    twin: { title: "Digital Twin", component: TwinWidget, framed: true },
+    camera: { title: "Camera Feed", component: CameraWidget, framed: true },
+    queue: { title: "Job Queue", component: QueueWidget, framed: false },
+    history: { title: "Job History", component: HistoryWidget, framed: false },
+    rating: { title: "Print Rating", component: RatingWidget, framed: false },
+};
@@ -0,0 +1,59 @@
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from "react";
+import { Printer } from "../types";
+import { loadJson, saveJson } from "../utils/storage";
+import { PRINTERS } from "./printers";
+import { AppSettings, applyPrinterSettings, DEFAULT_SETTINGS, keepUnchangedPrinters, mergeSettings } from "./settings";
+
+const SETTINGS_KEY = "settings";
+
+interface SettingsContextValue {
+    settings: AppSettings;
+    saveSettings: (settings: AppSettings) => void;
+    resetSettings: () => void;
+    // The fleet with URLs from the settings applied.
+    printers: Printer[];
+    findPrinter: (printerId: string | undefined) => Printer | null;
+}
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [settings, setSettings] = useState(() => mergeSettings(loadJson<Partial<AppSettings>>(SETTINGS_KEY, {})));
+
+    // Keep printer objects stable so API clients are only rebuilt when their URLs change.
+    const printersRef = useRef<Printer[]>([]);
+    const printers = useMemo(() => {
+        printersRef.current = keepUnchangedPrinters(
+            printersRef.current,
+            PRINTERS.map((printer) => applyPrinterSettings(printer, settings))
+        );
+        return printersRef.current;
+    }, [settings]);
+
+    const findPrinter = useCallback(
+        (printerId: string | undefined) => printers.find((printer) => printer.id === printerId) || null,
+        [printers]
+    );
+
+    const value: SettingsContextValue = {
+        settings,
+        saveSettings: (next) => {
+            saveJson(SETTINGS_KEY, next);
+            setSettings(next);
+        },
+        resetSettings: () => {
+            saveJson(SETTINGS_KEY, {});
+            setSettings(DEFAULT_SETTINGS);
+        },
+        printers,
+        findPrinter,
+    };
+
+    return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+};
+
+export const useSettings = () => {
+    const context = useContext(SettingsContext);
+    if (!context) throw new Error("useSettings must be used inside a SettingsProvider");
+    return context;
+};
@@ -0,0 +1,2 @@
+// Default login service shared by every printer in the fleet; overridable on the settings page.
+export const AUTH_API = process.env.REACT_APP_AUTH_URL || "http://localhost:5000/auth";
@@ -0,0 +1,51 @@
+import { BuildVolume, Printer } from "../types";
+
+// Build-time defaults, see .env.example. Both can also be changed at runtime on the settings page.
+const BACKEND_URL = process.env.REACT_APP_BACKEND_URL || "http://localhost:5000";
+const CAMERA_URL = process.env.REACT_APP_CAMERA_URL || "http://192.168.0.106:8080/?action=stream";
+
+// Printers available in the lab. Each entry runs its own backend and one or more camera streams.
+export const PRINTERS: Printer[] = [
+    {
+        id: "prusa-mk3",
+        name: "Prusa MK3",
+        baseUrl: BACKEND_URL,
+        // mjpg-streamer allows cross-origin reads by default.
+        cameras: [{ id: "front", name: "Front", streamUrl: CAMERA_URL, cors: true }],
+        buildVolume: { x: 250, y: 210, z: 210 },
+    },
+];
+
+export const DEFAULT_BUILD_VOLUME: BuildVolume = { x: 220, y: 220, z: 250 };
+
+export const printerEndpoints = (printer: Printer) => {
+    const dashboardUrl = `${printer.baseUrl}/dashboard`;
+
+    return {
+        printerStatus: `${dashboardUrl}/printer-status`,
+        jobs: `${dashboardUrl}/jobs`,
+        job: (jobId: number) => `${dashboardUrl}/jobs/${jobId}`,
+        jobRating: (jobId: number) => `${dashboardUrl}/jobs/${jobId}/rating`,
+        jobSnapshots: (jobId: number) => `${dashboardUrl}/jobs/${jobId}/snapshots`,
+        jobEvents: (jobId: number) => `${dashboardUrl}/jobs/${jobId}/events`,
+        rateJob: `${dashboardUrl}/rate-job`,
+        ratings: `${dashboardUrl}/ratings`,
+        pause: `${dashboardUrl}/pause`,
+        preheat: `${dashboardUrl}/preheat`,
+        continue: `${dashboardUrl}/continue`,
+        cancel: `${dashboardUrl}/cancel`,
+        timelapse: (jobId: number) => `${dashboardUrl}/timelapse?jobId=${jobId}`,
+        pictureHistory: (jobId: number) => `${dashboardUrl}/pictureHistory?jobId=${jobId}`,
+        lastValid: `${dashboardUrl}/last-valid`,
+        nextValid: `${dashboardUrl}/next-valid`,
+        telemetry: `${dashboardUrl}/telemetry`,
+        telemetryTicket: `${dashboardUrl}/telemetry/ticket`,
+        audit: `${dashboardUrl}/audit`,
+        gcode: (jobId: number) => `${dashboardUrl}/gcode?jobId=${jobId}`,
+        queue: `${dashboardUrl}/queue`,
+        queueOrder: `${dashboardUrl}/queue/order`,
+        queueJob: (jobId: number) => `${dashboardUrl}/queue/${jobId}`,
+        queueStart: `${dashboardUrl}/queue/start`,
+        temperatureHistory: (jobId: number) => `${dashboardUrl}/temperature-history?jobId=${jobId}`,
+    };
+};
@@ -0,0 +1,119 @@
+import { Printer } from '../types';
+import {
+  applyPrinterSettings, DEFAULT_SETTINGS, formatTemperature, keepUnchangedPrinters, mergeSettings, toDisplayTemperature,
+  TemperatureUnit, validateSettings,
+} from './settings';
+
+const printer: Printer = {
+  id: 'prusa-mk3',
+  name: 'Prusa MK3',
+  baseUrl: 'http://localhost:5000',
+  cameras: [{ id: 'front', name: 'Front', streamUrl: 'http://camera/stream' }],
+};
+
+test('fills in fields and printers missing from stored settings', () => {
+  const merged = mergeSettings({ refreshInterval: 2000 });
+
+  expect(merged.refreshInterval).toBe(2000);
+  expect(merged.temperatureUnit).toBe(DEFAULT_SETTINGS.temperatureUnit);
+  expect(merged.printers).toEqual(DEFAULT_SETTINGS.printers);
+});
+
+test('keeps stored URLs and ignores printers that no longer exist', () => {
+  const merged = mergeSettings({
+    printers: {
+      'prusa-mk3': { baseUrl: 'http://printer.lan:5000', cameraUrls: {} },
+      removed: { baseUrl: 'http://old', cameraUrls: {} },
+    },
+  });
+
+  expect(merged.printers['prusa-mk3'].baseUrl).toBe('http://printer.lan:5000');
+  expect(merged.printers['prusa-mk3'].cameraUrls.front).toBe(DEFAULT_SETTINGS.printers['prusa-mk3'].cameraUrls.front);
+  expect(merged.printers.removed).toBeUndefined();
+});
+
+test('falls back to the default for each stored value that is invalid', () => {
+  const merged = mergeSettings({
+    authUrl: 'not a url',
+    refreshInterval: 10,
+    temperatureUnit: 'kelvin' as TemperatureUnit,
+    chartMaxTemperature: 300,
+    printers: { 'prusa-mk3': { baseUrl: 'http://printer.lan:5000', cameraUrls: { front: 'rtsp://camera' } } },
+  });
+
+  expect(merged.authUrl).toBe(DEFAULT_SETTINGS.authUrl);
+  expect(merged.refreshInterval).toBe(DEFAULT_SETTINGS.refreshInterval);
+  expect(merged.temperatureUnit).toBe(DEFAULT_SETTINGS.temperatureUnit);
+  expect(merged.chartMaxTemperature).toBe(300);
+  expect(merged.printers['prusa-mk3']).toEqual({
+    baseUrl: 'http://printer.lan:5000',
+    cameraUrls: DEFAULT_SETTINGS.printers['prusa-mk3'].cameraUrls,
+  });
+  expect(validateSettings(merged)).toEqual({});
+});
+
+test('overrides the backend and camera URLs of a printer', () => {
+  const settings = {
+    ...DEFAULT_SETTINGS,
+    printers: { 'prusa-mk3': { baseUrl: 'http://printer.lan', cameraUrls: { front: 'http://printer.lan:8080' } } },
+  };
+
+  const applied = applyPrinterSettings(printer, settings);
+
+  expect(applied.baseUrl).toBe('http://printer.lan');
+  expect(applied.cameras[0]).toEqual({ ...printer.cameras[0], streamUrl: 'http://printer.lan:8080' });
+});
+
+test('leaves printers without settings unchanged', () => {
+  expect(applyPrinterSettings(printer, { ...DEFAULT_SETTINGS, printers: {} })).toBe(printer);
+});
+
+test('keeps printer objects whose URLs did not change', () => {
+  const other = { ...printer, id: 'ender', cameras: [] };
+  const previous = [printer, other];
+
+  expect(keepUnchangedPrinters(previous, [{ ...printer }, { ...other }])).toBe(previous);
+
+  const moved = { ...printer, baseUrl: 'http://printer.lan' };
+  const next = keepUnchangedPrinters(previous, [moved, { ...other }]);
+  expect(next[0]).toBe(moved);
+  expect(next[1]).toBe(other);
+
+  const recabled = { ...printer, cameras: [{ ...printer.cameras[0], streamUrl: 'http://camera.lan/stream' }] };
+  expect(keepUnchangedPrinters(previous, [recabled, other])[0]).toBe(recabled);
+});
+
+test('accepts the default settings', () => {
+  expect(validateSettings(DEFAULT_SETTINGS)).toEqual({});
+});
+
+test('reports invalid settings by key', () => {
+  const errors = validateSettings({
+    ...DEFAULT_SETTINGS,
+    authUrl: 'localhost:5000/auth',
+    printers: { 'prusa-mk3': { baseUrl: 'ftp://printer', cameraUrls: { front: '' } } },
+    refreshInterval: 10,
+    chartMaxTemperature: -5,
+    chartHistoryMinutes: 1.5,
+  });
+
+  expect(Object.keys(errors).sort()).toEqual([
+    'authUrl',
+    'chartHistoryMinutes',
+    'chartMaxTemperature',
+    'printers.prusa-mk3.baseUrl',
+    'printers.prusa-mk3.cameras.front',
+    'refreshInterval',
+  ]);
+});
+
+test('allows an automatic chart maximum', () => {
+  expect(validateSettings({ ...DEFAULT_SETTINGS, chartMaxTemperature: null })).toEqual({});
+});
+
+test('converts temperatures for display only in fahrenheit', () => {
+  expect(toDisplayTemperature(100, 'celsius')).toBe(100);
+  expect(toDisplayTemperature(100, 'fahrenheit')).toBe(212);
+  expect(formatTemperature(215.04, 'celsius')).toBe('215°C');
+  expect(formatTemperature(60, 'fahrenheit')).toBe('140°F');
+});
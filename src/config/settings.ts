@@ -0,0 +1,188 @@
+import { Printer } from "../types";
+import { AUTH_API } from "./auth";
+import { PRINTERS } from "./printers";
+
+export type TemperatureUnit = "celsius" | "fahrenheit";
+
+export interface PrinterConnectionSettings {
+    baseUrl: string;
+    // Stream URL per camera id.
+    cameraUrls: Record<string, string>;
+}
+
+export interface AppSettings {
+    authUrl: string;
+    printers: Record<string, PrinterConnectionSettings>;
+    // How often status is polled when live telemetry is unavailable, in ms.
+    refreshInterval: number;
+    temperatureUnit: TemperatureUnit;
+    // Temperature chart axis top in °C (grows past it for hotter readings), null to fit the data.
+    chartMaxTemperature: number | null;
+    // How much live temperature history is kept in the chart.
+    chartHistoryMinutes: number;
+}
+
+export const MIN_REFRESH_INTERVAL = 250;
+export const MAX_REFRESH_INTERVAL = 60000;
+export const MAX_CHART_HISTORY_MINUTES = 24 * 60;
+
+const envNumber = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Build-time defaults. Set REACT_APP_BACKEND_URL, REACT_APP_CAMERA_URL, REACT_APP_AUTH_URL,
+ * REACT_APP_REFRESH_INTERVAL (ms) or REACT_APP_TEMPERATURE_UNIT ("celsius" | "fahrenheit") to change them.
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+    authUrl: AUTH_API,
+    printers: Object.fromEntries(
+        PRINTERS.map((printer) => [
+            printer.id,
+            {
+                baseUrl: printer.baseUrl,
+                cameraUrls: Object.fromEntries(printer.cameras.map((camera) => [camera.id, camera.streamUrl])),
+            },
+        ])
+    ),
+    refreshInterval: envNumber(process.env.REACT_APP_REFRESH_INTERVAL, 1000),
+    temperatureUnit: process.env.REACT_APP_TEMPERATURE_UNIT === "fahrenheit" ? "fahrenheit" : "celsius",
+    chartMaxTemperature: 250,
+    chartHistoryMinutes: MAX_CHART_HISTORY_MINUTES,
+};
+
+/**
+ * Stored settings on top of the defaults, so printers and fields added later still get a value.
+ * A stored value the settings page wouldn't accept falls back to its default, field by field.
+ */
+export const mergeSettings = (stored: Partial<AppSettings>): AppSettings => {
+    const merged: AppSettings = {
+        ...DEFAULT_SETTINGS,
+        ...stored,
+        printers: Object.fromEntries(
+            Object.entries(DEFAULT_SETTINGS.printers).map(([id, defaults]) => {
+                const overrides = stored.printers?.[id];
+                return [
+                    id,
+                    {
+                        baseUrl: overrides?.baseUrl ?? defaults.baseUrl,
+                        cameraUrls: Object.fromEntries(
+                            Object.entries(defaults.cameraUrls).map(([cameraId, url]) => [
+                                cameraId,
+                                overrides?.cameraUrls?.[cameraId] ?? url,
+                            ])
+                        ),
+                    },
+                ];
+            })
+        ),
+    };
+
+    const errors = validateSettings(merged);
+    const valid = <T>(key: string, value: T, fallback: T) => (key in errors ? fallback : value);
+    return {
+        ...merged,
+        authUrl: valid("authUrl", merged.authUrl, DEFAULT_SETTINGS.authUrl),
+        refreshInterval: valid("refreshInterval", merged.refreshInterval, DEFAULT_SETTINGS.refreshInterval),
+        temperatureUnit: valid("temperatureUnit", merged.temperatureUnit, DEFAULT_SETTINGS.temperatureUnit),
+        chartMaxTemperature: valid("chartMaxTemperature", merged.chartMaxTemperature, DEFAULT_SETTINGS.chartMaxTemperature),
+        chartHistoryMinutes: valid("chartHistoryMinutes", merged.chartHistoryMinutes, DEFAULT_SETTINGS.chartHistoryMinutes),
+        printers: Object.fromEntries(
+            Object.entries(merged.printers).map(([id, connection]) => {
+                const defaults = DEFAULT_SETTINGS.printers[id];
+                return [
+                    id,
+                    {
+                        baseUrl: valid(`printers.${id}.baseUrl`, connection.baseUrl, defaults.baseUrl),
+                        cameraUrls: Object.fromEntries(
+                            Object.entries(connection.cameraUrls).map(([cameraId, url]) => [
+                                cameraId,
+                                valid(`printers.${id}.cameras.${cameraId}`, url, defaults.cameraUrls[cameraId]),
+                            ])
+                        ),
+                    },
+                ];
+            })
+        ),
+    };
+};
+
+/** The printer with its backend and camera URLs taken from the settings. */
+export const applyPrinterSettings = (printer: Printer, settings: AppSettings): Printer => {
+    const connection = settings.printers[printer.id];
+    if (!connection) return printer;
+    return {
+        ...printer,
+        baseUrl: connection.baseUrl,
+        cameras: printer.cameras.map((camera) => ({
+            ...camera,
+            streamUrl: connection.cameraUrls[camera.id] ?? camera.streamUrl,
+        })),
+    };
+};
+
+// Only the URLs come from the settings, the rest of a printer is fixed configuration.
+const sameUrls = (a: Printer, b: Printer) =>
+    a.baseUrl === b.baseUrl &&
+    a.cameras.length === b.cameras.length &&
+    a.cameras.every((camera, index) => camera.id === b.cameras[index].id && camera.streamUrl === b.cameras[index].streamUrl);
+
+/**
+ * `next`, reusing the `previous` object of every printer whose URLs didn't change (and the previous
+ * list when none did), so API clients and telemetry keyed on a printer survive unrelated changes.
+ */
+export const keepUnchangedPrinters = (previous: Printer[], next: Printer[]): Printer[] => {
+    const kept = next.map((printer) => {
+        const old = previous.find((item) => item.id === printer.id);
+        return old && sameUrls(old, printer) ? old : printer;
+    });
+    return kept.length === previous.length && kept.every((printer, index) => printer === previous[index]) ? previous : kept;
+};
+
+const isHttpUrl = (value: string) => {
+    try {
+        const url = new URL(value);
+        return url.protocol === "http:" || url.protocol === "https:";
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Per-field error messages; empty when the settings can be saved.
+ * Printer fields are keyed `printers.<id>.baseUrl` and `printers.<id>.cameras.<cameraId>`.
+ */
+export const validateSettings = (settings: AppSettings) => {
+    const errors: Record<string, string> = {};
+    if (!isHttpUrl(settings.authUrl)) errors.authUrl = "Enter an http(s) URL.";
+
+    Object.entries(settings.printers).forEach(([id, connection]) => {
+        if (!isHttpUrl(connection.baseUrl)) errors[`printers.${id}.baseUrl`] = "Enter an http(s) URL.";
+        Object.entries(connection.cameraUrls).forEach(([cameraId, url]) => {
+            if (!isHttpUrl(url)) errors[`printers.${id}.cameras.${cameraId}`] = "Enter an http(s) URL.";
+        });
+    });
+
+    const { refreshInterval, temperatureUnit, chartMaxTemperature, chartHistoryMinutes } = settings;
+    if (temperatureUnit !== "celsius" && temperatureUnit !== "fahrenheit") errors.temperatureUnit = "Choose °C or °F.";
+    if (!Number.isInteger(refreshInterval) || refreshInterval < MIN_REFRESH_INTERVAL || refreshInterval > MAX_REFRESH_INTERVAL) {
+        errors.refreshInterval = `Use ${MIN_REFRESH_INTERVAL} to ${MAX_REFRESH_INTERVAL} ms.`;
+    }
+    if (chartMaxTemperature !== null && !(chartMaxTemperature > 0 && chartMaxTemperature <= 500)) {
+        errors.chartMaxTemperature = "Use 1 to 500 °C, or leave empty to fit the data.";
+    }
+    if (!Number.isInteger(chartHistoryMinutes) || chartHistoryMinutes < 1 || chartHistoryMinutes > MAX_CHART_HISTORY_MINUTES) {
+        errors.chartHistoryMinutes = `Use 1 to ${MAX_CHART_HISTORY_MINUTES} minutes.`;
+    }
+    return errors;
+};
+
+export const UNIT_SYMBOLS: Record<TemperatureUnit, string> = { celsius: "°C", fahrenheit: "°F" };
+
+/** Temperatures are always °C internally and only converted for display. */
+export const toDisplayTemperature = (celsius: number, unit: TemperatureUnit) =>
+    unit === "fahrenheit" ? (celsius * 9) / 5 + 32 : celsius;
+
+export const formatTemperature = (celsius: number, unit: TemperatureUnit) =>
+    `${Number(toDisplayTemperature(celsius, unit).toFixed(1))}${UNIT_SYMBOLS[unit]}`;
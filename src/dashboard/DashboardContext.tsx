@@ -0,0 +1,223 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { Job, Printer, PrinterStatus } from "../types";
+import { PrinterApi } from "../api/client";
+import { usePrinterApi } from "../api/PrinterApiContext";
+import { describeError } from "../api/errors";
+import { useSettings } from "../config/SettingsContext";
+import { uniqueJobs } from "../lifecycle/jobState";
+import { useNotifications } from "../notifications/NotificationContext";
+import { loadSnapshot, saveSnapshot } from "../offline/snapshot";
+import { useTelemetry } from "../hooks/useTelemetry";
+import { useThermalAlerts } from "../hooks/useThermalAlerts";
+import { usePrinterEvents } from "../hooks/usePrinterEvents";
+import { createDashboardStore, DashboardState, DashboardStore, initialDashboardState } from "./store";
+
+interface DashboardContextValue {
+    printer: Printer;
+    api: PrinterApi;
+    store: DashboardStore;
+    refreshStatus: () => Promise<void>;
+    refreshJobs: () => Promise<void>;
+    refreshQueue: () => Promise<void>;
+    refreshRatings: () => Promise<void>;
+    // Runs a printer command, reports the outcome and refreshes the status. The backend audits it.
+    sendCommand: (command: () => Promise<void>, successMessage: string) => Promise<void>;
+}
+
+type ThermalAlertsValue = ReturnType<typeof useThermalAlerts>;
+
+const DashboardContext = createContext<DashboardContextValue | null>(null);
+const ThermalAlertsContext = createContext<ThermalAlertsValue | null>(null);
+
+// Status arrives every second or faster; the offline snapshot only needs to be roughly current.
+const STATUS_SNAPSHOT_INTERVAL = 30000;
+
+const useStoreSelector = <T,>(store: DashboardStore, selector: (state: DashboardState) => T) =>
+    useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+
+/**
+ * Loads and streams one printer's data into a dashboard store and keeps the background work
+ * (snapshots, job timelines, notifications, thermal alerts) running whichever widgets are shown.
+ * Callbacks read the store when they run, so they never act on data from an earlier render.
+ */
+export const DashboardProvider: React.FC<{ printer: Printer; children: React.ReactNode }> = ({ printer, children }) => {
+    const api = usePrinterApi(printer);
+    const { settings } = useSettings();
+    const { notify } = useNotifications();
+    // Read when samples arrive, so changing the chart window doesn't replace every callback below.
+    const historyMinutesRef = useRef(settings.chartHistoryMinutes);
+    historyMinutesRef.current = settings.chartHistoryMinutes;
+    // Start from the last cached data so the page is useful while the backend is unreachable.
+    const [store] = useState(() => {
+        const snapshot = loadSnapshot(printer.id);
+        return createDashboardStore(
+            initialDashboardState({ status: snapshot.status, statusAt: snapshot.statusAt, jobs: snapshot.jobs })
+        );
+    });
+
+    const applyStatus = useCallback(
+        (status: PrinterStatus) => {
+            const at = Date.now();
+            store.receiveStatus(status, at, historyMinutesRef.current);
+        },
+        [store]
+    );
+
+    // Saves the latest status now and then, and when the page is hidden or closed.
+    useEffect(() => {
+        let savedAt = store.getState().statusAt;
+        const saveStatus = () => {
+            const { status, statusAt } = store.getState();
+            if (statusAt === savedAt) return;
+            saveSnapshot(printer.id, { status, statusAt });
+            savedAt = statusAt;
+        };
+        const onVisibilityChange = () => {
+            if (document.visibilityState === "hidden") saveStatus();
+        };
+        const timer = setInterval(saveStatus, STATUS_SNAPSHOT_INTERVAL);
+        window.addEventListener("pagehide", saveStatus);
+        document.addEventListener("visibilitychange", onVisibilityChange);
+        return () => {
+            clearInterval(timer);
+            window.removeEventListener("pagehide", saveStatus);
+            document.removeEventListener("visibilitychange", onVisibilityChange);
+            saveStatus();
+        };
+    }, [store, printer.id]);
+
+    const applyJobs = useCallback(
+        (jobs: Job[]) => {
+            if (store.receiveJobs(jobs)) saveSnapshot(printer.id, { jobs: store.getState().jobs, jobsAt: Date.now() });
+        },
+        [store, printer.id]
+    );
+
+    const refreshStatus = useCallback(async () => {
+        try {
+            applyStatus(await api.getPrinterStatus());
+        } catch (error) {
+            console.error("Error fetching printer status:", error);
+        }
+    }, [api, applyStatus]);
+
+    const refreshJobs = useCallback(async () => {
+        try {
+            applyJobs(await api.getJobs());
+        } catch (error) {
+            console.error("Error fetching jobs:", error);
+        }
+    }, [api, applyJobs]);
+
+    const refreshQueue = useCallback(async () => {
+        try {
+            store.receiveQueue(await api.getQueue());
+        } catch (error) {
+            console.error("Error fetching job queue:", error);
+        }
+    }, [api, store]);
+
+    const refreshCommand = useCallback(async () => {
+        try {
+            store.receiveCommand(await api.getLastValidCommand());
+        } catch (error) {
+            console.error("Error fetching last valid command:", error);
+            store.receiveCommand("Error fetching command.");
+        }
+    }, [api, store]);
+
+    const refreshRatings = useCallback(async () => {
+        try {
+            store.receiveRatings(await api.getRatings());
+        } catch (error) {
+            console.error("Error fetching ratings:", error);
+        }
+    }, [api, store]);
+
+    useEffect(() => {
+        refreshRatings();
+    }, [refreshRatings]);
+
+    const sendCommand = useCallback(
+        async (command: () => Promise<void>, successMessage: string) => {
+            try {
+                await command();
+                notify({ severity: "success", message: successMessage });
+                refreshStatus();
+            } catch (error) {
+                console.error("Error sending command:", error);
+                notify({ severity: "error", message: `Command failed. ${describeError(error)}` });
+            }
+        },
+        [notify, refreshStatus]
+    );
+
+    const status = useStoreSelector(store, (state) => state.status);
+    const jobs = useStoreSelector(store, (state) => state.jobs);
+    const queue = useStoreSelector(store, (state) => state.queue);
+    const temperatures = useStoreSelector(store, (state) => state.temperatures);
+
+    // Include the queue so jobs are tracked from QUEUED onwards.
+    const trackedJobs = useMemo(() => uniqueJobs([...queue, ...jobs]), [queue, jobs]);
+    usePrinterEvents(printer, status, trackedJobs);
+
+    const thermalAlerts = useThermalAlerts(temperatures, !!status?.printing, async (alert) => {
+        const state = store.getState();
+        if (state.status?.paused) return;
+        try {
+            await api.pause(`auto-pause (${alert.ruleName})`);
+            refreshStatus();
+        } catch (error) {
+            console.error(`Error auto-pausing after "${alert.ruleName}":`, error);
+        }
+    });
+
+    const connection = useTelemetry(
+        api.telemetryUrl,
+        {
+            onStatus: applyStatus,
+            onJobs: applyJobs,
+            onCommand: store.receiveCommand,
+            onQueue: store.receiveQueue,
+        },
+        () => {
+            refreshStatus();
+            refreshJobs();
+            refreshCommand();
+            refreshQueue();
+        },
+        settings.refreshInterval
+    );
+
+    useEffect(() => store.setConnection(connection), [store, connection]);
+
+    const value = useMemo<DashboardContextValue>(
+        () => ({ printer, api, store, refreshStatus, refreshJobs, refreshQueue, refreshRatings, sendCommand }),
+        [printer, api, store, refreshStatus, refreshJobs, refreshQueue, refreshRatings, sendCommand]
+    );
+
+    return (
+        <DashboardContext.Provider value={value}>
+            <ThermalAlertsContext.Provider value={thermalAlerts}>{children}</ThermalAlertsContext.Provider>
+        </DashboardContext.Provider>
+    );
+};
+
+export const useDashboard = () => {
+    const context = useContext(DashboardContext);
+    if (!context) throw new Error("useDashboard must be used inside a DashboardProvider");
+    return context;
+};
+
+/**
+ * The part of the dashboard state picked by `selector`. The component only re-renders when that
+ * part changes, so selectors must return stored values or cached derivations (see selectors.ts).
+ */
+export const useDashboardStore = <T,>(selector: (state: DashboardState) => T) =>
+    useStoreSelector(useDashboard().store, selector);
+
+export const useDashboardAlerts = () => {
+    const context = useContext(ThermalAlertsContext);
+    if (!context) throw new Error("useDashboardAlerts must be used inside a DashboardProvider");
+    return context;
+};
@@ -0,0 +1,49 @@
+import {
+  addWidget, BUILT_IN_PRESETS, DashboardLayout, GRID_COLUMNS, hiddenWidgets, moveWidget, removeWidget, resizeWidget,
+  sanitizeLayout, WIDGET_IDS,
+} from './layout';
+
+const layout: DashboardLayout = [
+  { id: 'status', width: 4 },
+  { id: 'controls', width: 8 },
+  { id: 'queue', width: 12 },
+];
+
+const ids = (items: DashboardLayout) => items.map((item) => item.id);
+
+test('moves widgets forwards and backwards', () => {
+  expect(ids(moveWidget(layout, 'status', 2))).toEqual(['controls', 'queue', 'status']);
+  expect(ids(moveWidget(layout, 'queue', 0))).toEqual(['queue', 'status', 'controls']);
+  expect(ids(moveWidget(layout, 'status', 99))).toEqual(['controls', 'queue', 'status']);
+  expect(moveWidget(layout, 'camera', 0)).toBe(layout);
+});
+
+test('adds and removes widgets, tracking the hidden ones', () => {
+  const added = addWidget(layout, 'camera');
+
+  expect(added[3]).toEqual({ id: 'camera', width: 6 });
+  expect(addWidget(added, 'camera')).toBe(added);
+  expect(ids(removeWidget(added, 'controls'))).toEqual(['status', 'queue', 'camera']);
+  expect(hiddenWidgets(added)).not.toContain('camera');
+  expect(hiddenWidgets(added)).toHaveLength(WIDGET_IDS.length - 4);
+});
+
+test('keeps resized widgets within the grid', () => {
+  expect(resizeWidget(layout, 'status', { width: 20, height: 0.4 })[0]).toEqual({ id: 'status', width: GRID_COLUMNS, height: 2 });
+  expect(resizeWidget(layout, 'status', { width: 1.2, height: 7.6 })[0]).toEqual({ id: 'status', width: 3, height: 8 });
+  expect(resizeWidget([{ id: 'history', width: 6, height: 12 }], 'history', { width: 6 })[0]).toEqual({ id: 'history', width: 6 });
+});
+
+test('repairs stored layouts', () => {
+  const stored = [{ id: 'status', width: 40 }, { id: 'unknown', width: 6 }, { id: 'status', width: 6 }, { id: 'camera' }, 'junk'];
+
+  expect(sanitizeLayout(stored)).toEqual([{ id: 'status', width: 12 }, { id: 'camera', width: 6 }]);
+  expect(sanitizeLayout([])).toBeNull();
+  expect(sanitizeLayout({ status: 6 })).toBeNull();
+});
+
+test('built-in presets only use known widgets, each once', () => {
+  BUILT_IN_PRESETS.forEach((preset) => {
+    expect(sanitizeLayout(preset.layout)).toEqual(preset.layout);
+  });
+});
@@ -0,0 +1,153 @@
+export const WIDGET_IDS = [
+    "status",
+    "controls",
+    "alerts",
+    "temperature",
+    "metrics",
+    "recovery",
+    "twin",
+    "camera",
+    "queue",
+    "history",
+    "rating",
+] as const;
+
+export type WidgetId = (typeof WIDGET_IDS)[number];
+
+export const isWidgetId = (value: unknown): value is WidgetId => (WIDGET_IDS as readonly unknown[]).includes(value);
+
+export interface WidgetPlacement {
+    id: WidgetId;
+    // Columns of a GRID_COLUMNS wide grid.
+    width: number;
+    // In ROW_HEIGHT steps; widgets without a height grow with their content.
+    height?: number;
+}
+
+// Widgets in reading order; the grid fills gaps with later widgets where they fit.
+export type DashboardLayout = WidgetPlacement[];
+
+export interface LayoutPreset {
+    id: string;
+    name: string;
+    layout: DashboardLayout;
+    // Built-in presets can be applied but not deleted.
+    builtIn: boolean;
+}
+
+export const GRID_COLUMNS = 12;
+export const ROW_HEIGHT = 50;
+export const MIN_WIDTH = 3;
+const MIN_HEIGHT = 2;
+const MAX_HEIGHT = 30;
+const DEFAULT_WIDTH = 6;
+
+export const DEFAULT_LAYOUT: DashboardLayout = [
+    { id: "status", width: 6 },
+    { id: "queue", width: 6 },
+    { id: "controls", width: 6 },
+    { id: "history", width: 6, height: 12 },
+    { id: "alerts", width: 6 },
+    { id: "temperature", width: 6 },
+    { id: "rating", width: 6 },
+    { id: "metrics", width: 6 },
+    { id: "recovery", width: 6 },
+    { id: "twin", width: 6 },
+    { id: "camera", width: 6 },
+];
+
+export const BUILT_IN_PRESETS: LayoutPreset[] = [
+    { id: "default", name: "Default", builtIn: true, layout: DEFAULT_LAYOUT },
+    {
+        id: "operator",
+        name: "Operator",
+        builtIn: true,
+        layout: [
+            { id: "status", width: 4 },
+            { id: "controls", width: 8 },
+            { id: "metrics", width: 6 },
+            { id: "recovery", width: 6 },
+            { id: "alerts", width: 6 },
+            { id: "camera", width: 6 },
+            { id: "queue", width: 12 },
+        ],
+    },
+    {
+        id: "wall",
+        name: "Wall monitor",
+        builtIn: true,
+        layout: [
+            { id: "status", width: 3 },
+            { id: "metrics", width: 9 },
+            { id: "camera", width: 6 },
+            { id: "temperature", width: 6 },
+            { id: "alerts", width: 12 },
+        ],
+    },
+    {
+        id: "analysis",
+        name: "Analysis",
+        builtIn: true,
+        layout: [
+            { id: "temperature", width: 12 },
+            { id: "history", width: 8, height: 12 },
+            { id: "rating", width: 4 },
+            { id: "twin", width: 6 },
+            { id: "metrics", width: 6 },
+        ],
+    },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+/** Moves a widget to `index`, counted in the layout without the widget. */
+export const moveWidget = (layout: DashboardLayout, id: WidgetId, index: number): DashboardLayout => {
+    const placement = layout.find((item) => item.id === id);
+    if (!placement) return layout;
+    const rest = layout.filter((item) => item.id !== id);
+    const target = clamp(index, 0, rest.length);
+    return [...rest.slice(0, target), placement, ...rest.slice(target)];
+};
+
+export const addWidget = (layout: DashboardLayout, id: WidgetId): DashboardLayout =>
+    layout.some((item) => item.id === id) ? layout : [...layout, { id, width: DEFAULT_WIDTH }];
+
+export const removeWidget = (layout: DashboardLayout, id: WidgetId): DashboardLayout =>
+    layout.filter((item) => item.id !== id);
+
+/** Resizes within the grid limits; a height of undefined makes the widget fit its content again. */
+export const resizeWidget = (
+    layout: DashboardLayout,
+    id: WidgetId,
+    size: { width: number; height?: number }
+): DashboardLayout =>
+    layout.map((item) =>
+        item.id === id
+            ? {
+                id,
+                width: clamp(size.width, MIN_WIDTH, GRID_COLUMNS),
+                ...(size.height === undefined ? {} : { height: clamp(size.height, MIN_HEIGHT, MAX_HEIGHT) }),
+            }
+            : item
+    );
+
+export const hiddenWidgets = (layout: DashboardLayout): WidgetId[] =>
+    WIDGET_IDS.filter((id) => !layout.some((item) => item.id === id));
+
+export const sameLayout = (a: DashboardLayout, b: DashboardLayout) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * A layout read from storage, with unknown or repeated widgets dropped and sizes brought back
+ * within the grid limits. Returns null when there is nothing usable.
+ */
+export const sanitizeLayout = (value: unknown): DashboardLayout | null => {
+    if (!Array.isArray(value)) return null;
+    const layout = value.reduce<DashboardLayout>((result, item) => {
+        if (typeof item !== "object" || item === null || !isWidgetId(item.id)) return result;
+        if (result.some((placement) => placement.id === item.id)) return result;
+        const width = typeof item.width === "number" ? item.width : DEFAULT_WIDTH;
+        const height = typeof item.height === "number" ? item.height : undefined;
+        return resizeWidget([...result, { id: item.id, width }], item.id, { width, height });
+    }, []);
+    return layout.length > 0 ? layout : null;
+};
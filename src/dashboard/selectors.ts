@@ -0,0 +1,30 @@
+import { Job } from "../types";
+import { findActiveJob } from "../lifecycle/jobState";
+import { effectiveState, PRINTER_STATE_INFO } from "../lifecycle/printerState";
+import { sortNewestFirst } from "../jobs/history";
+import { DashboardState } from "./store";
+
+// Selectors must return the same value for unchanged state: useSyncExternalStore re-renders on
+// every new reference. Derived arrays are therefore cached per input array.
+const cachedBy = <K extends object, R>(compute: (key: K) => R) => {
+    const cache = new WeakMap<K, R>();
+    return (key: K): R => {
+        if (!cache.has(key)) cache.set(key, compute(key));
+        return cache.get(key) as R;
+    };
+};
+
+export const selectStatus = (state: DashboardState) => state.status;
+
+export const selectPrinterState = (state: DashboardState) => (state.status ? effectiveState(state.status) : null);
+
+export const selectStateInfo = (state: DashboardState) => {
+    const printerState = selectPrinterState(state);
+    return printerState ? PRINTER_STATE_INFO[printerState] : null;
+};
+
+// Live metrics follow the active job and reset once it reaches a final state.
+export const selectActiveJob = (state: DashboardState) => findActiveJob(state.jobs);
+
+const newestFirst = cachedBy((jobs: Job[]) => sortNewestFirst(jobs));
+export const selectHistory = (state: DashboardState) => newestFirst(state.jobs);
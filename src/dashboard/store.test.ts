@@ -0,0 +1,69 @@
+import { createDashboardStore } from './store';
+import { selectActiveJob, selectHistory, selectPrinterState } from './selectors';
+import { Job, PrinterStatus } from '../types';
+import { job } from '../testFixtures';
+
+const status = (overrides: Partial<PrinterStatus> = {}): PrinterStatus => ({
+  state: 'Printing', nozzle_temperature: 200, bed_temperature: 60, operational: true, printing: true, paused: false, ...overrides,
+});
+
+// Job n ran on March n.
+const dailyJob = (id: number, overrides: Partial<Job> = {}) =>
+  job(id, { start_time: `2025-03-0${id}T10:00:00Z`, end_time: `2025-03-0${id}T11:00:00Z`, ...overrides });
+
+test('records a temperature sample per status and drops samples older than the chart history', () => {
+  const store = createDashboardStore();
+
+  store.receiveStatus(status({ nozzle_temperature: 180 }), 0, 1);
+  store.receiveStatus(status({ nozzle_temperature: 190 }), 30000, 1);
+  store.receiveStatus(status({ nozzle_temperature: 200 }), 90000, 1);
+
+  const state = store.getState();
+  expect(state.status?.nozzle_temperature).toBe(200);
+  expect(state.statusAt).toBe(90000);
+  expect(state.temperatures.map((sample) => sample.nozzle)).toEqual([190, 200]);
+});
+
+test('keeps queued jobs out of the history and ignores unchanged job lists', () => {
+  const store = createDashboardStore();
+  const listener = jest.fn();
+  store.subscribe(listener);
+
+  expect(store.receiveJobs([dailyJob(1), dailyJob(2, { status: 'QUEUED' })])).toBe(true);
+  const jobs = store.getState().jobs;
+  expect(store.receiveJobs([dailyJob(1), dailyJob(2, { status: 'QUEUED' })])).toBe(false);
+
+  expect(jobs.map((item) => item.id)).toEqual([1]);
+  expect(store.getState().jobs).toBe(jobs);
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+test('only notifies subscribers of actual changes', () => {
+  const store = createDashboardStore();
+  const listener = jest.fn();
+  const unsubscribe = store.subscribe(listener);
+
+  store.receiveCommand('G1 X10');
+  store.receiveCommand('G1 X10');
+  store.receiveQueue([]);
+  store.setConnection('connecting');
+  expect(listener).toHaveBeenCalledTimes(1);
+
+  unsubscribe();
+  store.receiveCommand('G1 X20');
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+test('selectors keep returning the same values until their inputs change', () => {
+  const store = createDashboardStore();
+  store.receiveJobs([dailyJob(1), dailyJob(3, { status: 'STARTED', end_time: null }), dailyJob(2)]);
+  const history = selectHistory(store.getState());
+
+  store.receiveCommand('G1 X10');
+  store.receiveStatus(status({ paused: true }), 1000, 10);
+
+  expect(selectHistory(store.getState())).toBe(history);
+  expect(history.map((item) => item.id)).toEqual([3, 2, 1]);
+  expect(selectActiveJob(store.getState())?.id).toBe(3);
+  expect(selectPrinterState(store.getState())).toBe('Paused');
+});
@@ -0,0 +1,104 @@
+import { Job, JobRating, PrinterStatus, TemperatureSample } from "../types";
+import { ConnectionState } from "../hooks/useTelemetry";
+import { sameJobs } from "../jobs/history";
+
+/** Everything the dashboard widgets show for one printer. */
+export interface DashboardState {
+    status: PrinterStatus | null;
+    statusAt: number | null;
+    // All known jobs except queued ones, in the order the backend sent them.
+    jobs: Job[];
+    queue: Job[];
+    lastValidCommand: string | null;
+    temperatures: TemperatureSample[];
+    ratings: Map<number, JobRating>;
+    connection: ConnectionState;
+}
+
+type Listener = () => void;
+
+export interface DashboardStore {
+    getState: () => DashboardState;
+    subscribe: (listener: Listener) => () => void;
+    receiveStatus: (status: PrinterStatus, at: number, historyMinutes: number) => void;
+    // Returns whether the job list changed.
+    receiveJobs: (jobs: Job[]) => boolean;
+    receiveQueue: (queue: Job[]) => void;
+    receiveCommand: (command: string | null) => void;
+    receiveRatings: (ratings: JobRating[]) => void;
+    setConnection: (connection: ConnectionState) => void;
+}
+
+export const initialDashboardState = (overrides: Partial<DashboardState> = {}): DashboardState => ({
+    status: null,
+    statusAt: null,
+    jobs: [],
+    queue: [],
+    lastValidCommand: null,
+    temperatures: [],
+    ratings: new Map(),
+    connection: "connecting",
+    ...overrides,
+});
+
+/**
+ * Holds the dashboard data outside React so widgets can subscribe to just the parts they show.
+ * Updates replace only the changed fields and keep unchanged ones by reference, and listeners are
+ * only called when something actually changed.
+ */
+export const createDashboardStore = (initial: DashboardState = initialDashboardState()): DashboardStore => {
+    let state = initial;
+    const listeners = new Set<Listener>();
+
+    const update = (changes: Partial<DashboardState>) => {
+        const changed = (Object.keys(changes) as (keyof DashboardState)[]).some((key) => changes[key] !== state[key]);
+        if (!changed) return false;
+        state = { ...state, ...changes };
+        listeners.forEach((listener) => listener());
+        return true;
+    };
+
+    return {
+        getState: () => state,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        receiveStatus: (status, at, historyMinutes) => {
+            const cutoff = at - historyMinutes * 60 * 1000;
+            update({
+                status,
+                statusAt: at,
+                temperatures: [
+                    ...state.temperatures.filter((sample) => sample.timestamp >= cutoff),
+                    {
+                        timestamp: at,
+                        nozzle: status.nozzle_temperature,
+                        bed: status.bed_temperature,
+                        nozzleTarget: status.nozzle_target,
+                        bedTarget: status.bed_target,
+                    },
+                ],
+            });
+        },
+        receiveJobs: (jobs) => {
+            // Queued jobs are shown in the queue panel, not the history
+            const history = jobs.filter((job) => job.status !== "QUEUED");
+            return !sameJobs(state.jobs, history) && update({ jobs: history });
+        },
+        receiveQueue: (queue) => {
+            if (!sameJobs(state.queue, queue)) update({ queue });
+        },
+        receiveCommand: (lastValidCommand) => {
+            update({ lastValidCommand });
+        },
+        receiveRatings: (ratings) => {
+            update({ ratings: new Map(ratings.map((rating) => [rating.jobId, rating])) });
+        },
+        setConnection: (connection) => {
+            update({ connection });
+        },
+    };
+};
@@ -0,0 +1,114 @@
+import { exportFileName, jobHistoryCsv, jobHistoryJson, temperatureCsv, toCsv } from './tabular';
+import { keySnapshots, buildJobReport, temperatureChartSvg } from './report';
+import { JobRating } from '../types';
+import { job } from '../testFixtures';
+
+const printed = (id: number, fileName: string) =>
+  job(id, {
+    file_name: fileName, start_time: '2025-03-10T10:00:00Z', end_time: '2025-03-10T11:00:00Z',
+    filament_used: 1234.5, progress: 100, estimated_completion_time: 3300,
+  });
+
+const rating: JobRating = {
+  jobId: 1, printQuality: 8, printSpeed: 6, feedback: 'Good, but "stringy"', defects: ['stringing', 'warping'], photo: null,
+};
+
+const samples = [
+  { timestamp: Date.parse('2025-03-10T10:00:00Z'), nozzle: 25, bed: 24, nozzleTarget: 215, bedTarget: 60 },
+  { timestamp: Date.parse('2025-03-10T10:00:05Z'), nozzle: 120.5, bed: 40 },
+];
+
+test('quotes CSV fields with separators, quotes and line breaks', () => {
+  expect(toCsv(['a', 'b'], [['x,y', 'say "hi"'], ['line\nbreak', null]])).toBe(
+    'a,b\r\n"x,y","say ""hi"""\r\n"line\nbreak",\r\n'
+  );
+});
+
+test('keeps spreadsheets from running text as formulas', () => {
+  expect(toCsv(['file', 'note', 'offset'], [['=HYPERLINK("http://x")', '@SUM(A1)', -5], ['+1', '-', 'a=b']])).toBe(
+    'file,note,offset\r\n"\'=HYPERLINK(""http://x"")",\'@SUM(A1),-5\r\n\'+1,\'-,a=b\r\n'
+  );
+});
+
+test('flattens ratings into the job history CSV', () => {
+  const [header, rated, unrated] = jobHistoryCsv([printed(1, 'cube.gcode'), printed(2, 'benchy.gcode')], new Map([[1, rating]]))
+    .trim()
+    .split('\r\n');
+
+  expect(header.split(',')).toContain('print_quality');
+  expect(rated).toBe(
+    '1,cube.gcode,FINISHED,2025-03-10T10:00:00Z,2025-03-10T11:00:00Z,100,1234.5,3300,8,6,stringing; warping,"Good, but ""stringy"""'
+  );
+  expect(unrated.endsWith(',3300,,,,')).toBe(true);
+});
+
+test('nests ratings in the job history JSON', () => {
+  const [rated, unrated] = JSON.parse(jobHistoryJson([printed(1, 'cube.gcode'), printed(2, 'benchy.gcode')], new Map([[1, rating]])));
+
+  expect(rated.rating.defects).toEqual(['stringing', 'warping']);
+  expect(unrated.rating).toBeNull();
+});
+
+test('exports temperatures in °C with ISO timestamps', () => {
+  expect(temperatureCsv(samples)).toBe(
+    'timestamp,nozzle_c,nozzle_target_c,bed_c,bed_target_c\r\n' +
+    '2025-03-10T10:00:00.000Z,25,215,24,60\r\n' +
+    '2025-03-10T10:00:05.000Z,120.5,,40,\r\n'
+  );
+});
+
+test('builds dated, file-system safe export names', () => {
+  expect(exportFileName(['prusa mk3', 'jobs'], 'csv', new Date(2025, 2, 9))).toBe('prusa-mk3_jobs_2025-03-09.csv');
+});
+
+test('picks evenly spaced key snapshots', () => {
+  expect(keySnapshots([1, 2, 3], 4)).toEqual([1, 2, 3]);
+  expect(keySnapshots([0, 1, 2, 3, 4, 5, 6, 7, 8, 9], 4)).toEqual([0, 3, 6, 9]);
+});
+
+test('charts temperatures in the display unit', () => {
+  const svg = temperatureChartSvg(samples, 'fahrenheit');
+
+  expect(svg).toContain('<svg');
+  expect(svg.match(/<polyline/g)).toHaveLength(2);
+  expect(svg).toContain('°F');
+  expect(temperatureChartSvg(samples.slice(0, 1), 'celsius')).toContain('No temperature history');
+});
+
+test('charts and reports jobs with hundreds of thousands of samples', () => {
+  const start = Date.parse('2025-03-10T10:00:00Z');
+  const long = Array.from({ length: 200000 }, (_, i) => ({ timestamp: start + i * 1000, nozzle: 200 + (i % 20), bed: 60 }));
+
+  expect(temperatureChartSvg(long, 'celsius')).toContain('<svg');
+  const report = buildJobReport({
+    printer: { id: 'p1', name: 'Prusa MK3', baseUrl: 'http://printer.test', cameras: [] },
+    job: printed(1, 'long.gcode'),
+    rating: null,
+    events: [],
+    temperatures: long,
+    photos: [],
+    unit: 'celsius',
+    generatedAt: new Date('2025-03-13T12:00:00Z'),
+  });
+  expect(report).toContain('Peak Nozzle</th><td>219°C');
+});
+
+test('renders a self-contained, escaped job report', () => {
+  const report = buildJobReport({
+    printer: { id: 'p1', name: 'Prusa <MK3>', baseUrl: 'http://printer.test', cameras: [] },
+    job: printed(1, 'cube.gcode'),
+    rating,
+    events: [{ timestamp: '2025-03-10T10:30:00Z', type: 'recovery', message: 'Resumed from line 42.' }],
+    temperatures: samples,
+    photos: [{ name: '1741600800.png', timestamp: new Date(1741600800000), type: 'image/png', data: new Uint8Array([137, 80, 78, 71]) }],
+    unit: 'celsius',
+    generatedAt: new Date('2025-03-10T12:00:00Z'),
+  });
+
+  expect(report).toContain('Prusa &lt;MK3&gt;');
+  expect(report).toContain('1234.50 mm');
+  expect(report).toContain('Peak Nozzle</th><td>120.5°C');
+  expect(report).toContain('Good, but &quot;stringy&quot;');
+  expect(report).toContain('Resumed from line 42.');
+  expect(report).toContain('src="data:image/png;base64,iVBORw=="');
+});
@@ -0,0 +1,180 @@
+import { Job, JobEvent, JobRating, Printer, TemperatureSample } from "../types";
+import { Photo } from "../media/photos";
+import { jobDurations } from "../jobs/history";
+import { formatDuration } from "../utils/format";
+import { formatTemperature, TemperatureUnit, toDisplayTemperature, UNIT_SYMBOLS } from "../config/settings";
+
+export interface JobReportData {
+    printer: Printer;
+    job: Job;
+    rating: JobRating | null;
+    events: JobEvent[];
+    temperatures: TemperatureSample[];
+    // Oldest first; only a few are included, see keySnapshots.
+    photos: Photo[];
+    unit: TemperatureUnit;
+    generatedAt: Date;
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char] as string);
+
+const formatDate = (value: string | number | null | undefined) =>
+    value === null || value === undefined || value === "" ? "—" : new Date(value).toLocaleString();
+
+const toDataUrl = (photo: Photo) => {
+    // btoa needs a binary string; build it in chunks to stay clear of argument limits.
+    let binary = "";
+    for (let i = 0; i < photo.data.length; i += 0x8000) {
+        binary += String.fromCharCode(...Array.from(photo.data.subarray(i, i + 0x8000)));
+    }
+    return `data:${photo.type};base64,${btoa(binary)}`;
+};
+
+/** Up to `count` photos spread evenly over the job, always including the first and last. */
+export const keySnapshots = <T>(photos: T[], count = 4): T[] => {
+    if (photos.length <= count) return photos;
+    if (count === 1) return [photos[photos.length - 1]];
+    return Array.from({ length: count }, (_, i) => photos[Math.round((i * (photos.length - 1)) / (count - 1))]);
+};
+
+const CHART_SERIES: { value: (sample: TemperatureSample) => number | undefined; color: string; dashed: boolean }[] = [
+    { value: (sample) => sample.nozzle, color: "red", dashed: false },
+    { value: (sample) => sample.nozzleTarget, color: "red", dashed: true },
+    { value: (sample) => sample.bed, color: "blue", dashed: false },
+    { value: (sample) => sample.bedTarget, color: "blue", dashed: true },
+];
+
+/**
+ * The temperature series as a static SVG line chart. Unlike the live canvas chart it needs no
+ * script, so it survives printing and "Save as PDF".
+ */
+export const temperatureChartSvg = (samples: TemperatureSample[], unit: TemperatureUnit, width = 720, height = 240) => {
+    if (samples.length < 2) return "<p><em>No temperature history recorded for this job.</em></p>";
+
+    const margin = { left: 48, right: 8, top: 8, bottom: 24 };
+    const start = samples[0].timestamp;
+    const end = samples[samples.length - 1].timestamp;
+    const values = samples.flatMap((sample) =>
+        CHART_SERIES.map((series) => series.value(sample)).filter((value): value is number => value !== undefined)
+    );
+    // Reduced rather than spread: long jobs have more samples than a call can take arguments.
+    const low = toDisplayTemperature(values.reduce((min, value) => Math.min(min, value), 0), unit);
+    const high = toDisplayTemperature(values.reduce((max, value) => Math.max(max, value), -Infinity), unit) * 1.05 || 1;
+
+    const x = (time: number) => margin.left + ((time - start) / (end - start || 1)) * (width - margin.left - margin.right);
+    const y = (celsius: number) =>
+        height - margin.bottom - ((toDisplayTemperature(celsius, unit) - low) / (high - low)) * (height - margin.top - margin.bottom);
+
+    const lines = CHART_SERIES.map(({ value, color, dashed }) => {
+        const points = samples.flatMap((sample) => {
+            const reading = value(sample);
+            return reading === undefined ? [] : [`${x(sample.timestamp).toFixed(1)},${y(reading).toFixed(1)}`];
+        });
+        return points.length > 1
+            ? `<polyline fill="none" stroke="${color}" stroke-width="${dashed ? 1 : 2}"${dashed ? ' stroke-dasharray="6 4"' : ""} points="${points.join(" ")}"/>`
+            : "";
+    }).join("");
+
+    const symbol = UNIT_SYMBOLS[unit];
+    const bottom = height - margin.bottom;
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Temperature chart">`,
+        `<line x1="${margin.left}" y1="${margin.top}" x2="${margin.left}" y2="${bottom}" stroke="#999"/>`,
+        `<line x1="${margin.left}" y1="${bottom}" x2="${width - margin.right}" y2="${bottom}" stroke="#999"/>`,
+        `<text x="${margin.left - 4}" y="${margin.top + 10}" font-size="11" text-anchor="end">${Math.round(high)}${symbol}</text>`,
+        `<text x="${margin.left - 4}" y="${bottom}" font-size="11" text-anchor="end">${Math.round(low)}${symbol}</text>`,
+        `<text x="${margin.left}" y="${height - 6}" font-size="11">${escapeHtml(new Date(start).toLocaleTimeString())}</text>`,
+        `<text x="${width - margin.right}" y="${height - 6}" font-size="11" text-anchor="end">${escapeHtml(new Date(end).toLocaleTimeString())}</text>`,
+        lines,
+        "</svg>",
+    ].join("");
+};
+
+const table = (rows: [string, string][]) =>
+    `<table>${rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join("")}</table>`;
+
+const REPORT_STYLE = `
+body { font-family: Arial, sans-serif; margin: 24px; color: #222; }
+h1 { margin-bottom: 0; }
+h2 { border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 24px; }
+table { border-collapse: collapse; }
+th { text-align: left; padding: 2px 16px 2px 0; vertical-align: top; }
+td { padding: 2px 0; }
+.muted { color: #666; }
+.photos { display: flex; flex-wrap: wrap; gap: 8px; }
+.photos figure { margin: 0; width: 170px; }
+.photos img { width: 100%; border: 1px solid #ccc; }
+.photos figcaption { font-size: 11px; color: #666; }
+section { break-inside: avoid; }
+@media print { body { margin: 0; } }
+`;
+
+/**
+ * A self-contained HTML report for one job: metadata, temperature chart, filament use, rating,
+ * events and key snapshots. Images are inlined so the file can be archived or printed to PDF.
+ */
+export const buildJobReport = ({ printer, job, rating, events, temperatures, photos, unit, generatedAt }: JobReportData) => {
+    const { actual, estimated } = jobDurations(job, generatedAt.getTime());
+    const peak = (value: (sample: TemperatureSample) => number) =>
+        temperatures.length > 0
+            ? formatTemperature(temperatures.reduce((max, sample) => Math.max(max, value(sample)), -Infinity), unit)
+            : "—";
+
+    const details = table([
+        ["Printer", printer.name],
+        ["Job ID", String(job.id)],
+        ["File", job.file_name],
+        ["Status", job.status],
+        ["Started", formatDate(job.start_time)],
+        ["Ended", formatDate(job.end_time)],
+        ["Progress", job.progress !== undefined ? `${job.progress.toFixed(1)}%` : "N/A"],
+        ["Estimated Duration", formatDuration(estimated)],
+        [job.end_time ? "Actual Duration" : "Elapsed", formatDuration(actual)],
+        ["Filament Used", job.filament_used !== undefined ? `${job.filament_used.toFixed(2)} mm` : "N/A"],
+        ["Peak Nozzle", peak((sample) => sample.nozzle)],
+        ["Peak Bed", peak((sample) => sample.bed)],
+    ]);
+
+    const ratingSection = rating
+        ? table([
+            ["Print Quality", `${rating.printQuality} / 10`],
+            ["Print Speed", `${rating.printSpeed} / 10`],
+            ["Defects", rating.defects.length > 0 ? rating.defects.join(", ") : "None"],
+            ["Feedback", rating.feedback || "—"],
+        ])
+        : `<p class="muted">This job hasn't been rated.</p>`;
+
+    const eventSection = events.length > 0
+        ? `<ul>${events.map((event) => `<li>${escapeHtml(formatDate(event.timestamp))} [${escapeHtml(event.type)}] ${escapeHtml(event.message)}</li>`).join("")}</ul>`
+        : `<p class="muted">No events recorded.</p>`;
+
+    const snapshots = keySnapshots(photos);
+    const photoSection = snapshots.length > 0
+        ? `<div class="photos">${snapshots
+            .map(
+                (photo) =>
+                    `<figure><img src="${toDataUrl(photo)}" alt="${escapeHtml(photo.name)}"/><figcaption>${escapeHtml(photo.timestamp.toLocaleString())}</figcaption></figure>`
+            )
+            .join("")}</div>`
+        : `<p class="muted">No snapshots available.</p>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(`Job ${job.id} report – ${job.file_name}`)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>Job ${job.id}: ${escapeHtml(job.file_name)}</h1>
+<p class="muted">${escapeHtml(printer.name)} · generated ${escapeHtml(generatedAt.toLocaleString())}</p>
+<section><h2>Details</h2>${details}</section>
+<section><h2>Temperatures</h2>${temperatureChartSvg(temperatures, unit)}</section>
+<section><h2>Rating</h2>${ratingSection}</section>
+<section><h2>Events</h2>${eventSection}</section>
+<section><h2>Snapshots</h2>${photoSection}</section>
+</body>
+</html>
+`;
+};
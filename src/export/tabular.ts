@@ -0,0 +1,96 @@
+import { Job, JobRating, TemperatureSample } from "../types";
+
+export type ExportFormat = "csv" | "json";
+
+export const EXPORT_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv",
+    json: "application/json",
+};
+
+type Cell = string | number | boolean | null | undefined;
+
+// Quotes a field when it contains a separator, quote or line break (RFC 4180). Text that a
+// spreadsheet would run as a formula, like a file named "=HYPERLINK(...)", gets a leading '.
+const csvCell = (value: Cell) => {
+    if (value === null || value === undefined) return "";
+    const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (columns: string[], rows: Cell[][]) =>
+    [columns, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+
+export interface JobRecord extends Job {
+    rating: JobRating | null;
+}
+
+export const jobRecords = (jobs: Job[], ratings: Map<number, JobRating>): JobRecord[] =>
+    jobs.map((job) => ({ ...job, rating: ratings.get(job.id) ?? null }));
+
+const JOB_COLUMNS = [
+    "id",
+    "file_name",
+    "status",
+    "start_time",
+    "end_time",
+    "progress",
+    "filament_used_mm",
+    "estimated_seconds",
+    "print_quality",
+    "print_speed",
+    "defects",
+    "feedback",
+];
+
+/** One row per job with its rating flattened in; unrated jobs leave the rating columns empty. */
+export const jobHistoryCsv = (jobs: Job[], ratings: Map<number, JobRating>) =>
+    toCsv(
+        JOB_COLUMNS,
+        jobRecords(jobs, ratings).map(({ rating, ...job }) => [
+            job.id,
+            job.file_name,
+            job.status,
+            job.start_time,
+            job.end_time,
+            job.progress,
+            job.filament_used,
+            job.estimated_completion_time,
+            rating?.printQuality,
+            rating?.printSpeed,
+            rating?.defects.join("; "),
+            rating?.feedback,
+        ])
+    );
+
+export const jobHistoryJson = (jobs: Job[], ratings: Map<number, JobRating>) =>
+    JSON.stringify(jobRecords(jobs, ratings), null, 2);
+
+// Exports always use °C, whatever the display unit, so files from different users can be combined.
+const TEMPERATURE_COLUMNS = ["timestamp", "nozzle_c", "nozzle_target_c", "bed_c", "bed_target_c"];
+
+export const temperatureCsv = (samples: TemperatureSample[]) =>
+    toCsv(
+        TEMPERATURE_COLUMNS,
+        samples.map((sample) => [
+            new Date(sample.timestamp).toISOString(),
+            sample.nozzle,
+            sample.nozzleTarget,
+            sample.bed,
+            sample.bedTarget,
+        ])
+    );
+
+export const temperatureJson = (samples: TemperatureSample[]) =>
+    JSON.stringify(
+        samples.map((sample) => ({ ...sample, timestamp: new Date(sample.timestamp).toISOString() })),
+        null,
+        2
+    );
+
+/** e.g. "prusa-mk3_jobs_2025-03-10.csv", dated in local time like the rest of the UI. */
+export const exportFileName = (parts: (string | number)[], format: string, date = new Date()) => {
+    const day = [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+        .map((value) => String(value).padStart(2, "0"))
+        .join("-");
+    return `${[...parts, day].join("_").replace(/[^\w.-]+/g, "-")}.${format}`;
+};
@@ -0,0 +1,55 @@
+import { findCurrentLine, findLayerAtLine, machineStateAtLine, parseGcode } from './parser';
+
+const SAMPLE = [
+  'G28 ; home',
+  'G90',
+  'M82',
+  'G1 Z0.2 F3000',
+  'G1 X10 Y10',
+  'G1 X20 Y10 E1',
+  'G1 X20 Y20 E2',
+  'G1 Z0.6 ; hop',
+  'G1 X10 Y10',
+  'G1 Z0.4',
+  'G1 X20 Y10 E3',
+  'G1 X20 Y20 E4',
+].join('\n');
+
+test('splits extrusion moves into layers by Z', () => {
+  const parsed = parseGcode(SAMPLE);
+
+  expect(parsed.layers.map((layer) => layer.z)).toEqual([0.2, 0.4]);
+  expect(parsed.layers[0].moves.filter((move) => move.extrude)).toHaveLength(2);
+  expect(parsed.bounds).toEqual({ minX: 10, maxX: 20, minY: 10, maxY: 20 });
+});
+
+test('handles relative positioning and extrusion', () => {
+  const parsed = parseGcode(['G91', 'G1 Z0.2', 'G1 X5 E1', 'G1 X5 E1'].join('\n'));
+
+  expect(parsed.layers).toHaveLength(1);
+  expect(parsed.layers[0].moves[1]).toMatchObject({ fromX: 5, toX: 10, extrude: true });
+});
+
+test('homes only the axes named after G28', () => {
+  const lines = ['G1 X10 Y20 Z5', 'G28 X', 'G28 Y0 Z', 'G1 X10 Y20 Z5', 'G28'];
+
+  expect(machineStateAtLine(lines, 1).position).toMatchObject({ X: 0, Y: 20, Z: 5 });
+  expect(machineStateAtLine(lines, 2).position).toMatchObject({ X: 0, Y: 0, Z: 0 });
+  expect(machineStateAtLine(lines, 4).position).toMatchObject({ X: 0, Y: 0, Z: 0 });
+});
+
+test('sets positions with G92, all of them to zero without axes', () => {
+  const lines = ['G1 X10 Y20 Z5 E3', 'G92 E0', 'G92 X1', 'G92'];
+
+  expect(machineStateAtLine(lines, 1).position).toMatchObject({ X: 10, Y: 20, Z: 5, E: 0 });
+  expect(machineStateAtLine(lines, 2).position).toMatchObject({ X: 1, Y: 20, Z: 5, E: 0 });
+  expect(machineStateAtLine(lines, 3).position).toMatchObject({ X: 0, Y: 0, Z: 0, E: 0 });
+});
+
+test('locates the live line from progress and the last command', () => {
+  const parsed = parseGcode(SAMPLE);
+  const line = findCurrentLine(parsed.lines, 80, 'G1 X20 Y10 E3');
+
+  expect(line).toBe(10);
+  expect(findLayerAtLine(parsed, line)).toBe(1);
+});
@@ -0,0 +1,257 @@
+export interface GcodeMove {
+    fromX: number;
+    fromY: number;
+    toX: number;
+    toY: number;
+    extrude: boolean;
+    line: number; // zero-based index into the file's lines
+}
+
+export interface GcodeLayer {
+    index: number;
+    z: number;
+    moves: GcodeMove[];
+    startLine: number;
+    endLine: number;
+}
+
+export interface ParsedGcode {
+    lines: string[];
+    layers: GcodeLayer[];
+    bounds: { minX: number; maxX: number; minY: number; maxY: number };
+}
+
+const stripComment = (line: string) => {
+    const index = line.indexOf(";");
+    return (index === -1 ? line : line.slice(0, index)).trim();
+};
+
+const readWords = (code: string) => {
+    const words: Record<string, number> = {};
+    code.split(/\s+/).slice(1).forEach((word) => {
+        const value = parseFloat(word.slice(1));
+        if (word.length > 1 && !Number.isNaN(value)) words[word[0].toUpperCase()] = value;
+    });
+    return words;
+};
+
+export interface MachineState {
+    position: { X: number; Y: number; Z: number; E: number };
+    feedRate: number | null; // mm/min
+    nozzleTarget: number | null;
+    bedTarget: number | null;
+    fanSpeed: number; // 0-255
+    relative: boolean;
+    relativeExtrusion: boolean;
+    scale: number;
+}
+
+export const createMachineState = (): MachineState => ({
+    position: { X: 0, Y: 0, Z: 0, E: 0 },
+    feedRate: null,
+    nozzleTarget: null,
+    bedTarget: null,
+    fanSpeed: 0,
+    relative: false,
+    relativeExtrusion: false,
+    scale: 1,
+});
+
+/**
+ * Applies one line of G-code to `state`. Returns the position before the line when it was a move.
+ *
+ * Supports absolute/relative positioning (G90/G91, M82/M83), G92 resets, G28 homing, inch units,
+ * temperature (M104/M109/M140/M190) and fan (M106/M107) commands. Arcs (G2/G3) are treated as
+ * straight moves to their end point.
+ */
+export const applyLine = (state: MachineState, line: string) => {
+    const code = stripComment(line);
+    if (!code) return null;
+
+    const command = code.split(/\s+/)[0].toUpperCase();
+    const words = readWords(code);
+    const { position } = state;
+
+    switch (command) {
+        case "G90":
+            state.relative = false;
+            state.relativeExtrusion = false;
+            return null;
+        case "G91":
+            state.relative = true;
+            state.relativeExtrusion = true;
+            return null;
+        case "M82":
+            state.relativeExtrusion = false;
+            return null;
+        case "M83":
+            state.relativeExtrusion = true;
+            return null;
+        case "G20":
+            state.scale = 25.4;
+            return null;
+        case "G21":
+            state.scale = 1;
+            return null;
+        case "G92": {
+            const axes = ["X", "Y", "Z", "E"] as const;
+            // A bare G92 sets every axis to zero.
+            const bare = axes.every((axis) => words[axis] === undefined);
+            axes.forEach((axis) => {
+                if (bare) position[axis] = 0;
+                else if (words[axis] !== undefined) position[axis] = words[axis] * state.scale;
+            });
+            return null;
+        }
+        case "G28": {
+            // Axes are usually named without a value ("G28 X Y"), so readWords doesn't see them.
+            const named = code.split(/\s+/).slice(1).map((word) => word[0].toUpperCase());
+            const axes = (["X", "Y", "Z"] as const).filter((axis) => named.includes(axis));
+            (axes.length > 0 ? axes : (["X", "Y", "Z"] as const)).forEach((axis) => {
+                position[axis] = 0;
+            });
+            return null;
+        }
+        case "M104":
+        case "M109":
+            if (words.S !== undefined) state.nozzleTarget = words.S;
+            return null;
+        case "M140":
+        case "M190":
+            if (words.S !== undefined) state.bedTarget = words.S;
+            return null;
+        case "M106":
+            state.fanSpeed = words.S ?? 255;
+            return null;
+        case "M107":
+            state.fanSpeed = 0;
+            return null;
+        case "G0":
+        case "G1":
+        case "G2":
+        case "G3":
+            break;
+        default:
+            return null;
+    }
+
+    const previous = { ...position };
+    (["X", "Y", "Z"] as const).forEach((axis) => {
+        if (words[axis] !== undefined) position[axis] = (state.relative ? previous[axis] : 0) + words[axis] * state.scale;
+    });
+    if (words.E !== undefined) position.E = (state.relativeExtrusion ? previous.E : 0) + words.E * state.scale;
+    if (words.F !== undefined) state.feedRate = words.F * state.scale;
+
+    return previous;
+};
+
+/**
+ * Runs the file up to and including `line` and returns the machine state the printer would be in.
+ */
+export const machineStateAtLine = (lines: string[], line: number) => {
+    const state = createMachineState();
+    for (let index = 0; index <= Math.min(line, lines.length - 1); index++) {
+        applyLine(state, lines[index]);
+    }
+    return state;
+};
+
+/**
+ * Parses G-code into printable layers of XY moves. A new layer starts at the first extrusion on a
+ * higher Z, so Z-hops during travel do not create empty layers.
+ */
+export const parseGcode = (text: string): ParsedGcode => {
+    const lines = text.split(/\r?\n/);
+    const layers: GcodeLayer[] = [];
+    const bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+
+    const state = createMachineState();
+    let pendingTravel: GcodeMove[] = [];
+
+    lines.forEach((rawLine, lineIndex) => {
+        const previous = applyLine(state, rawLine);
+        if (!previous) return;
+
+        const next = state.position;
+        const moved = next.X !== previous.X || next.Y !== previous.Y;
+        if (!moved) return;
+
+        const extrude = next.E > previous.E;
+        const move: GcodeMove = {
+            fromX: previous.X,
+            fromY: previous.Y,
+            toX: next.X,
+            toY: next.Y,
+            extrude,
+            line: lineIndex,
+        };
+
+        if (!extrude) {
+            pendingTravel.push(move);
+            return;
+        }
+
+        let layer = layers[layers.length - 1];
+        if (!layer || next.Z > layer.z) {
+            layer = { index: layers.length, z: next.Z, moves: [], startLine: lineIndex, endLine: lineIndex };
+            layers.push(layer);
+        }
+
+        // Travel leading up to the first extrusion belongs to the layer it travels into.
+        layer.moves.push(...pendingTravel, move);
+        pendingTravel = [];
+        layer.endLine = lineIndex;
+        bounds.minX = Math.min(bounds.minX, move.fromX, move.toX);
+        bounds.maxX = Math.max(bounds.maxX, move.fromX, move.toX);
+        bounds.minY = Math.min(bounds.minY, move.fromY, move.toY);
+        bounds.maxY = Math.max(bounds.maxY, move.fromY, move.toY);
+    });
+
+    if (layers.length === 0) {
+        Object.assign(bounds, { minX: 0, maxX: 0, minY: 0, maxY: 0 });
+    }
+
+    return { lines, layers, bounds };
+};
+
+/**
+ * Estimates which file line the printer is executing. Progress narrows the search to a window and
+ * the last reported command picks the exact line within it, since commands repeat across a file.
+ */
+export const findCurrentLine = (lines: string[], progress: number, lastCommand?: string | null) => {
+    const lineCount = lines.length;
+    const estimate = Math.min(lineCount - 1, Math.max(0, Math.round((progress / 100) * (lineCount - 1))));
+    const command = lastCommand ? stripComment(lastCommand) : "";
+    if (!command) return estimate;
+
+    const searchRadius = Math.max(200, Math.round(lineCount * 0.05));
+    for (let offset = 0; offset <= searchRadius; offset++) {
+        for (const candidate of [estimate - offset, estimate + offset]) {
+            if (candidate >= 0 && candidate < lineCount && stripComment(lines[candidate]) === command) {
+                return candidate;
+            }
+        }
+    }
+    return estimate;
+};
+
+export const findLayerAtLine = (parsed: ParsedGcode, line: number) => {
+    const index = parsed.layers.findIndex((layer) => line <= layer.endLine);
+    return index === -1 ? parsed.layers.length - 1 : index;
+};
+
+/**
+ * Reads the absolute target of a single move command, e.g. "G1 X20 Y10 E3" -> { X: 20, Y: 10 }.
+ * Returns an empty object for anything that isn't a move.
+ */
+export const readMoveTarget = (command: string): Partial<Record<"X" | "Y" | "Z", number>> => {
+    const code = stripComment(command);
+    if (!/^G[0-3]$/i.test(code.split(/\s+/)[0])) return {};
+
+    const words = readWords(code);
+    const target: Partial<Record<"X" | "Y" | "Z", number>> = {};
+    (["X", "Y", "Z"] as const).forEach((axis) => {
+        if (words[axis] !== undefined) target[axis] = words[axis];
+    });
+    return target;
+};
@@ -0,0 +1,16 @@
+import { validateGcodeCommand } from './validate';
+
+test('accepts well-formed commands', () => {
+  expect(validateGcodeCommand('G1 X10.5 Y-3 E0.2 F1800')).toBeNull();
+  expect(validateGcodeCommand('M104 S210 ; reheat')).toBeNull();
+  expect(validateGcodeCommand('G28')).toBeNull();
+});
+
+test('rejects malformed commands', () => {
+  expect(validateGcodeCommand('X10 Y10')).toMatch(/must start with/);
+  expect(validateGcodeCommand('G1 X1a')).toMatch(/Invalid parameter/);
+  expect(validateGcodeCommand('G1 X1 X2')).toMatch(/given twice/);
+  expect(validateGcodeCommand('G1 S5')).toMatch(/does not take a S/);
+  expect(validateGcodeCommand('G1')).toMatch(/needs at least one axis/);
+  expect(validateGcodeCommand('M140 S200')).toMatch(/between 0 and 120/);
+});
@@ -0,0 +1,50 @@
+const MOTION_PARAMETERS: Record<string, string> = {
+    G0: "XYZEF",
+    G1: "XYZEF",
+    G2: "XYZEFIJR",
+    G3: "XYZEFIJR",
+};
+
+// Highest setpoint accepted from the recovery form, per temperature command.
+const TEMPERATURE_LIMITS: Record<string, number> = {
+    M104: 300,
+    M109: 300,
+    M140: 120,
+    M190: 120,
+};
+
+/**
+ * Checks a single line of G-code before it is sent to the printer.
+ * Returns a human-readable problem, or null when the command looks valid.
+ */
+export const validateGcodeCommand = (input: string): string | null => {
+    const code = input.split(";")[0].trim();
+    if (!code) return "Command is empty.";
+
+    const [command, ...parameters] = code.toUpperCase().split(/\s+/);
+    if (!/^[GMT]\d+(\.\d+)?$/.test(command)) return "Command must start with a G, M or T code (e.g. G1).";
+
+    const seen = new Set<string>();
+    for (const parameter of parameters) {
+        if (!/^[A-Z](-?(\d+\.?\d*|\.\d+))?$/.test(parameter)) return `Invalid parameter "${parameter}".`;
+
+        const letter = parameter[0];
+        if (seen.has(letter)) return `Parameter ${letter} given twice.`;
+        seen.add(letter);
+
+        const allowed = MOTION_PARAMETERS[command];
+        if (allowed && !allowed.includes(letter)) return `${command} does not take a ${letter} parameter.`;
+    }
+
+    if (MOTION_PARAMETERS[command] && seen.size === 0) return `${command} needs at least one axis or feed rate.`;
+
+    const limit = TEMPERATURE_LIMITS[command];
+    if (limit !== undefined) {
+        const setpoint = parameters.find((parameter) => parameter.startsWith("S"));
+        const value = setpoint ? parseFloat(setpoint.slice(1)) : NaN;
+        if (Number.isNaN(value)) return `${command} needs a temperature (S).`;
+        if (value < 0 || value > limit) return `${command} temperature must be between 0 and ${limit}°C.`;
+    }
+
+    return null;
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from "react";
+import { BUILT_IN_PRESETS, DashboardLayout, DEFAULT_LAYOUT, LayoutPreset, sameLayout, sanitizeLayout } from "../dashboard/layout";
+import { loadJson, saveJson } from "../utils/storage";
+
+const layoutKey = (username: string) => `dashboard.layout.${username}`;
+const viewsKey = (username: string) => `dashboard.views.${username}`;
+
+const loadLayout = (username: string) => sanitizeLayout(loadJson<unknown>(layoutKey(username), null)) ?? DEFAULT_LAYOUT;
+
+const loadViews = (username: string): LayoutPreset[] =>
+    loadJson<LayoutPreset[]>(viewsKey(username), []).flatMap((view) => {
+        const layout = sanitizeLayout(view?.layout);
+        return layout && typeof view.name === "string" ? [{ id: String(view.id), name: view.name, layout, builtIn: false }] : [];
+    });
+
+/**
+ * The dashboard layout of the signed-in user and their saved views, persisted in localStorage.
+ * The built-in presets are always listed first.
+ */
+export const useDashboardLayout = (username = "anonymous") => {
+    const [owner, setOwner] = useState(username);
+    const [layout, setLayout] = useState<DashboardLayout>(() => loadLayout(username));
+    const [views, setViews] = useState<LayoutPreset[]>(() => loadViews(username));
+    // Someone else signed in: show their layout instead of saving ours under their name.
+    if (owner !== username) {
+        setOwner(username);
+        setLayout(loadLayout(username));
+        setViews(loadViews(username));
+    }
+
+    useEffect(() => saveJson(layoutKey(owner), layout), [owner, layout]);
+    useEffect(() => saveJson(viewsKey(owner), views), [owner, views]);
+
+    const presets = [...BUILT_IN_PRESETS, ...views];
+
+    return {
+        layout,
+        setLayout,
+        presets,
+        // The preset the current layout matches, if any.
+        activePreset: presets.find((preset) => sameLayout(preset.layout, layout)) ?? null,
+        applyPreset: (id: string) => {
+            const preset = presets.find((item) => item.id === id);
+            if (preset) setLayout(preset.layout);
+        },
+        // Saving under an existing name replaces that view.
+        saveView: (name: string) =>
+            setViews((prev) => {
+                const existing = prev.find((view) => view.name === name);
+                const view = { id: existing?.id ?? `view-${Date.now()}`, name, layout, builtIn: false };
+                return existing ? prev.map((item) => (item.id === existing.id ? view : item)) : [...prev, view];
+            }),
+        deleteView: (id: string) => setViews((prev) => prev.filter((view) => view.id !== id)),
+    };
+};
@@ -0,0 +1,39 @@
+import { useEffect, useMemo, useState } from "react";
+import { Job } from "../types";
+import { estimateJobEta, JobEta, ProgressSample, RATE_WINDOW } from "../jobs/eta";
+import { loadTimeline } from "../lifecycle/timeline";
+
+const CLOCK_INTERVAL = 5000;
+
+/**
+ * Live ETA for the active job. Progress is sampled whenever new data arrives; `printing` tells
+ * whether the printer is actually printing, so pauses and reheats don't slow the observed rate.
+ */
+export const useJobEta = (printerId: string, job: Job | null, printing: boolean, history: Job[]): JobEta | null => {
+    const [samples, setSamples] = useState<ProgressSample[]>([]);
+    const [now, setNow] = useState(Date.now());
+    const jobId = job?.id;
+    const progress = job?.progress;
+
+    // Keeps the end time moving while paused, when no new progress arrives.
+    useEffect(() => {
+        if (jobId === undefined) return;
+        const interval = window.setInterval(() => setNow(Date.now()), CLOCK_INTERVAL);
+        return () => window.clearInterval(interval);
+    }, [jobId]);
+
+    useEffect(() => setSamples([]), [jobId]);
+
+    useEffect(() => {
+        if (jobId === undefined || progress === undefined) return;
+        const at = Date.now();
+        setSamples((prev) => [...prev.filter((sample) => sample.at >= at - RATE_WINDOW), { at, progress, printing }]);
+        setNow(at);
+    }, [jobId, progress, printing]);
+
+    // Re-read with every sample so pauses recorded by usePrinterEvents are picked up.
+    return useMemo(
+        () => (job ? estimateJobEta({ job, samples, timeline: loadTimeline(printerId, job.id), history, now }) : null),
+        [printerId, job, samples, history, now]
+    );
+};
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { PrinterApi } from "../api/client";
+import { describeError } from "../api/errors";
+import { readZip } from "../media/zip";
+import { Photo, photosFromZip } from "../media/photos";
+
+export interface DownloadProgress {
+    loaded: number;
+    total: number | null;
+}
+
+export interface GalleryPhoto extends Photo {
+    url: string;
+}
+
+/**
+ * Downloads a job's picture-history ZIP once `enabled` turns true and unpacks it into photos with
+ * object URLs, which are revoked again on unmount.
+ */
+export const useJobPhotos = (api: PrinterApi, jobId: number, enabled: boolean) => {
+    const [archive, setArchive] = useState<Blob | null>(null);
+    const [photos, setPhotos] = useState<GalleryPhoto[] | null>(null);
+    const [progress, setProgress] = useState<DownloadProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!enabled || archive || error) return;
+        let cancelled = false;
+
+        setProgress({ loaded: 0, total: null });
+        api.getPictureHistory(jobId, (loaded, total) => {
+            if (!cancelled) setProgress({ loaded, total });
+        })
+            .then(async (blob) => {
+                const entries = readZip(await blob.arrayBuffer());
+                if (cancelled) return;
+                setArchive(blob);
+                setPhotos(
+                    photosFromZip(entries).map((photo) => ({
+                        ...photo,
+                        url: window.URL.createObjectURL(new Blob([photo.data], { type: photo.type })),
+                    }))
+                );
+            })
+            .catch((err) => {
+                console.error("Error loading photos:", err);
+                if (!cancelled) setError(describeError(err));
+            })
+            .finally(() => {
+                if (!cancelled) setProgress(null);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [enabled, api, jobId, archive, error]);
+
+    useEffect(() => () => photos?.forEach((photo) => window.URL.revokeObjectURL(photo.url)), [photos]);
+
+    return {
+        archive,
+        photos,
+        progress,
+        error,
+        retry: () => setError(null),
+    };
+};
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { PrinterApi } from "../api/client";
+import { ApiError, describeError } from "../api/errors";
+import { DownloadProgress } from "./useJobPhotos";
+
+/**
+ * Downloads a job's timelapse with the auth header once `enabled` turns true and plays it from an
+ * object URL, which is revoked again on unmount. A <video> src would need the token in its URL.
+ */
+export const useJobTimelapse = (api: PrinterApi, jobId: number, enabled: boolean) => {
+    const [video, setVideo] = useState<{ blob: Blob; url: string } | null>(null);
+    const [progress, setProgress] = useState<DownloadProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [missing, setMissing] = useState(false);
+    const [shownJobId, setShownJobId] = useState(jobId);
+    if (shownJobId !== jobId) {
+        setShownJobId(jobId);
+        setVideo(null);
+        setError(null);
+        setMissing(false);
+    }
+
+    useEffect(() => {
+        if (!enabled || video || error || missing) return;
+        let cancelled = false;
+
+        setProgress({ loaded: 0, total: null });
+        api.getTimelapse(jobId, (loaded, total) => {
+            if (!cancelled) setProgress({ loaded, total });
+        })
+            .then((blob) => {
+                if (!cancelled) setVideo({ blob, url: window.URL.createObjectURL(blob) });
+            })
+            .catch((err) => {
+                if (cancelled) return;
+                if (err instanceof ApiError && err.status === 404) {
+                    setMissing(true);
+                } else {
+                    console.error("Error loading timelapse:", err);
+                    setError(describeError(err));
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setProgress(null);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [enabled, api, jobId, video, error, missing]);
+
+    useEffect(
+        () => () => {
+            if (video) window.URL.revokeObjectURL(video.url);
+        },
+        [video]
+    );
+
+    return {
+        video,
+        progress,
+        error,
+        // The job has no timelapse, e.g. it never started.
+        missing,
+        retry: () => setError(null),
+    };
+};
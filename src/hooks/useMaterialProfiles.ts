@@ -0,0 +1,27 @@
+import { useState, useEffect } from "react";
+import { DEFAULT_PROFILES, MaterialProfile } from "../preheat/profiles";
+import { loadJson, saveJson } from "../utils/storage";
+
+const PROFILES_KEY = "preheat.profiles";
+const SELECTED_KEY = "preheat.selectedProfile";
+
+/**
+ * Material profiles with their preheat setpoints, persisted in localStorage. The selected profile
+ * is remembered so the preheat control opens on the material that was last used.
+ */
+export const useMaterialProfiles = () => {
+    const [profiles, setProfiles] = useState<MaterialProfile[]>(() => loadJson(PROFILES_KEY, DEFAULT_PROFILES));
+    const [selectedId, setSelectedId] = useState<string>(() => loadJson(SELECTED_KEY, DEFAULT_PROFILES[0].id));
+
+    useEffect(() => saveJson(PROFILES_KEY, profiles), [profiles]);
+    useEffect(() => saveJson(SELECTED_KEY, selectedId), [selectedId]);
+
+    const selected = profiles.find((profile) => profile.id === selectedId) ?? null;
+
+    return {
+        profiles,
+        setProfiles,
+        selected,
+        select: setSelectedId,
+    };
+};
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from "react";
+import { Job, Printer, PrinterStatus } from "../types";
+import { recordTransitions } from "../lifecycle/timeline";
+import { derivePrinterEvents, observedJobTransitions, PrinterObservation } from "../notifications/events";
+import { useNotifications } from "../notifications/NotificationContext";
+
+/**
+ * Records job state transitions for the job timelines and notifies about job outcomes and printer
+ * state changes as new data comes in. Pass `jobs` as null where the job list isn't loaded.
+ */
+export const usePrinterEvents = (printer: Printer, status: PrinterStatus | null, jobs: Job[] | null) => {
+    const { notify } = useNotifications();
+    const previousRef = useRef<PrinterObservation | null>(null);
+
+    useEffect(() => {
+        const previous = previousRef.current;
+        const current = { status, jobs };
+        const transitions = observedJobTransitions(previous, current);
+        // Unexpected transitions are kept too, flagged as invalid on the job's timeline.
+        recordTransitions(printer.id, transitions);
+
+        derivePrinterEvents(printer.name, previous, current, transitions).forEach((event) =>
+            notify({ ...event, desktop: true })
+        );
+        previousRef.current = current;
+    }, [printer, status, jobs, notify]);
+};
@@ -0,0 +1,126 @@
+import { useState, useEffect, useRef } from "react";
+import { Job, PrinterStatus } from "../types";
+import { parseCommand, parseJobs, parsePrinterStatus } from "../api/validation";
+
+export type ConnectionState = "connecting" | "live" | "reconnecting" | "polling";
+
+export interface TelemetryHandlers {
+    onStatus: (status: PrinterStatus) => void;
+    onJobs: (jobs: Job[]) => void;
+    onCommand: (command: string | null) => void;
+    onQueue: (queue: Job[]) => void;
+}
+
+// Failed push attempts before falling back to polling. Reconnects continue in the background.
+const MAX_ATTEMPTS_BEFORE_POLLING = 3;
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Subscribes to the printer's Server-Sent Events telemetry stream, asking `openStream` for its URL
+ * on every (re)connect since the URL carries a single-use ticket.
+ *
+ * The stream is expected to emit `status`, `jobs`, `command` and `queue` events with JSON payloads.
+ * When the stream is unavailable, `poll` is called every `pollInterval` ms until it recovers.
+ */
+export const useTelemetry = (
+    openStream: () => Promise<string>,
+    handlers: TelemetryHandlers,
+    poll: () => void,
+    pollInterval = 1000
+): ConnectionState => {
+    const [connectionState, setConnectionState] = useState<ConnectionState>("connecting");
+
+    // Keep the latest callbacks without reopening the stream on every render.
+    const handlersRef = useRef(handlers);
+    const pollRef = useRef(poll);
+    handlersRef.current = handlers;
+    pollRef.current = poll;
+
+    useEffect(() => {
+        let source: EventSource | null = null;
+        let retryTimer: ReturnType<typeof setTimeout> | null = null;
+        let pollTimer: ReturnType<typeof setInterval> | null = null;
+        let attempts = 0;
+        let closed = false;
+
+        const startPolling = () => {
+            setConnectionState("polling");
+            if (pollTimer) return;
+            pollTimer = setInterval(() => pollRef.current(), pollInterval);
+        };
+
+        const stopPolling = () => {
+            if (pollTimer) clearInterval(pollTimer);
+            pollTimer = null;
+        };
+
+        const listen = (eventSource: EventSource, event: string, handler: (payload: unknown) => void) => {
+            eventSource.addEventListener(event, (e) => {
+                try {
+                    handler(JSON.parse((e as MessageEvent).data));
+                } catch (error) {
+                    console.error(`Invalid telemetry ${event} event:`, error);
+                }
+            });
+        };
+
+        const fail = () => {
+            source?.close();
+            source = null;
+            if (closed) return;
+            attempts += 1;
+
+            if (attempts >= MAX_ATTEMPTS_BEFORE_POLLING) {
+                startPolling();
+            } else {
+                setConnectionState("reconnecting");
+            }
+
+            const delay = Math.min(INITIAL_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+            retryTimer = setTimeout(connect, delay);
+        };
+
+        const open = (url: string) => {
+            if (closed) return;
+            source = new EventSource(url);
+
+            source.onopen = () => {
+                attempts = 0;
+                stopPolling();
+                setConnectionState("live");
+            };
+
+            listen(source, "status", (data) => handlersRef.current.onStatus(parsePrinterStatus(data)));
+            listen(source, "jobs", (data) => handlersRef.current.onJobs(parseJobs(data)));
+            listen(source, "command", (data) => handlersRef.current.onCommand(parseCommand(data)));
+            listen(source, "queue", (data) => handlersRef.current.onQueue(parseJobs(data)));
+
+            source.onerror = fail;
+        };
+
+        const connect = () => {
+            if (typeof EventSource === "undefined") {
+                startPolling();
+                return;
+            }
+            openStream().then(open, (error) => {
+                console.error("Error opening the telemetry stream:", error);
+                fail();
+            });
+        };
+
+        // Fetch once immediately so the page isn't empty while the stream connects.
+        pollRef.current();
+        connect();
+
+        return () => {
+            closed = true;
+            source?.close();
+            if (retryTimer) clearTimeout(retryTimer);
+            stopPolling();
+        };
+    }, [openStream, pollInterval]);
+
+    return connectionState;
+};
@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { TemperatureSample } from "../types";
+import { DEFAULT_RULES, evaluateRule, Severity, ThermalRule } from "../alerts/thermalRules";
+import { loadJson, saveJson } from "../utils/storage";
+import { useNotifications } from "../notifications/NotificationContext";
+
+export interface ThermalAlert {
+    id: string;
+    ruleId: string;
+    ruleName: string;
+    severity: Severity;
+    message: string;
+    raisedAt: number;
+    clearedAt?: number;
+    acknowledged: boolean;
+    autoPaused: boolean;
+}
+
+const RULES_KEY = "thermalAlerts.rules";
+const MAX_LOG_ENTRIES = 200;
+
+/**
+ * Evaluates the thermal rules against every new temperature sample and keeps an alert log.
+ * An alert is raised once when its rule starts failing and marked cleared when it recovers.
+ * Raised alerts are also sent as notifications, on the desktop too when the user enabled that.
+ */
+export const useThermalAlerts = (
+    samples: TemperatureSample[],
+    printing: boolean,
+    onAutoPause: (alert: ThermalAlert) => void
+) => {
+    const [rules, setRules] = useState<ThermalRule[]>(() => loadJson(RULES_KEY, DEFAULT_RULES));
+    const [alerts, setAlerts] = useState<ThermalAlert[]>([]);
+
+    // Rule id -> id of its currently raised alert.
+    const activeRef = useRef<Record<string, string>>({});
+    const { notify } = useNotifications();
+    const onAutoPauseRef = useRef(onAutoPause);
+    onAutoPauseRef.current = onAutoPause;
+
+    useEffect(() => saveJson(RULES_KEY, rules), [rules]);
+
+    useEffect(() => {
+        const now = Date.now();
+        const raised: ThermalAlert[] = [];
+        const cleared: string[] = [];
+
+        rules.forEach((rule) => {
+            const message = evaluateRule(rule, { samples, printing });
+            const activeId = activeRef.current[rule.id];
+
+            if (message && !activeId) {
+                const alert: ThermalAlert = {
+                    id: `${rule.id}-${now}`,
+                    ruleId: rule.id,
+                    ruleName: rule.name,
+                    severity: rule.severity,
+                    message,
+                    raisedAt: now,
+                    acknowledged: false,
+                    autoPaused: rule.severity === "critical" && rule.autoPause && printing,
+                };
+                activeRef.current[rule.id] = alert.id;
+                raised.push(alert);
+            } else if (!message && activeId) {
+                delete activeRef.current[rule.id];
+                cleared.push(activeId);
+            }
+        });
+
+        if (raised.length === 0 && cleared.length === 0) return;
+
+        setAlerts((prev) => [
+            ...raised,
+            ...prev.map((alert) => (cleared.includes(alert.id) ? { ...alert, clearedAt: now } : alert)),
+        ].slice(0, MAX_LOG_ENTRIES));
+
+        raised.forEach((alert) => {
+            notify({
+                severity: alert.severity === "critical" ? "error" : alert.severity,
+                title: alert.ruleName,
+                message: alert.message,
+                desktop: true,
+            });
+            if (alert.autoPaused) onAutoPauseRef.current(alert);
+        });
+    }, [samples, printing, rules, notify]);
+
+    const acknowledge = useCallback(
+        (alertId: string) =>
+            setAlerts((prev) => prev.map((alert) => (alert.id === alertId ? { ...alert, acknowledged: true } : alert))),
+        []
+    );
+
+    // Stable while nothing changed, so it can be handed down through context.
+    return useMemo(() => ({ rules, setRules, alerts, acknowledge }), [rules, alerts, acknowledge]);
+};
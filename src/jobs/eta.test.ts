@@ -0,0 +1,112 @@
+import { confidenceLabel, estimateJobEta, historicalCalibration, pausedSeconds, progressRate, ProgressSample } from './eta';
+import { TimelineEntry } from '../lifecycle/timeline';
+import { Job } from '../types';
+import { job } from '../testFixtures';
+
+const START = Date.parse('2025-03-10T10:00:00Z');
+const minutes = (count: number) => count * 60 * 1000;
+
+// The job being estimated, started at START.
+const running = (overrides: Partial<Job> = {}) =>
+  job(10, {
+    file_name: 'cube.gcode', status: 'STARTED', start_time: new Date(START).toISOString(), end_time: null,
+    progress: 0, estimated_completion_time: 3600, ...overrides,
+  });
+
+const finishedRun = (id: number, estimated: number, actual: number) =>
+  job(id, {
+    file_name: 'cube.gcode', start_time: '2025-03-01T10:00:00Z',
+    end_time: new Date(Date.parse('2025-03-01T10:00:00Z') + actual * 1000).toISOString(), estimated_completion_time: estimated,
+  });
+
+const entry = (status: TimelineEntry['status'], at: number): TimelineEntry => ({ status, at, source: 'observed', valid: true });
+
+// One sample a minute at `ratePerMinute` percent, starting at `from` percent.
+const steadySamples = (count: number, ratePerMinute: number, from = 0, endAt = START + minutes(count - 1)) =>
+  Array.from({ length: count }, (_, i): ProgressSample => ({
+    at: endAt - minutes(count - 1 - i), progress: from + i * ratePerMinute, printing: true,
+  }));
+
+test('sums paused intervals, including one still open', () => {
+  const timeline = [
+    entry('STARTED', START),
+    entry('PAUSED', START + minutes(10)),
+    entry('RESUMED', START + minutes(15)),
+    entry('PAUSED', START + minutes(30)),
+  ];
+
+  expect(pausedSeconds(timeline, START + minutes(32))).toBe(7 * 60);
+});
+
+test('measures progress only while printing', () => {
+  const samples: ProgressSample[] = [
+    { at: START, progress: 10, printing: true },
+    { at: START + minutes(1), progress: 12, printing: false },
+    { at: START + minutes(6), progress: 12, printing: true },
+    { at: START + minutes(7), progress: 14, printing: true },
+  ];
+
+  expect(progressRate(samples, START + minutes(7))).toBeCloseTo(4 / 120);
+  expect(progressRate(samples.slice(0, 1), START)).toBeNull();
+});
+
+test('calibrates against earlier runs of the same file', () => {
+  const history = [
+    finishedRun(1, 3600, 4320), finishedRun(2, 3600, 3960), finishedRun(3, 3600, 5000), job(4, { file_name: 'other.gcode' }),
+  ];
+
+  const calibration = historicalCalibration(running(), history);
+
+  expect(calibration.ratio).toBeCloseTo(1.2);
+  expect(calibration.runs).toBe(3);
+});
+
+test('follows the observed rate once the job is under way', () => {
+  // 1% a minute: 60% done after an hour, although the slicer said an hour in total.
+  const samples = steadySamples(11, 1, 50, START + minutes(60));
+
+  const eta = estimateJobEta({ job: running({ progress: 60 }), samples, timeline: [], history: [], now: START + minutes(60) });
+
+  expect(eta!.remaining / 60).toBeGreaterThan(30);
+  expect(eta!.remaining / 60).toBeLessThan(40);
+  expect(eta!.deviation).toBeGreaterThan(0.5);
+});
+
+test('uses the calibrated slicer estimate before progress is known', () => {
+  const history = [finishedRun(1, 3600, 4320)];
+
+  const eta = estimateJobEta({ job: running(), samples: [], timeline: [], history, now: START });
+
+  expect(eta!.remaining).toBeCloseTo(4320);
+  expect(eta!.endsAt).toBe(START + 4320 * 1000);
+  expect(confidenceLabel(eta!.confidence)).toBe('low');
+});
+
+test('does not count paused time against the rate', () => {
+  // 30% in 30 minutes of printing, plus a 30 minute pause, on track for a 100 minute estimate.
+  const timeline = [entry('PAUSED', START + minutes(10)), entry('RESUMED', START + minutes(40))];
+
+  const eta = estimateJobEta({
+    job: running({ progress: 30, estimated_completion_time: 6000 }), samples: [], timeline, history: [], now: START + minutes(60),
+  });
+
+  expect(eta!.remaining / 60).toBeCloseTo(70, 0);
+  expect(Math.abs(eta!.deviation!)).toBeLessThan(0.05);
+});
+
+test('is most confident late in a job that matches its history', () => {
+  const history = [finishedRun(1, 3600, 3600), finishedRun(2, 3600, 3600), finishedRun(3, 3600, 3600)];
+  const samples = steadySamples(11, 100 / 60, 80 - 100 / 6, START + minutes(48));
+
+  const eta = estimateJobEta({ job: running({ progress: 80 }), samples, timeline: [], history, now: START + minutes(48) });
+
+  expect(confidenceLabel(eta!.confidence)).toBe('high');
+  expect(eta!.remaining / 60).toBeCloseTo(12, 0);
+});
+
+test('has no ETA for finished jobs or without any data', () => {
+  expect(estimateJobEta({ job: running({ status: 'FINISHED' }), samples: [], timeline: [], history: [] })).toBeNull();
+  expect(estimateJobEta({
+    job: running({ estimated_completion_time: undefined }), samples: [], timeline: [], history: [], now: START,
+  })).toBeNull();
+});
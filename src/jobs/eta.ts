@@ -0,0 +1,144 @@
+import { Job } from "../types";
+import { estimateAccuracy } from "../analytics/stats";
+import { jobMachine } from "../lifecycle/jobState";
+import { TimelineEntry } from "../lifecycle/timeline";
+import { jobDurations } from "./history";
+
+export interface ProgressSample {
+    at: number;
+    progress: number;
+    // False while paused or heating back up; those intervals don't count towards the print rate.
+    printing: boolean;
+}
+
+export type EtaConfidence = "low" | "medium" | "high";
+
+export interface JobEta {
+    // Seconds of printing left; the clock doesn't run down while the job is paused.
+    remaining: number;
+    endsAt: number;
+    // 0-1, see confidenceLabel for the buckets shown in the UI.
+    confidence: number;
+    // Predicted vs. slicer print time, relative: positive when the job runs behind the estimate.
+    deviation: number | null;
+    // Finished runs of the same file the prediction was calibrated against.
+    calibrationRuns: number;
+}
+
+// Only the recent rate counts, so speed changes (infill vs. perimeters, a changed feed rate) show up.
+export const RATE_WINDOW = 10 * 60 * 1000;
+// Below this much observed printing the rate is mostly noise.
+const MIN_RATE_SECONDS = 30;
+// Deviations smaller than this are shown as "on estimate".
+export const ON_ESTIMATE_TOLERANCE = 0.05;
+
+const median = (values: number[]) => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** Seconds the job spent paused according to its timeline; an open pause runs until `now`. */
+export const pausedSeconds = (timeline: TimelineEntry[], now = Date.now()) => {
+    let total = 0;
+    let pausedAt: number | null = null;
+    timeline.forEach((entry) => {
+        if (entry.status === "PAUSED") {
+            pausedAt ??= entry.at;
+        } else if (pausedAt !== null) {
+            total += entry.at - pausedAt;
+            pausedAt = null;
+        }
+    });
+    if (pausedAt !== null) total += now - pausedAt;
+    return Math.max(0, total / 1000);
+};
+
+/**
+ * Progress in percent per second of printing over the last `window` ms, or null when too little
+ * printing has been observed. Intervals that started while not printing are left out.
+ */
+export const progressRate = (samples: ProgressSample[], now = Date.now(), window = RATE_WINDOW) => {
+    const recent = samples.filter((sample) => sample.at >= now - window);
+    let progress = 0;
+    let seconds = 0;
+    for (let i = 1; i < recent.length; i++) {
+        if (!recent[i - 1].printing) continue;
+        progress += recent[i].progress - recent[i - 1].progress;
+        seconds += (recent[i].at - recent[i - 1].at) / 1000;
+    }
+    return seconds >= MIN_RATE_SECONDS && progress > 0 ? progress / seconds : null;
+};
+
+/**
+ * How long this file took before: the median actual/estimated ratio of finished runs with a slicer
+ * estimate, and their median duration for jobs without one.
+ */
+export const historicalCalibration = (job: Job, history: Job[]) => {
+    const previous = history.filter((other) => other.file_name === job.file_name && other.id !== job.id);
+    const runs = estimateAccuracy(previous);
+    const durations = previous
+        .filter((other) => other.status === "FINISHED" && other.end_time)
+        .flatMap((other) => jobDurations(other).actual ?? []);
+    return {
+        ratio: median(runs.map((run) => run.actual / run.estimated)),
+        duration: median(durations),
+        runs: Math.max(runs.length, durations.length),
+    };
+};
+
+export const confidenceLabel = (confidence: number): EtaConfidence =>
+    confidence >= 0.7 ? "high" : confidence >= 0.4 ? "medium" : "low";
+
+interface EtaInput {
+    job: Job;
+    samples: ProgressSample[];
+    timeline: TimelineEntry[];
+    // Earlier jobs of the printer, used to calibrate against past runs of the same file.
+    history: Job[];
+    now?: number;
+}
+
+/**
+ * Predicts when an active job will finish. Two estimates are blended: the observed progress rate,
+ * and the slicer estimate scaled by how past runs of the file compared to theirs. The observed
+ * rate gets more weight as the job progresses. Returns null when neither is available.
+ */
+export const estimateJobEta = ({ job, samples, timeline, history, now = Date.now() }: EtaInput): JobEta | null => {
+    if (jobMachine.isFinal(job.status) || job.status === "QUEUED") return null;
+
+    const progress = Math.min(100, Math.max(0, job.progress ?? 0));
+    const started = new Date(job.start_time).getTime();
+    const printingSeconds = Number.isNaN(started) ? 0 : Math.max(0, (now - started) / 1000 - pausedSeconds(timeline, now));
+
+    // Without enough live samples, e.g. right after opening the page, fall back to the job's average.
+    const averageRate = progress > 0 && printingSeconds >= MIN_RATE_SECONDS ? progress / printingSeconds : null;
+    const rate = progressRate(samples, now) ?? averageRate;
+    const fromRate = rate ? (100 - progress) / rate : null;
+
+    const calibration = historicalCalibration(job, history);
+    const estimated = job.estimated_completion_time || null;
+    const expectedTotal = estimated ? estimated * (calibration.ratio ?? 1) : calibration.duration;
+    const fromHistory = expectedTotal ? expectedTotal * (1 - progress / 100) : null;
+
+    if (fromRate === null && fromHistory === null) return null;
+
+    const rateWeight = fromRate === null ? 0 : fromHistory === null ? 1 : progress / (progress + 10);
+    const remaining = (fromRate ?? 0) * rateWeight + (fromHistory ?? 0) * (1 - rateWeight);
+
+    let confidence = 0.2 + 0.3 * Math.min(1, calibration.runs / 3);
+    if (fromRate !== null) confidence += 0.5 * Math.min(1, progress / 50);
+    // The two estimates disagreeing means at least one of them is off.
+    if (fromRate !== null && fromHistory !== null && Math.abs(fromRate - fromHistory) > 0.3 * Math.max(fromRate, fromHistory, 1)) {
+        confidence -= 0.15;
+    }
+
+    return {
+        remaining,
+        endsAt: now + remaining * 1000,
+        confidence: Math.min(1, Math.max(0, confidence)),
+        deviation: estimated ? (printingSeconds + remaining - estimated) / estimated : null,
+        calibrationRuns: calibration.runs,
+    };
+};
@@ -0,0 +1,46 @@
+import { EMPTY_FILTER, filterJobs, jobDurations, paginate, sameJobs, sortNewestFirst } from './history';
+import { job } from '../testFixtures';
+
+const jobs = [
+  job(1, { file_name: 'Benchy.gcode', start_time: '2025-03-01T09:00:00' }),
+  job(2, { status: 'FAILED', start_time: '2025-03-05T23:30:00' }),
+  job(3, { file_name: 'bracket.gcode', status: 'PAUSED', start_time: '2025-03-06T00:15:00' }),
+];
+
+test('sorts newest first without mutating the input', () => {
+  expect(sortNewestFirst(jobs).map((j) => j.id)).toEqual([3, 2, 1]);
+  expect(jobs.map((j) => j.id)).toEqual([1, 2, 3]);
+});
+
+test('searches file names case-insensitively', () => {
+  expect(filterJobs(jobs, { ...EMPTY_FILTER, search: 'benchy' }).map((j) => j.id)).toEqual([1]);
+});
+
+test('filters by status', () => {
+  expect(filterJobs(jobs, { ...EMPTY_FILTER, statuses: ['FAILED', 'PAUSED'] }).map((j) => j.id)).toEqual([2, 3]);
+});
+
+test('date range includes whole days', () => {
+  expect(filterJobs(jobs, { ...EMPTY_FILTER, from: '2025-03-05', to: '2025-03-05' }).map((j) => j.id)).toEqual([2]);
+  expect(filterJobs(jobs, { ...EMPTY_FILTER, from: '2025-03-06' }).map((j) => j.id)).toEqual([3]);
+});
+
+test('paginates and clamps the page number', () => {
+  const items = Array.from({ length: 25 }, (_, i) => i);
+  expect(paginate(items, 3, 10)).toEqual({ items: [20, 21, 22, 23, 24], page: 3, pageCount: 3 });
+  expect(paginate(items, 9, 10).page).toBe(3);
+  expect(paginate([], 1, 10)).toEqual({ items: [], page: 1, pageCount: 1 });
+});
+
+test('computes actual and estimated duration', () => {
+  const finished = job(4, { start_time: '2025-03-10T12:00:00Z', end_time: '2025-03-10T13:30:00Z', estimated_completion_time: 3600 });
+  expect(jobDurations(finished)).toEqual({ actual: 5400, estimated: 3600 });
+
+  const running = job(5, { start_time: '2025-03-10T12:00:00Z', end_time: null });
+  expect(jobDurations(running, Date.parse('2025-03-10T12:10:00Z')).actual).toBe(600);
+});
+
+test('detects unchanged job lists', () => {
+  expect(sameJobs(jobs, jobs.map((j) => ({ ...j })))).toBe(true);
+  expect(sameJobs(jobs, [...jobs.slice(0, 2), { ...jobs[2], progress: 50 }])).toBe(false);
+});
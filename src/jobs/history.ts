@@ -0,0 +1,61 @@
+import { Job } from "../types";
+
+export interface JobFilter {
+    search: string;
+    // Empty means every status.
+    statuses: string[];
+    // Inclusive calendar days as "YYYY-MM-DD", empty for an open range.
+    from: string;
+    to: string;
+}
+
+export const EMPTY_FILTER: JobFilter = { search: "", statuses: [], from: "", to: "" };
+
+export const sortNewestFirst = (jobs: Job[]) =>
+    [...jobs].sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
+
+// Local midnight, so the date pickers match what the user sees in formatted timestamps.
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`).getTime();
+
+export const filterJobs = (jobs: Job[], filter: JobFilter) => {
+    const search = filter.search.trim().toLowerCase();
+    const from = filter.from ? startOfDay(filter.from) : -Infinity;
+    const to = filter.to ? startOfDay(filter.to) + 24 * 60 * 60 * 1000 : Infinity;
+
+    return jobs.filter((job) => {
+        const started = new Date(job.start_time).getTime();
+        return (
+            (!search || job.file_name.toLowerCase().includes(search)) &&
+            (filter.statuses.length === 0 || filter.statuses.includes(job.status)) &&
+            started >= from &&
+            started < to
+        );
+    });
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize: number) => {
+    const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+    const current = Math.min(Math.max(1, page), pageCount);
+    return {
+        items: items.slice((current - 1) * pageSize, current * pageSize),
+        page: current,
+        pageCount,
+    };
+};
+
+/**
+ * Actual and estimated print duration in seconds. Running jobs are measured up to `now`;
+ * either value is undefined when the backend hasn't reported enough to compute it.
+ */
+export const jobDurations = (job: Job, now = Date.now()) => {
+    const start = new Date(job.start_time).getTime();
+    const end = job.end_time ? new Date(job.end_time).getTime() : now;
+    return {
+        actual: Number.isNaN(start) || Number.isNaN(end) ? undefined : Math.max(0, (end - start) / 1000),
+        estimated: job.estimated_completion_time,
+    };
+};
+
+// Polling returns a fresh array every second; reuse the previous one when nothing changed.
+export const sameJobs = (a: Job[], b: Job[]) =>
+    a.length === b.length && a.every((job, index) => JSON.stringify(job) === JSON.stringify(b[index]));
@@ -0,0 +1,31 @@
+import { EMPTY_DRAFT, isRatable, toRating, validateRating } from './rating';
+
+const draft = { ...EMPTY_DRAFT, jobId: 3, printQuality: 8, printSpeed: 6, feedback: ' Nice ', defects: ['Stringing'] };
+
+test('only ended jobs can be rated', () => {
+  const job = { id: 1, file_name: 'a.gcode', start_time: '' };
+  expect(isRatable({ ...job, status: 'FINISHED' })).toBe(true);
+  expect(isRatable({ ...job, status: 'FAILED' })).toBe(true);
+  expect(isRatable({ ...job, status: 'STARTED' })).toBe(false);
+});
+
+test('requires a job and both scores', () => {
+  expect(Object.keys(validateRating(EMPTY_DRAFT)).sort()).toEqual(['jobId', 'printQuality', 'printSpeed']);
+});
+
+test('rejects scores outside 1-10', () => {
+  expect(validateRating({ ...draft, printQuality: 0 }).printQuality).toBeDefined();
+  expect(validateRating({ ...draft, printSpeed: 11 }).printSpeed).toBeDefined();
+  expect(validateRating({ ...draft, printSpeed: 5.5 }).printSpeed).toBeDefined();
+});
+
+test('limits feedback length', () => {
+  expect(validateRating({ ...draft, feedback: 'x'.repeat(1001) }).feedback).toBeDefined();
+});
+
+test('builds the rating payload from a valid draft', () => {
+  expect(toRating(draft)).toEqual({
+    jobId: 3, printQuality: 8, printSpeed: 6, feedback: 'Nice', defects: ['Stringing'], photo: null,
+  });
+  expect(toRating({ ...draft, printQuality: null })).toBeNull();
+});
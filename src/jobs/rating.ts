@@ -0,0 +1,70 @@
+import { Job, JobRating } from "../types";
+import { JobStatus } from "../lifecycle/jobState";
+
+export const DEFECT_TAGS = [
+    "Stringing",
+    "Warping",
+    "Layer shift",
+    "Under-extrusion",
+    "Over-extrusion",
+    "Poor bed adhesion",
+    "Blobs / zits",
+    "Elephant foot",
+    "Ghosting",
+    "Spaghetti",
+];
+
+// Only jobs that have ended can be judged.
+export const RATABLE_STATUSES: JobStatus[] = ["FINISHED", "FAILED"];
+
+export const isRatable = (job: Job) => RATABLE_STATUSES.includes(job.status);
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+export const MAX_FEEDBACK_LENGTH = 1000;
+
+export interface RatingDraft {
+    jobId: number | null;
+    printQuality: number | null;
+    printSpeed: number | null;
+    feedback: string;
+    defects: string[];
+    photo: string | null;
+}
+
+export const EMPTY_DRAFT: RatingDraft = {
+    jobId: null,
+    printQuality: null,
+    printSpeed: null,
+    feedback: "",
+    defects: [],
+    photo: null,
+};
+
+const isScore = (value: number | null): value is number =>
+    value !== null && Number.isInteger(value) && value >= MIN_SCORE && value <= MAX_SCORE;
+
+/** Per-field error messages for a draft; empty when the draft can be submitted. */
+export const validateRating = (draft: RatingDraft) => {
+    const errors: Partial<Record<keyof RatingDraft, string>> = {};
+    if (draft.jobId === null) errors.jobId = "Select a job.";
+    if (!isScore(draft.printQuality)) errors.printQuality = `Rate the quality from ${MIN_SCORE} to ${MAX_SCORE}.`;
+    if (!isScore(draft.printSpeed)) errors.printSpeed = `Rate the speed from ${MIN_SCORE} to ${MAX_SCORE}.`;
+    if (draft.feedback.length > MAX_FEEDBACK_LENGTH) {
+        errors.feedback = `Keep feedback under ${MAX_FEEDBACK_LENGTH} characters.`;
+    }
+    return errors;
+};
+
+/** The rating to submit, or null while the draft has errors. */
+export const toRating = (draft: RatingDraft): JobRating | null => {
+    if (Object.keys(validateRating(draft)).length > 0) return null;
+    return {
+        jobId: draft.jobId as number,
+        printQuality: draft.printQuality as number,
+        printSpeed: draft.printSpeed as number,
+        feedback: draft.feedback.trim(),
+        defects: draft.defects,
+        photo: draft.photo,
+    };
+};
@@ -0,0 +1,80 @@
+import { Job } from "../types";
+import { createStateMachine } from "./machine";
+
+export const JOB_STATUSES = ["QUEUED", "STARTED", "PAUSED", "RESUMED", "FINISHED", "FAILED", "CANCELLED", "UNKNOWN"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// Other spellings some backends use.
+const JOB_STATUS_ALIASES: Record<string, JobStatus> = {
+    CANCELED: "CANCELLED",
+};
+
+/** The status as the UI knows it; statuses from newer backends show as UNKNOWN instead of failing the job list. */
+export const normalizeJobStatus = (value: string): JobStatus => {
+    const status = value.trim().toUpperCase();
+    if ((JOB_STATUSES as readonly string[]).includes(status)) return status as JobStatus;
+    return JOB_STATUS_ALIASES[status] ?? "UNKNOWN";
+};
+
+export const jobMachine = createStateMachine<JobStatus>({
+    QUEUED: ["STARTED", "CANCELLED"],
+    STARTED: ["PAUSED", "FINISHED", "FAILED", "CANCELLED"],
+    PAUSED: ["RESUMED", "FAILED", "CANCELLED"],
+    RESUMED: ["PAUSED", "FINISHED", "FAILED", "CANCELLED"],
+    FINISHED: [],
+    FAILED: [],
+    CANCELLED: [],
+    // Whatever it was, the job may turn out to be in any known state.
+    UNKNOWN: ["QUEUED", "STARTED", "PAUSED", "RESUMED", "FINISHED", "FAILED", "CANCELLED"],
+});
+
+export const JOB_STATUS_COLORS: Record<JobStatus, string> = {
+    QUEUED: "gray",
+    STARTED: "blue",
+    PAUSED: "orange",
+    RESUMED: "blue",
+    FINISHED: "green",
+    FAILED: "red",
+    CANCELLED: "gray",
+    UNKNOWN: "gray",
+};
+
+const ACTIVE_STATUSES: JobStatus[] = ["STARTED", "PAUSED", "RESUMED"];
+
+/** A job the printer is working on right now, including while paused. */
+export const isActiveJob = (job: Job) => ACTIVE_STATUSES.includes(job.status) && !job.end_time;
+
+export const findActiveJob = (jobs: Job[]) => jobs.find(isActiveJob) || null;
+
+/**
+ * One entry per job. A job listed twice, e.g. still in the queue after it started, keeps the status
+ * furthest along; when neither follows from the other the later entry wins.
+ */
+export const uniqueJobs = (jobs: Job[]) => {
+    const byId = new Map<number, Job>();
+    jobs.forEach((job) => {
+        const seen = byId.get(job.id);
+        if (!seen || !jobMachine.canReach(job.status, seen.status)) byId.set(job.id, job);
+    });
+    return Array.from(byId.values());
+};
+
+export interface JobTransition {
+    jobId: number;
+    fileName: string;
+    from: JobStatus;
+    to: JobStatus;
+    at: number;
+    // False when the machine can't get from `from` to `to`, e.g. a finished job starting again.
+    valid: boolean;
+}
+
+/** Status changes of jobs present in both lists. New and removed jobs aren't transitions. */
+export const diffJobs = (previous: Job[], current: Job[], at = Date.now()): JobTransition[] => {
+    const before = new Map(previous.map((job) => [job.id, job.status]));
+    return current.flatMap((job) => {
+        const from = before.get(job.id);
+        if (from === undefined || from === job.status) return [];
+        return [{ jobId: job.id, fileName: job.file_name, from, to: job.status, at, valid: jobMachine.canReach(from, job.status) }];
+    });
+};
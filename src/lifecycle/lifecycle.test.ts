@@ -0,0 +1,106 @@
+import { PrinterStatus } from '../types';
+import { job } from '../testFixtures';
+import { createStateMachine } from './machine';
+import { diffJobs, findActiveJob, jobMachine, uniqueJobs } from './jobState';
+import { effectiveState, printerTransition } from './printerState';
+import { jobTimeline, loadTimeline, recordTransitions } from './timeline';
+
+const status = (changes: Partial<PrinterStatus> = {}): PrinterStatus => ({
+  state: 'Printing', nozzle_temperature: 215, bed_temperature: 60, operational: true, printing: true, paused: false, ...changes,
+});
+
+const machine = createStateMachine<'a' | 'b' | 'c' | 'error'>({ a: ['b'], b: ['c'], c: [], error: ['a'] }, ['error']);
+
+beforeEach(() => window.localStorage.clear());
+
+test('separates direct transitions from reachable states', () => {
+  expect(machine.canTransition('a', 'b')).toBe(true);
+  expect(machine.canTransition('a', 'c')).toBe(false);
+  expect(machine.canReach('a', 'c')).toBe(true);
+  expect(machine.canReach('b', 'a')).toBe(false);
+  // States entered from anywhere aren't assumed to have been passed through unseen.
+  expect(machine.canReach('c', 'error')).toBe(true);
+  expect(machine.canReach('c', 'a')).toBe(false);
+});
+
+test('lets states be entered from anywhere', () => {
+  expect(machine.canTransition('c', 'error')).toBe(true);
+  expect(machine.isFinal('c')).toBe(false);
+});
+
+test('only lets jobs move forward', () => {
+  expect(jobMachine.canReach('QUEUED', 'FINISHED')).toBe(true);
+  expect(jobMachine.canReach('PAUSED', 'RESUMED')).toBe(true);
+  expect(jobMachine.canReach('FINISHED', 'STARTED')).toBe(false);
+  expect(jobMachine.canReach('STARTED', 'QUEUED')).toBe(false);
+  expect(jobMachine.isFinal('CANCELLED')).toBe(true);
+});
+
+test('finds the active job, including paused ones', () => {
+  expect(findActiveJob([job(1, { status: 'FINISHED' }), job(2, { status: 'PAUSED', end_time: null })])?.id).toBe(2);
+  expect(findActiveJob([job(1, { status: 'STARTED', end_time: '2025-03-10T13:00:00Z' })])).toBeNull();
+});
+
+test('lists each job once with its furthest status', () => {
+  const jobs = uniqueJobs([
+    job(1, { status: 'QUEUED' }),
+    job(2, { status: 'QUEUED' }),
+    job(1, { status: 'STARTED' }),
+    job(2, { status: 'CANCELLED' }),
+    job(3, { status: 'FINISHED' }),
+  ]);
+
+  expect(jobs.map((item) => [item.id, item.status])).toEqual([[1, 'STARTED'], [2, 'CANCELLED'], [3, 'FINISHED']]);
+  expect(uniqueJobs([job(1, { status: 'PAUSED' }), job(1, { status: 'STARTED' })])[0].status).toBe('PAUSED');
+});
+
+test('diffs job lists into transitions', () => {
+  const transitions = diffJobs(
+    [job(1, { status: 'STARTED' }), job(2, { status: 'FINISHED' }), job(3, { status: 'QUEUED' })],
+    [
+      job(1, { status: 'PAUSED' }),
+      job(2, { status: 'STARTED' }),
+      job(3, { status: 'QUEUED' }),
+      job(4, { status: 'STARTED' }),
+    ],
+    1000
+  );
+
+  expect(transitions).toEqual([
+    { jobId: 1, fileName: 'part-1.gcode', from: 'STARTED', to: 'PAUSED', at: 1000, valid: true },
+    { jobId: 2, fileName: 'part-2.gcode', from: 'FINISHED', to: 'STARTED', at: 1000, valid: false },
+  ]);
+});
+
+test('treats a paused print as Paused', () => {
+  expect(effectiveState(status({ paused: true }))).toBe('Paused');
+  expect(effectiveState(status({ state: 'Error', paused: true }))).toBe('Error');
+});
+
+test('checks printer transitions between observations', () => {
+  expect(printerTransition(status(), status())).toBeNull();
+  expect(printerTransition(status(), status({ paused: true }))).toEqual({ from: 'Printing', to: 'Paused', valid: true });
+  expect(printerTransition(status({ state: 'Idle' }), status({ state: 'Resuming' }))).toMatchObject({ valid: false });
+  expect(printerTransition(status({ state: 'Cancelling' }), status({ state: 'Error' }))).toMatchObject({ valid: true });
+});
+
+test("merges observed transitions with the job's own times", () => {
+  const finished = job(1, { status: 'FINISHED', end_time: '2025-03-10T14:00:00Z' });
+  const paused = Date.parse('2025-03-10T13:00:00Z');
+  recordTransitions('mk3', [{ jobId: 1, fileName: 'part-1.gcode', from: 'STARTED', to: 'PAUSED', at: paused, valid: true }]);
+
+  expect(jobTimeline(finished, loadTimeline('mk3', 1)).map((entry) => [entry.status, entry.source])).toEqual([
+    ['STARTED', 'reported'],
+    ['PAUSED', 'observed'],
+    ['FINISHED', 'reported'],
+  ]);
+});
+
+test('prefers observed timeline entries over reported ones', () => {
+  const at = Date.parse('2025-03-10T14:00:05Z');
+  recordTransitions('mk3', [{ jobId: 1, fileName: 'part-1.gcode', from: 'STARTED', to: 'FAILED', at, valid: true }]);
+
+  const timeline = jobTimeline(job(1, { status: 'FAILED', end_time: '2025-03-10T14:00:00Z' }), loadTimeline('mk3', 1));
+
+  expect(timeline.filter((entry) => entry.status === 'FAILED')).toEqual([{ status: 'FAILED', at, source: 'observed', valid: true }]);
+});
@@ -0,0 +1,44 @@
+/**
+ * A finite state machine described by its allowed direct transitions.
+ *
+ * State is observed by polling, so intermediate states can be missed. `canReach` accepts a change
+ * when the new state can follow the old one through any number of allowed transitions, not only
+ * as a direct successor. States enterable from anywhere are never passed through on the way.
+ */
+export interface StateMachine<S extends string> {
+    states: readonly S[];
+    canTransition: (from: S, to: S) => boolean;
+    canReach: (from: S, to: S) => boolean;
+    // No way out, e.g. a finished job.
+    isFinal: (state: S) => boolean;
+}
+
+export const createStateMachine = <S extends string>(
+    transitions: Record<S, readonly S[]>,
+    // States that may be entered from anywhere, e.g. Error.
+    enterableFromAnywhere: readonly S[] = []
+): StateMachine<S> => {
+    const states = Object.keys(transitions) as S[];
+    const successors = (state: S) => [...transitions[state], ...enterableFromAnywhere];
+
+    const reachable = new Map<S, Set<S>>(
+        states.map((start) => {
+            const seen = new Set<S>();
+            const pending = [...transitions[start]];
+            while (pending.length > 0) {
+                const next = pending.pop() as S;
+                if (seen.has(next)) continue;
+                seen.add(next);
+                pending.push(...transitions[next]);
+            }
+            return [start, seen];
+        })
+    );
+
+    return {
+        states,
+        canTransition: (from, to) => successors(from).includes(to),
+        canReach: (from, to) => enterableFromAnywhere.includes(to) || (reachable.get(from)?.has(to) ?? false),
+        isFinal: (state) => successors(state).length === 0,
+    };
+};
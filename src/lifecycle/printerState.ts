@@ -0,0 +1,92 @@
+import { PrinterStatus } from "../types";
+import { createStateMachine } from "./machine";
+
+export const PRINTER_STATES = [
+    "Offline",
+    "Idle",
+    "Operational",
+    "Printing",
+    "Pausing",
+    "Paused",
+    "Resuming",
+    "Cancelling",
+    "Finished",
+    "Error",
+    "Unknown",
+] as const;
+export type PrinterState = (typeof PRINTER_STATES)[number];
+
+export const isPrinterState = (value: string): value is PrinterState => (PRINTER_STATES as readonly string[]).includes(value);
+
+export const printerMachine = createStateMachine<PrinterState>(
+    {
+        Offline: ["Idle", "Operational"],
+        Idle: ["Operational", "Printing"],
+        Operational: ["Idle", "Printing"],
+        Printing: ["Pausing", "Paused", "Cancelling", "Finished", "Idle", "Operational"],
+        Pausing: ["Paused"],
+        Paused: ["Resuming", "Printing", "Cancelling", "Idle", "Operational"],
+        Resuming: ["Printing"],
+        Cancelling: ["Idle", "Operational"],
+        Finished: ["Idle", "Operational", "Printing"],
+        Error: ["Idle", "Operational"],
+        Unknown: ["Offline", "Idle", "Operational", "Printing", "Pausing", "Paused", "Resuming", "Cancelling", "Finished"],
+    },
+    // A printer can fault or drop off at any moment, and the backend may report a state we don't know.
+    ["Error", "Offline", "Unknown"]
+);
+
+interface PrinterStateInfo {
+    color: string;
+    canPause: boolean;
+    canResume: boolean;
+    canCancel: boolean;
+    // A job occupies the printer, so the next one can't be started.
+    busy: boolean;
+}
+
+const info = (color: string, flags: Partial<Omit<PrinterStateInfo, "color">> = {}): PrinterStateInfo => ({
+    color,
+    canPause: false,
+    canResume: false,
+    canCancel: false,
+    busy: false,
+    ...flags,
+});
+
+export const PRINTER_STATE_INFO: Record<PrinterState, PrinterStateInfo> = {
+    Offline: info("gray", { busy: true }),
+    Idle: info("orange"),
+    Operational: info("green"),
+    Printing: info("blue", { canPause: true, canCancel: true, busy: true }),
+    Pausing: info("orange", { canCancel: true, busy: true }),
+    Paused: info("orange", { canResume: true, canCancel: true, busy: true }),
+    Resuming: info("blue", { canCancel: true, busy: true }),
+    Cancelling: info("orange", { busy: true }),
+    Finished: info("green"),
+    Error: info("red", { busy: true }),
+    Unknown: info("gray", { busy: true }),
+};
+
+/**
+ * The state the UI works with. Some backends keep reporting "Printing" while paused and only set the
+ * `paused` flag, so the flag wins.
+ */
+export const effectiveState = (status: PrinterStatus): PrinterState =>
+    status.paused && (status.state === "Printing" || status.state === "Pausing") ? "Paused" : status.state;
+
+export interface PrinterTransition {
+    from: PrinterState;
+    to: PrinterState;
+    valid: boolean;
+}
+
+/**
+ * Printer status arrives every second or faster, so unlike jobs a change has to be a direct
+ * transition. Reachability would accept almost anything since printer states form a cycle.
+ */
+export const printerTransition = (previous: PrinterStatus, current: PrinterStatus): PrinterTransition | null => {
+    const from = effectiveState(previous);
+    const to = effectiveState(current);
+    return from === to ? null : { from, to, valid: printerMachine.canTransition(from, to) };
+};
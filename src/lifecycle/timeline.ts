@@ -0,0 +1,56 @@
+import { Job } from "../types";
+import { loadJson, saveJson } from "../utils/storage";
+import { JobStatus, JobTransition, jobMachine } from "./jobState";
+
+export interface TimelineEntry {
+    status: JobStatus;
+    at: number;
+    // Observed entries were seen changing live; reported ones come from the job's own timestamps.
+    source: "observed" | "reported";
+    valid: boolean;
+}
+
+// Job id -> observed entries, oldest first.
+type StoredTimelines = Record<string, TimelineEntry[]>;
+
+const MAX_TRACKED_JOBS = 100;
+
+const timelineKey = (printerId: string) => `jobs.timeline.${printerId}`;
+
+export const loadTimeline = (printerId: string, jobId: number): TimelineEntry[] =>
+    loadJson<StoredTimelines>(timelineKey(printerId), {})[jobId] ?? [];
+
+export const recordTransitions = (printerId: string, transitions: JobTransition[]) => {
+    if (transitions.length === 0) return;
+    const stored = loadJson<StoredTimelines>(timelineKey(printerId), {});
+
+    transitions.forEach(({ jobId, to, at, valid }) => {
+        stored[jobId] = [...(stored[jobId] ?? []), { status: to, at, source: "observed", valid }];
+    });
+
+    // Forget the jobs that changed least recently.
+    const lastChange = (entries: TimelineEntry[]) => entries[entries.length - 1]?.at ?? 0;
+    const kept = Object.entries(stored)
+        .sort(([, a], [, b]) => lastChange(b) - lastChange(a))
+        .slice(0, MAX_TRACKED_JOBS);
+    saveJson(timelineKey(printerId), Object.fromEntries(kept));
+};
+
+/**
+ * The job's state history, oldest first: what was observed live plus its start and end times for
+ * states that weren't seen (the job ran while no dashboard was open).
+ */
+export const jobTimeline = (job: Job, observed: TimelineEntry[]): TimelineEntry[] => {
+    const reported: TimelineEntry[] = [];
+    const startedAt = new Date(job.start_time).getTime();
+    if (!Number.isNaN(startedAt)) {
+        reported.push({ status: job.status === "QUEUED" ? "QUEUED" : "STARTED", at: startedAt, source: "reported", valid: true });
+    }
+    const endedAt = job.end_time ? new Date(job.end_time).getTime() : NaN;
+    if (jobMachine.isFinal(job.status) && !Number.isNaN(endedAt)) {
+        reported.push({ status: job.status, at: endedAt, source: "reported", valid: true });
+    }
+
+    const seen = new Set(observed.map((entry) => entry.status));
+    return [...observed, ...reported.filter((entry) => !seen.has(entry.status))].sort((a, b) => a.at - b.at);
+};
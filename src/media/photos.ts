@@ -0,0 +1,46 @@
+import { ZipEntry } from "./zip";
+
+const IMAGE_TYPES: Record<string, string> = {
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    png: "image/png",
+    webp: "image/webp",
+    gif: "image/gif",
+};
+
+export interface Photo {
+    name: string;
+    timestamp: Date;
+    type: string;
+    data: Uint8Array;
+}
+
+/**
+ * Capture time of a photo. Camera file names usually embed it, either as a date and time
+ * ("2025-03-10_14-30-05.jpg", "20250310T143005.jpg") or as Unix seconds/milliseconds
+ * ("1741617005.jpg"); otherwise the archive's modification time is used.
+ */
+export const photoTimestamp = (name: string, fallback: Date) => {
+    const base = name.split("/").pop() ?? name;
+
+    const dateTime = base.match(/(\d{4})-?(\d{2})-?(\d{2})[T_ -]?(\d{2})[-:.]?(\d{2})[-:.]?(\d{2})/);
+    if (dateTime) {
+        const [, year, month, day, hours, minutes, seconds] = dateTime.map(Number);
+        const date = new Date(year, month - 1, day, hours, minutes, seconds);
+        if (!Number.isNaN(date.getTime()) && month >= 1 && month <= 12) return date;
+    }
+
+    const epoch = base.match(/^(\d{10}|\d{13})\D/);
+    if (epoch) return new Date(epoch[1].length === 10 ? Number(epoch[1]) * 1000 : Number(epoch[1]));
+
+    return fallback;
+};
+
+/** Image entries of a picture-history archive, oldest first. */
+export const photosFromZip = (entries: ZipEntry[]): Photo[] =>
+    entries
+        .flatMap((entry) => {
+            const type = IMAGE_TYPES[entry.name.split(".").pop()?.toLowerCase() ?? ""];
+            return type ? [{ name: entry.name, timestamp: photoTimestamp(entry.name, entry.modified), type, data: entry.data }] : [];
+        })
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
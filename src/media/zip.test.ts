@@ -0,0 +1,47 @@
+import { strToU8, zipSync } from 'fflate';
+import { readZip } from './zip';
+import { photosFromZip, photoTimestamp } from './photos';
+
+const archive = (files: Record<string, [string, Date]>, level: 0 | 6 = 6) => {
+  const input = Object.fromEntries(
+    Object.entries(files).map(([name, [content, mtime]]) => [name, [strToU8(content), { mtime, level }]])
+  );
+  const zipped = zipSync(input as Parameters<typeof zipSync>[0]);
+  return zipped.buffer.slice(zipped.byteOffset, zipped.byteOffset + zipped.byteLength) as ArrayBuffer;
+};
+
+test('reads stored and deflated entries with their modification time', () => {
+  const mtime = new Date(2025, 2, 10, 14, 30, 4);
+  for (const level of [0, 6] as const) {
+    const entries = readZip(archive({ 'a.txt': ['hello hello hello', mtime], 'dir/b.txt': ['world', mtime] }, level));
+    expect(entries.map((e) => [e.name, new TextDecoder().decode(e.data)])).toEqual([
+      ['a.txt', 'hello hello hello'],
+      ['dir/b.txt', 'world'],
+    ]);
+    expect(entries[0].modified).toEqual(mtime);
+  }
+});
+
+test('rejects data that is not a ZIP archive', () => {
+  expect(() => readZip(new ArrayBuffer(64))).toThrow('Not a ZIP archive');
+});
+
+test('takes photo timestamps from file names when present', () => {
+  const fallback = new Date(2000, 0, 1);
+  expect(photoTimestamp('2025-03-10_14-30-05.jpg', fallback)).toEqual(new Date(2025, 2, 10, 14, 30, 5));
+  expect(photoTimestamp('shots/20250310T143005.png', fallback)).toEqual(new Date(2025, 2, 10, 14, 30, 5));
+  expect(photoTimestamp('1741617005.jpg', fallback)).toEqual(new Date(1741617005000));
+  expect(photoTimestamp('frame.jpg', fallback)).toBe(fallback);
+});
+
+test('keeps only images, oldest first', () => {
+  const entries = readZip(archive({
+    'notes.txt': ['x', new Date(2025, 0, 1)],
+    'later.jpg': ['x', new Date(2025, 0, 3)],
+    'earlier.PNG': ['x', new Date(2025, 0, 2)],
+  }));
+  expect(photosFromZip(entries).map((photo) => [photo.name, photo.type])).toEqual([
+    ['earlier.PNG', 'image/png'],
+    ['later.jpg', 'image/jpeg'],
+  ]);
+});
@@ -0,0 +1,63 @@
+import { inflateSync, strFromU8 } from "fflate";
+
+export interface ZipEntry {
+    name: string;
+    modified: Date;
+    data: Uint8Array;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+// MS-DOS date/time fields as written by zip tools, in local time.
+const fromDosDateTime = (date: number, time: number) =>
+    new Date(1980 + (date >> 9), ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2);
+
+const findEndOfCentralDirectory = (view: DataView) => {
+    // The record is 22 bytes plus a comment of at most 64 KiB.
+    for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 0xffff); offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new Error("Not a ZIP archive");
+};
+
+/**
+ * Reads every file in a ZIP archive. Unlike fflate's own unzip this keeps each entry's modification
+ * time, which the photo gallery falls back on when file names carry no timestamp.
+ */
+export const readZip = (buffer: ArrayBuffer): ZipEntry[] => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const end = findEndOfCentralDirectory(view);
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error("Corrupt ZIP central directory");
+
+        const method = view.getUint16(offset + 10, true);
+        const modified = fromDosDateTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true));
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = strFromU8(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith("/")) continue; // Directory
+
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt ZIP entry ${name}`);
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === STORED) entries.push({ name, modified, data: raw });
+        else if (method === DEFLATED) entries.push({ name, modified, data: inflateSync(raw) });
+        else throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+    return entries;
+};
@@ -0,0 +1,103 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { loadJson, saveJson } from "../utils/storage";
+import { NotificationSeverity } from "./events";
+
+const HISTORY_KEY = "notifications.history";
+const DESKTOP_KEY = "notifications.desktop";
+const MAX_HISTORY = 200;
+
+export interface AppNotification {
+    id: string;
+    severity: NotificationSeverity;
+    title?: string;
+    message: string;
+    timestamp: number;
+    read: boolean;
+}
+
+export interface NotifyOptions {
+    severity: NotificationSeverity;
+    message: string;
+    title?: string;
+    // Also show a desktop notification when the user enabled them.
+    desktop?: boolean;
+}
+
+interface NotificationContextValue {
+    // Newest first.
+    notifications: AppNotification[];
+    // Notifications still waiting to be shown as a toast, oldest first.
+    toasts: AppNotification[];
+    notify: (options: NotifyOptions) => void;
+    dismissToast: (id: string) => void;
+    markAllRead: () => void;
+    clear: () => void;
+    desktopEnabled: boolean;
+    setDesktopEnabled: (enabled: boolean) => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextValue | null>(null);
+
+const showDesktop = ({ title, message }: NotifyOptions) => {
+    if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+    new Notification(title ?? "Printer Dashboard", { body: message });
+};
+
+/** App-wide non-blocking notifications: toasts, a history that survives reloads and optional desktop popups. */
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [notifications, setNotifications] = useState<AppNotification[]>(() =>
+        loadJson<AppNotification[]>(HISTORY_KEY, [])
+    );
+    const [toasts, setToasts] = useState<AppNotification[]>([]);
+    const [desktopEnabled, setDesktop] = useState<boolean>(() => loadJson(DESKTOP_KEY, false));
+    const desktopRef = useRef(desktopEnabled);
+    desktopRef.current = desktopEnabled;
+
+    useEffect(() => saveJson(HISTORY_KEY, notifications), [notifications]);
+    useEffect(() => saveJson(DESKTOP_KEY, desktopEnabled), [desktopEnabled]);
+
+    // Stable so it can be used from effects and callbacks without re-running them.
+    const notify = useCallback((options: NotifyOptions) => {
+        const notification: AppNotification = {
+            id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+            severity: options.severity,
+            title: options.title,
+            message: options.message,
+            timestamp: Date.now(),
+            read: false,
+        };
+        setNotifications((prev) => [notification, ...prev].slice(0, MAX_HISTORY));
+        setToasts((prev) => [...prev, notification]);
+        if (options.desktop && desktopRef.current) showDesktop(options);
+    }, []);
+
+    const setDesktopEnabled = useCallback(async (enabled: boolean) => {
+        if (enabled && typeof Notification !== "undefined" && Notification.permission !== "granted") {
+            const permission = await Notification.requestPermission();
+            if (permission !== "granted") return;
+        }
+        setDesktop(enabled);
+    }, []);
+
+    const value = useMemo<NotificationContextValue>(
+        () => ({
+            notifications,
+            toasts,
+            notify,
+            dismissToast: (id) => setToasts((prev) => prev.filter((toast) => toast.id !== id)),
+            markAllRead: () => setNotifications((prev) => prev.map((n) => (n.read ? n : { ...n, read: true }))),
+            clear: () => setNotifications([]),
+            desktopEnabled,
+            setDesktopEnabled,
+        }),
+        [notifications, toasts, notify, desktopEnabled, setDesktopEnabled]
+    );
+
+    return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+};
+
+export const useNotifications = () => {
+    const context = useContext(NotificationContext);
+    if (!context) throw new Error("useNotifications must be used inside a NotificationProvider");
+    return context;
+};
@@ -0,0 +1,58 @@
+import { Job, PrinterStatus } from '../types';
+import { job } from '../testFixtures';
+import { derivePrinterEvents, PrinterObservation } from './events';
+
+const status = (changes: Partial<PrinterStatus> = {}): PrinterStatus => ({
+  state: 'Printing', nozzle_temperature: 215, bed_temperature: 60, operational: true, printing: true, paused: false, ...changes,
+});
+
+const observe = (printerStatus: PrinterStatus | null, jobs: Job[] | null): PrinterObservation => ({
+  status: printerStatus, jobs,
+});
+
+test('treats the first observation as the baseline', () => {
+  expect(derivePrinterEvents('MK3', null, observe(status({ state: 'Error' }), [job(1, { status: 'FAILED' })]))).toEqual([]);
+});
+
+test('reports jobs that finished or failed since the last observation', () => {
+  const events = derivePrinterEvents(
+    'MK3',
+    observe(status(), [job(1, { status: 'STARTED' }), job(2, { status: 'STARTED' }), job(3, { status: 'FINISHED' })]),
+    observe(status(), [
+      job(1, { status: 'FINISHED' }),
+      job(2, { status: 'FAILED' }),
+      job(3, { status: 'FINISHED' }),
+      job(4, { status: 'FAILED' }),
+    ])
+  );
+
+  expect(events.map((event) => [event.severity, event.message])).toEqual([
+    ['success', 'part-1.gcode finished on MK3.'],
+    ['error', 'part-2.gcode failed on MK3.'],
+  ]);
+});
+
+test('reports entering the Error state and pausing once', () => {
+  const toError = derivePrinterEvents('MK3', observe(status(), null), observe(status({ state: 'Error' }), null));
+  expect(toError.map((event) => event.title)).toEqual(['Printer error']);
+
+  const paused = status({ paused: true });
+  expect(derivePrinterEvents('MK3', observe(status(), null), observe(paused, null)).map((event) => event.title)).toEqual([
+    'Print paused',
+  ]);
+  expect(derivePrinterEvents('MK3', observe(paused, null), observe(paused, null))).toEqual([]);
+});
+
+test('leaves transitions the state machines do not allow to the timeline', () => {
+  const events = derivePrinterEvents(
+    'MK3',
+    observe(status({ state: 'Idle' }), [job(1, { status: 'FINISHED' })]),
+    observe(status({ state: 'Paused' }), [job(1, { status: 'STARTED' })])
+  );
+
+  expect(events.map((event) => [event.severity, event.message])).toEqual([['warning', 'The print on MK3 was paused.']]);
+});
+
+test('ignores job changes when only the status is known', () => {
+  expect(derivePrinterEvents('MK3', observe(status(), null), observe(status(), [job(1, { status: 'FINISHED' })]))).toEqual([]);
+});
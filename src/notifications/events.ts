@@ -0,0 +1,65 @@
+import { Job, PrinterStatus } from "../types";
+import { diffJobs, JobStatus, JobTransition } from "../lifecycle/jobState";
+import { printerTransition } from "../lifecycle/printerState";
+
+export type NotificationSeverity = "success" | "info" | "warning" | "error";
+
+export interface PrinterEvent {
+    severity: NotificationSeverity;
+    title: string;
+    message: string;
+}
+
+// What was last seen of a printer. Jobs are null where only the status is polled (fleet view).
+export interface PrinterObservation {
+    status: PrinterStatus | null;
+    jobs: Job[] | null;
+}
+
+const JOB_OUTCOMES: Partial<Record<JobStatus, { severity: NotificationSeverity; title: string; verb: string }>> = {
+    FINISHED: { severity: "success", title: "Job finished", verb: "finished" },
+    FAILED: { severity: "error", title: "Job failed", verb: "failed" },
+    CANCELLED: { severity: "info", title: "Job cancelled", verb: "was cancelled" },
+};
+
+/** Job status changes between two observations; empty for the first one. */
+export const observedJobTransitions = (previous: PrinterObservation | null, current: PrinterObservation, at = Date.now()) =>
+    previous?.jobs && current.jobs ? diffJobs(previous.jobs, current.jobs, at) : [];
+
+/**
+ * Events worth telling the user about between two observations of a printer.
+ * The first observation only sets the baseline, so opening a page never replays old events.
+ */
+export const derivePrinterEvents = (
+    printerName: string,
+    previous: PrinterObservation | null,
+    current: PrinterObservation,
+    jobTransitions: JobTransition[] = observedJobTransitions(previous, current)
+): PrinterEvent[] => {
+    if (!previous) return [];
+    const events: PrinterEvent[] = [];
+
+    // Transitions the state machines don't allow only show up on the job timeline.
+    jobTransitions.forEach((transition) => {
+        if (!transition.valid) return;
+        const outcome = JOB_OUTCOMES[transition.to];
+        if (!outcome) return;
+        events.push({
+            severity: outcome.severity,
+            title: outcome.title,
+            message: `${transition.fileName} ${outcome.verb} on ${printerName}.`,
+        });
+    });
+
+    const change = previous.status && current.status ? printerTransition(previous.status, current.status) : null;
+    if (change) {
+        if (change.to === "Error") {
+            events.push({ severity: "error", title: "Printer error", message: `${printerName} entered the Error state.` });
+        }
+        if (change.to === "Paused") {
+            events.push({ severity: "warning", title: "Print paused", message: `The print on ${printerName} was paused.` });
+        }
+    }
+
+    return events;
+};
@@ -0,0 +1,179 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { PrinterApi } from "../api/client";
+import { PrinterApiFactory, PrinterApiProvider, usePrinterApiFactory } from "../api/PrinterApiContext";
+import { describeError } from "../api/errors";
+import { useAuth } from "../auth/AuthContext";
+import { useSettings } from "../config/SettingsContext";
+import { useNotifications } from "../notifications/NotificationContext";
+import { loadJson, saveJson } from "../utils/storage";
+import { describeAction, isOfflineError, OutboxAction, OutboxEntry, replayOutbox } from "./outbox";
+
+// Each user has their own outbox, so queued actions are never replayed under someone else's name.
+const outboxKey = (username: string) => `offline.outbox.${username}`;
+// How often queued actions are retried while a backend stays unreachable.
+const RETRY_INTERVAL = 30000;
+
+interface ConnectivityContextValue {
+    browserOnline: boolean;
+    // Ids of printers whose last request failed with a network error.
+    unreachablePrinters: string[];
+    outbox: OutboxEntry[];
+    enqueue: (printerId: string, action: OutboxAction) => void;
+    flush: () => void;
+}
+
+const ConnectivityContext = createContext<ConnectivityContextValue | null>(null);
+
+// Wraps every API call so its outcome tells us whether the backend is reachable.
+const trackReachability = (api: PrinterApi, report: (reachable: boolean) => void): PrinterApi =>
+    Object.fromEntries(
+        Object.entries(api).map(([name, call]) => [
+            name,
+            (...args: unknown[]) => {
+                const result = (call as (...a: unknown[]) => unknown)(...args);
+                if (!(result instanceof Promise)) return result;
+                return result.then(
+                    (value) => {
+                        report(true);
+                        return value;
+                    },
+                    (error) => {
+                        report(!isOfflineError(error));
+                        throw error;
+                    }
+                );
+            },
+        ])
+    ) as unknown as PrinterApi;
+
+/**
+ * Tracks browser and backend connectivity and keeps an outbox of actions made while offline,
+ * replaying them once the printer's backend answers again. Must be rendered inside AuthProvider;
+ * API clients created below it report their reachability automatically.
+ * The outbox belongs to the signed-in user and is swapped when someone else signs in.
+ */
+export const ConnectivityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const parentFactory = usePrinterApiFactory();
+    const { token, user } = useAuth();
+    const username = user?.username ?? "anonymous";
+    const { findPrinter } = useSettings();
+    const { notify } = useNotifications();
+    const [browserOnline, setBrowserOnline] = useState(() => navigator.onLine);
+    const [unreachablePrinters, setUnreachablePrinters] = useState<string[]>([]);
+    const [outboxOwner, setOutboxOwner] = useState(username);
+    const [outbox, setOutbox] = useState<OutboxEntry[]>(() => loadJson<OutboxEntry[]>(outboxKey(username), []));
+    if (outboxOwner !== username) {
+        setOutboxOwner(username);
+        setOutbox(loadJson<OutboxEntry[]>(outboxKey(username), []));
+    }
+    const replaying = useRef(false);
+    const outboxRef = useRef(outbox);
+    outboxRef.current = outbox;
+    const usernameRef = useRef(username);
+    usernameRef.current = username;
+
+    useEffect(() => saveJson(outboxKey(outboxOwner), outbox), [outboxOwner, outbox]);
+
+    const flush = useCallback(async () => {
+        if (replaying.current || outboxRef.current.length === 0) return;
+        replaying.current = true;
+
+        const owner = usernameRef.current;
+        const started = outboxRef.current;
+        let rejected = 0;
+        const pending = await replayOutbox(
+            started,
+            (printerId) => {
+                const printer = findPrinter(printerId);
+                return printer ? parentFactory(printer, token) : null;
+            },
+            (entry, error) => {
+                rejected += 1;
+                console.error("Queued action was rejected:", entry, error);
+                notify({ severity: "error", message: `${describeAction(entry.action)} could not be sent. ${describeError(error)}` });
+            }
+        );
+
+        const delivered = started.length - pending.length - rejected;
+        if (delivered > 0) {
+            notify({ severity: "success", message: `Sent ${delivered} queued action${delivered === 1 ? "" : "s"}.` });
+        }
+
+        // Keep whatever was queued while the replay was running.
+        const startedIds = new Set(started.map((entry) => entry.id));
+        const keep = (current: OutboxEntry[]) => [...pending, ...current.filter((entry) => !startedIds.has(entry.id))];
+        if (usernameRef.current === owner) {
+            setOutbox(keep);
+        } else {
+            // The user signed out mid-replay; what's left goes back to their own outbox.
+            saveJson(outboxKey(owner), keep(loadJson<OutboxEntry[]>(outboxKey(owner), [])));
+        }
+        replaying.current = false;
+    }, [parentFactory, token, findPrinter, notify]);
+
+    const report = useCallback(
+        (printerId: string, reachable: boolean) =>
+            setUnreachablePrinters((prev) => {
+                const listed = prev.includes(printerId);
+                if (reachable === !listed) return prev;
+                return reachable ? prev.filter((id) => id !== printerId) : [...prev, printerId];
+            }),
+        []
+    );
+
+    const factory = useMemo<PrinterApiFactory>(
+        () => (printer, authToken) =>
+            trackReachability(parentFactory(printer, authToken), (reachable) => report(printer.id, reachable)),
+        [parentFactory, report]
+    );
+
+    useEffect(() => {
+        const onOnline = () => {
+            setBrowserOnline(true);
+            flush();
+        };
+        const onOffline = () => setBrowserOnline(false);
+        window.addEventListener("online", onOnline);
+        window.addEventListener("offline", onOffline);
+        return () => {
+            window.removeEventListener("online", onOnline);
+            window.removeEventListener("offline", onOffline);
+        };
+    }, [flush]);
+
+    // Replay as soon as a printer with queued actions becomes reachable, and periodically after that.
+    const waitingPrinters = outbox.filter((entry) => !unreachablePrinters.includes(entry.printerId)).length;
+    useEffect(() => {
+        if (waitingPrinters > 0 && browserOnline) flush();
+    }, [waitingPrinters, browserOnline, flush]);
+
+    useEffect(() => {
+        if (outbox.length === 0) return;
+        const interval = window.setInterval(flush, RETRY_INTERVAL);
+        return () => window.clearInterval(interval);
+    }, [outbox.length, flush]);
+
+    const value: ConnectivityContextValue = {
+        browserOnline,
+        unreachablePrinters,
+        outbox,
+        enqueue: (printerId, action) =>
+            setOutbox((prev) => [
+                ...prev,
+                { id: `${Date.now()}-${Math.random().toString(36).slice(2)}`, printerId, action, queuedAt: Date.now() },
+            ]),
+        flush,
+    };
+
+    return (
+        <ConnectivityContext.Provider value={value}>
+            <PrinterApiProvider factory={factory}>{children}</PrinterApiProvider>
+        </ConnectivityContext.Provider>
+    );
+};
+
+export const useConnectivity = () => {
+    const context = useContext(ConnectivityContext);
+    if (!context) throw new Error("useConnectivity must be used inside a ConnectivityProvider");
+    return context;
+};
@@ -0,0 +1,50 @@
+import { OutboxEntry, replayOutbox } from './outbox';
+import { formatAge } from './snapshot';
+import { ApiError } from '../api/errors';
+import { PrinterApi } from '../api/client';
+
+const rating = (jobId: number) => ({ jobId, printQuality: 8, printSpeed: 7, feedback: '', defects: [], photo: null });
+
+const entry = (id: string, jobId: number): OutboxEntry => ({
+  id, printerId: 'p1', action: { kind: 'rateJob', rating: rating(jobId) }, queuedAt: 0,
+});
+
+const apiWith = (rateJob: jest.Mock) => ({ rateJob }) as unknown as PrinterApi;
+
+test('replays queued entries in order', async () => {
+  const rateJob = jest.fn().mockResolvedValue(undefined);
+
+  const pending = await replayOutbox([entry('a', 1), entry('b', 2)], () => apiWith(rateJob), jest.fn());
+
+  expect(pending).toEqual([]);
+  expect(rateJob.mock.calls.map(([r]) => r.jobId)).toEqual([1, 2]);
+});
+
+test('stops at the first entry that is still offline', async () => {
+  const rateJob = jest.fn()
+    .mockResolvedValueOnce(undefined)
+    .mockRejectedValueOnce(new ApiError('network', 'url', 'Failed to fetch'));
+
+  const pending = await replayOutbox([entry('a', 1), entry('b', 2), entry('c', 3)], () => apiWith(rateJob), jest.fn());
+
+  expect(pending.map((e) => e.id)).toEqual(['b', 'c']);
+});
+
+test('drops entries the backend rejects', async () => {
+  const rateJob = jest.fn()
+    .mockRejectedValueOnce(new ApiError('http', 'url', 'Bad request', 400))
+    .mockResolvedValueOnce(undefined);
+  const onRejected = jest.fn();
+
+  const pending = await replayOutbox([entry('a', 1), entry('b', 2)], () => apiWith(rateJob), onRejected);
+
+  expect(pending).toEqual([]);
+  expect(onRejected).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }), expect.any(ApiError));
+});
+
+test('formats data age', () => {
+  expect(formatAge(2000)).toBe('just now');
+  expect(formatAge(42000)).toBe('42 s');
+  expect(formatAge(5 * 60000)).toBe('5 min');
+  expect(formatAge(3 * 3600000)).toBe('3 h');
+});
@@ -0,0 +1,68 @@
+import { JobRating } from "../types";
+import { PrinterApi } from "../api/client";
+import { ApiError } from "../api/errors";
+
+/**
+ * Actions that are safe to send late. Printer commands (pause, cancel, ...) are deliberately not
+ * queueable: replaying them minutes later could act on a different print.
+ */
+export type OutboxAction =
+    | { kind: "rateJob"; rating: JobRating }
+    | { kind: "updateRating"; rating: JobRating };
+
+export interface OutboxEntry {
+    id: string;
+    printerId: string;
+    action: OutboxAction;
+    queuedAt: number;
+}
+
+/** True when the request never reached the backend, as opposed to the backend rejecting it. */
+export const isOfflineError = (error: unknown) => error instanceof ApiError && error.kind === "network";
+
+export const describeAction = (action: OutboxAction) => {
+    switch (action.kind) {
+        case "rateJob":
+            return `Rating for job ${action.rating.jobId}`;
+        case "updateRating":
+            return `Rating update for job ${action.rating.jobId}`;
+    }
+};
+
+export const sendAction = (api: PrinterApi, action: OutboxAction) => {
+    switch (action.kind) {
+        case "rateJob":
+            return api.rateJob(action.rating);
+        case "updateRating":
+            return api.updateRating(action.rating);
+    }
+};
+
+/**
+ * Sends queued entries in order and returns the ones still pending. Stops at the first entry whose
+ * backend is unreachable; entries the backend rejects are dropped (reported through `onRejected`)
+ * since sending them again would fail the same way.
+ */
+export const replayOutbox = async (
+    entries: OutboxEntry[],
+    apiFor: (printerId: string) => PrinterApi | null,
+    onRejected: (entry: OutboxEntry, error: unknown) => void
+) => {
+    const pending = [...entries];
+    while (pending.length > 0) {
+        const entry = pending[0];
+        const api = apiFor(entry.printerId);
+        if (!api) {
+            onRejected(entry, new Error(`Unknown printer ${entry.printerId}`));
+        } else {
+            try {
+                await sendAction(api, entry.action);
+            } catch (error) {
+                if (isOfflineError(error)) break;
+                onRejected(entry, error);
+            }
+        }
+        pending.shift();
+    }
+    return pending;
+};
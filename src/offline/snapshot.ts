@@ -0,0 +1,29 @@
+import { Job, PrinterStatus } from "../types";
+import { loadJson, saveJson } from "../utils/storage";
+
+// Last data received from a printer, shown (marked stale) while its backend can't be reached.
+export interface PrinterSnapshot {
+    status: PrinterStatus | null;
+    statusAt: number | null;
+    jobs: Job[];
+    jobsAt: number | null;
+}
+
+const EMPTY_SNAPSHOT: PrinterSnapshot = { status: null, statusAt: null, jobs: [], jobsAt: null };
+
+const snapshotKey = (printerId: string) => `offline.snapshot.${printerId}`;
+
+export const loadSnapshot = (printerId: string) => loadJson(snapshotKey(printerId), EMPTY_SNAPSHOT);
+
+export const saveSnapshot = (printerId: string, changes: Partial<PrinterSnapshot>) =>
+    saveJson(snapshotKey(printerId), { ...loadSnapshot(printerId), ...changes });
+
+/** "just now", "42 s", "5 min", "3 h", "2 d". */
+export const formatAge = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    if (seconds < 5) return "just now";
+    if (seconds < 60) return `${seconds} s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)} min`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)} h`;
+    return `${Math.floor(seconds / 86400)} d`;
+};
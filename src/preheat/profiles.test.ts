@@ -0,0 +1,24 @@
+import { heatingProgress, validateSetpoints } from './profiles';
+
+test('accepts setpoints within the firmware limits', () => {
+  expect(validateSetpoints({ nozzle: 215, bed: 60 })).toBeNull();
+  expect(validateSetpoints({ nozzle: 0, bed: 0 })).toBeNull();
+});
+
+test('rejects out-of-range or missing setpoints', () => {
+  expect(validateSetpoints({ nozzle: 350, bed: 60 })).toMatch(/Nozzle/);
+  expect(validateSetpoints({ nozzle: 215, bed: -5 })).toMatch(/Bed/);
+  expect(validateSetpoints({ nozzle: NaN, bed: 60 })).toMatch(/Nozzle/);
+});
+
+test('heating progress runs from ambient to target', () => {
+  expect(heatingProgress(25, 225)).toBe(0);
+  expect(heatingProgress(125, 225)).toBe(0.5);
+  expect(heatingProgress(230, 225)).toBe(1);
+  expect(heatingProgress(20, 60)).toBe(0);
+});
+
+test('heating progress is undefined while the heater is off', () => {
+  expect(heatingProgress(25, 0)).toBeNull();
+  expect(heatingProgress(25, undefined)).toBeNull();
+});
@@ -0,0 +1,46 @@
+export interface Setpoints {
+    nozzle: number;
+    bed: number;
+}
+
+export interface MaterialProfile extends Setpoints {
+    id: string;
+    name: string;
+    // Built-in profiles can be edited but not deleted.
+    builtIn: boolean;
+}
+
+export const DEFAULT_PROFILES: MaterialProfile[] = [
+    { id: "pla", name: "PLA", nozzle: 215, bed: 60, builtIn: true },
+    { id: "petg", name: "PETG", nozzle: 240, bed: 80, builtIn: true },
+    { id: "abs", name: "ABS", nozzle: 255, bed: 100, builtIn: true },
+];
+
+// Firmware limits; setpoints outside these are rejected before they reach the printer.
+export const MAX_NOZZLE_TEMP = 300;
+export const MAX_BED_TEMP = 120;
+
+const AMBIENT_TEMP = 25;
+
+/**
+ * Returns an error message for setpoints the printer would refuse, or null when they are fine.
+ * A setpoint of 0 turns that heater off.
+ */
+export const validateSetpoints = ({ nozzle, bed }: Setpoints): string | null => {
+    if (!Number.isFinite(nozzle) || nozzle < 0 || nozzle > MAX_NOZZLE_TEMP) {
+        return `Nozzle target must be between 0 and ${MAX_NOZZLE_TEMP}°C.`;
+    }
+    if (!Number.isFinite(bed) || bed < 0 || bed > MAX_BED_TEMP) {
+        return `Bed target must be between 0 and ${MAX_BED_TEMP}°C.`;
+    }
+    return null;
+};
+
+/**
+ * Fraction (0-1) of the way from ambient to the target temperature, or null when the heater is off.
+ */
+export const heatingProgress = (current: number, target: number | undefined): number | null => {
+    if (!target) return null;
+    if (current >= target || target <= AMBIENT_TEMP) return 1;
+    return Math.max(0, (current - AMBIENT_TEMP) / (target - AMBIENT_TEMP));
+};
@@ -0,0 +1,38 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Picked up by react-scripts at build time (InjectManifest). It only makes the app shell available
+// offline; printer data is cached by the app itself so it can be shown with its age.
+
+import { clientsClaim } from "workbox-core";
+import { ExpirationPlugin } from "workbox-expiration";
+import { createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching";
+import { registerRoute } from "workbox-routing";
+import { StaleWhileRevalidate } from "workbox-strategies";
+
+declare const self: ServiceWorkerGlobalScope;
+
+clientsClaim();
+
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Serve index.html for client-side routes such as /printers/:id.
+const fileExtension = /\/[^/?]+\.[^/]+$/;
+registerRoute(({ request, url }) => {
+    if (request.mode !== "navigate") return false;
+    if (url.pathname.startsWith("/_")) return false;
+    return !url.pathname.match(fileExtension);
+}, createHandlerBoundToURL(`${process.env.PUBLIC_URL}/index.html`));
+
+// Static images from public/ (printer illustration, icons).
+registerRoute(
+    ({ url }) => url.origin === self.location.origin && /\.(png|svg|ico)$/.test(url.pathname),
+    new StaleWhileRevalidate({
+        cacheName: "images",
+        plugins: [new ExpirationPlugin({ maxEntries: 50 })],
+    })
+);
+
+self.addEventListener("message", (event) => {
+    if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
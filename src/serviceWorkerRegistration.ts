@@ -0,0 +1,71 @@
+// Registers the service worker in production builds so the dashboard opens without a network.
+// In development it stays off to avoid serving stale bundles while editing.
+
+const isLocalhost = Boolean(
+    window.location.hostname === "localhost" ||
+        window.location.hostname === "[::1]" ||
+        window.location.hostname.match(/^127(?:\.(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)){3}$/)
+);
+
+interface Config {
+    onUpdate?: (registration: ServiceWorkerRegistration) => void;
+}
+
+const registerValidSW = async (swUrl: string, config?: Config) => {
+    try {
+        const registration = await navigator.serviceWorker.register(swUrl);
+        registration.onupdatefound = () => {
+            const installing = registration.installing;
+            if (!installing) return;
+            installing.onstatechange = () => {
+                if (installing.state === "installed" && navigator.serviceWorker.controller) {
+                    console.log("New dashboard version available; it will be used after all tabs are closed.");
+                    config?.onUpdate?.(registration);
+                }
+            };
+        };
+    } catch (error) {
+        console.error("Error during service worker registration:", error);
+    }
+};
+
+// On localhost, make sure a service worker really exists before registering (another app may have used the port).
+const checkValidServiceWorker = async (swUrl: string, config?: Config) => {
+    try {
+        const response = await fetch(swUrl, { headers: { "Service-Worker": "script" } });
+        const contentType = response.headers.get("content-type");
+        if (response.status === 404 || (contentType && !contentType.includes("javascript"))) {
+            const registration = await navigator.serviceWorker.ready;
+            await registration.unregister();
+            window.location.reload();
+        } else {
+            registerValidSW(swUrl, config);
+        }
+    } catch {
+        console.log("No internet connection found. Dashboard is running in offline mode.");
+    }
+};
+
+export const register = (config?: Config) => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    const publicUrl = new URL(process.env.PUBLIC_URL, window.location.href);
+    // Our service worker won't work if PUBLIC_URL is on a different origin (e.g. a CDN).
+    if (publicUrl.origin !== window.location.origin) return;
+
+    window.addEventListener("load", () => {
+        const swUrl = `${process.env.PUBLIC_URL}/service-worker.js`;
+        if (isLocalhost) checkValidServiceWorker(swUrl, config);
+        else registerValidSW(swUrl, config);
+    });
+};
+
+export const unregister = async () => {
+    if (!("serviceWorker" in navigator)) return;
+    try {
+        const registration = await navigator.serviceWorker.ready;
+        await registration.unregister();
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+    }
+};
@@ -0,0 +1,55 @@
+// Geometry of the generated test prints: a hollow square tower.
+const SIDE = 40;
+const LAYER_HEIGHT = 0.2;
+const FILAMENT_PER_MM = 0.033;
+
+export interface SimulatedGcode {
+    lines: string[];
+    // Motion commands only, in file order; the last one sent is the "last valid" command.
+    commandLines: number[];
+    filamentLength: number;
+}
+
+/** A small but realistic G-code file, so the viewer, twin and recovery wizard have something to show. */
+export const generateGcode = (fileName: string, layers: number, nozzle = 215, bed = 60): SimulatedGcode => {
+    const lines = [
+        `; ${fileName} generated by the printer simulator`,
+        `M140 S${bed}`,
+        `M104 S${nozzle}`,
+        `M190 S${bed}`,
+        `M109 S${nozzle}`,
+        "G28",
+        "G92 E0",
+    ];
+    const commandLines: number[] = [];
+    let extruded = 0;
+    const origin = 100 - SIDE / 2;
+    const corners = [
+        [origin, origin],
+        [origin + SIDE, origin],
+        [origin + SIDE, origin + SIDE],
+        [origin, origin + SIDE],
+        [origin, origin],
+    ];
+
+    for (let layer = 1; layer <= layers; layer++) {
+        lines.push(`;LAYER:${layer - 1}`);
+        commandLines.push(lines.length);
+        lines.push(`G0 X${origin} Y${origin} Z${(layer * LAYER_HEIGHT).toFixed(2)} F9000`);
+        for (const [x, y] of corners.slice(1)) {
+            extruded += SIDE * FILAMENT_PER_MM;
+            commandLines.push(lines.length);
+            lines.push(`G1 X${x} Y${y} E${extruded.toFixed(4)} F1800`);
+        }
+    }
+    lines.push("M104 S0", "M140 S0", "G28 X");
+
+    return { lines, commandLines, filamentLength: extruded };
+};
+
+/** The motion command being executed at `progress` percent. */
+export const commandAt = (gcode: SimulatedGcode, progress: number) => {
+    if (gcode.commandLines.length === 0) return null;
+    const index = Math.min(gcode.commandLines.length - 1, Math.floor((progress / 100) * gcode.commandLines.length));
+    return gcode.lines[gcode.commandLines[index]];
+};
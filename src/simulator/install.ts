@@ -0,0 +1,68 @@
+import { SCENARIOS } from "./scenarios";
+import { createSimulatedBackend, SimulatedBackend } from "./simulatedFetch";
+
+const TICK_INTERVAL = 1000;
+
+type Listener = (event: MessageEvent) => void;
+
+// Pushes the simulator's state the way the real telemetry stream does, once per tick.
+const createEventSourceClass = (backend: SimulatedBackend) =>
+    class SimulatedEventSource {
+        onopen: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+        private listeners = new Map<string, Listener[]>();
+        private timer: ReturnType<typeof setInterval>;
+
+        constructor(url: string) {
+            const printer = backend.simulator(url.slice(0, url.indexOf("/dashboard/")));
+            const authorized = printer.redeemTelemetryTicket(new URL(url).searchParams.get("ticket") ?? "");
+            let open = false;
+            this.timer = setInterval(() => {
+                if (!authorized || !printer.isReachable()) {
+                    this.close();
+                    this.onerror?.();
+                    return;
+                }
+                if (!open) {
+                    open = true;
+                    this.onopen?.();
+                }
+                const { status, jobs, command, queue } = printer.telemetry();
+                this.emit("status", status);
+                this.emit("jobs", jobs);
+                this.emit("command", command);
+                this.emit("queue", queue);
+            }, TICK_INTERVAL);
+        }
+
+        addEventListener(type: string, listener: Listener) {
+            this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+        }
+
+        close() {
+            clearInterval(this.timer);
+        }
+
+        private emit(type: string, payload: unknown) {
+            const event = new MessageEvent(type, { data: JSON.stringify(payload) });
+            this.listeners.get(type)?.forEach((listener) => listener(event));
+        }
+    };
+
+/**
+ * Replaces fetch and EventSource with the simulated backend and runs it in real time, so the
+ * dashboard can be developed without a printer. Enabled with REACT_APP_SIMULATOR=true; pick a
+ * scenario from SCENARIOS with REACT_APP_SIMULATOR_SCENARIO.
+ */
+export const installSimulator = () => {
+    const scenarioName = process.env.REACT_APP_SIMULATOR_SCENARIO || "normal";
+    const scenario = SCENARIOS[scenarioName];
+    if (!scenario) console.warn(`Unknown simulator scenario "${scenarioName}", running "normal".`);
+
+    const backend = createSimulatedBackend({ scenario: scenario ?? [] }, window.fetch.bind(window));
+    window.fetch = backend.fetch;
+    window.EventSource = createEventSourceClass(backend) as unknown as typeof EventSource;
+    setInterval(() => backend.tick(TICK_INTERVAL / 1000), TICK_INTERVAL);
+    console.info(`Printer simulator running the "${scenario ? scenarioName : "normal"}" scenario.`);
+    return backend;
+};
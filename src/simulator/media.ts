@@ -0,0 +1,31 @@
+import { zipSync } from "fflate";
+
+// A 1x1 PNG; the gallery only needs something it can decode.
+const PLACEHOLDER_PNG = Uint8Array.from(
+    atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="),
+    (char) => char.charCodeAt(0)
+);
+
+export interface SimulatedPhoto {
+    name: string;
+    data: Uint8Array;
+}
+
+/** A photo named after its capture time, the way the camera service names them. */
+export const placeholderPhoto = (takenAt: number): SimulatedPhoto => ({
+    name: `${Math.floor(takenAt / 1000)}.png`,
+    data: PLACEHOLDER_PNG,
+});
+
+export const photoArchive = (photos: SimulatedPhoto[]) =>
+    zipSync(Object.fromEntries(photos.map((photo) => [photo.name, photo.data])), { level: 0 });
+
+/**
+ * Bytes starting with an MP4 `ftyp` box. Players won't decode it, but downloads, sizes and progress
+ * reporting behave like the real thing.
+ */
+export const placeholderTimelapse = (size = 256 * 1024) => {
+    const bytes = new Uint8Array(size);
+    bytes.set([0, 0, 0, 0x18, 0x66, 0x74, 0x79, 0x70, 0x6d, 0x70, 0x34, 0x32]);
+    return bytes;
+};
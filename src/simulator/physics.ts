@@ -0,0 +1,20 @@
+export const AMBIENT_TEMPERATURE = 25;
+
+// Time constants of the first-order heater model, in seconds. The bed is much slower than the hotend.
+export const NOZZLE_TIME_CONSTANT = 25;
+export const BED_TIME_CONSTANT = 90;
+
+/**
+ * Temperature after `dt` seconds of a heater driving towards `target` (or cooling to ambient when
+ * off). Exact for a first-order system, so big and small steps give the same curve.
+ */
+export const approachTemperature = (current: number, target: number, dt: number, timeConstant: number) => {
+    const goal = target > 0 ? target : AMBIENT_TEMPERATURE;
+    return goal + (current - goal) * Math.exp(-dt / timeConstant);
+};
+
+/** Small deterministic sensor noise, so runs are repeatable in tests. */
+export const sensorNoise = (timeMs: number, amplitude: number) => amplitude * Math.sin(timeMs / 1700);
+
+export const isAtTemperature = (current: number, target: number, tolerance: number) =>
+    target <= 0 || Math.abs(current - target) <= tolerance;
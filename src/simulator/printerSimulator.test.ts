@@ -0,0 +1,206 @@
+import { createPrinterApi } from '../api/client';
+import { login } from '../api/auth';
+import { ApiError } from '../api/errors';
+import { JobRating } from '../types';
+import { SCENARIOS, ScenarioStep } from './scenarios';
+import { createSimulatedBackend } from './simulatedFetch';
+
+const printer = { id: 'sim', name: 'Sim', baseUrl: 'http://printer.test', cameras: [] };
+
+const setup = (scenario: ScenarioStep[] = []) => {
+  const backend = createSimulatedBackend({ scenario, startTime: Date.parse('2025-01-01T10:00:00Z'), jobDuration: 100 });
+  jest.spyOn(global, 'fetch').mockImplementation(backend.fetch);
+  return { backend, api: createPrinterApi(printer, 'sim-token-admin') };
+};
+
+afterEach(() => jest.restoreAllMocks());
+
+// Starts the first queued job and ticks until it is up to temperature and printing.
+const startPrinting = async (scenario: ScenarioStep[] = []) => {
+  const context = setup(scenario);
+  await context.api.startNextJob();
+  context.backend.tick(240);
+  return context;
+};
+
+const activeJob = async (api: ReturnType<typeof createPrinterApi>) =>
+  (await api.getJobs()).find((job) => ['STARTED', 'PAUSED', 'RESUMED'].includes(job.status) && !job.end_time);
+
+test('starts idle with a seeded history and queue', async () => {
+  const { api } = setup();
+
+  const status = await api.getPrinterStatus();
+  const queue = await api.getQueue();
+
+  expect(status.state).toBe('Idle');
+  expect(status.nozzle_temperature).toBeCloseTo(25, 0);
+  expect(queue.map((job) => job.queue_position)).toEqual([0, 1]);
+  expect((await api.getRatings()).length).toBe(1);
+});
+
+test('heats along a curve and only prints once at temperature', async () => {
+  const { api, backend } = setup();
+  await api.startNextJob();
+
+  backend.tick(10);
+  const warming = await api.getPrinterStatus();
+  expect(warming.state).toBe('Printing');
+  expect(warming.nozzle_temperature).toBeGreaterThan(25);
+  expect(warming.nozzle_temperature).toBeLessThan(215);
+  expect((await activeJob(api))?.progress).toBe(0);
+
+  backend.tick(230);
+  const printing = await api.getPrinterStatus();
+  expect(printing.nozzle_temperature).toBeCloseTo(215, 0);
+  expect((await activeJob(api))?.progress).toBeGreaterThan(0);
+  expect(await api.getLastValidCommand()).toMatch(/^G[01] /);
+});
+
+test('rejects starting while busy', async () => {
+  const { api } = await startPrinting();
+
+  await expect(api.startNextJob()).rejects.toMatchObject({ status: 409 });
+});
+
+test('pauses, resumes and cancels', async () => {
+  const { api, backend } = await startPrinting();
+
+  await api.pause();
+  const paused = await activeJob(api);
+  expect((await api.getPrinterStatus()).state).toBe('Paused');
+  backend.tick(10);
+  expect((await activeJob(api))?.progress).toBe(paused?.progress);
+
+  await api.continuePrint();
+  expect((await activeJob(api))?.status).toBe('RESUMED');
+  expect((await api.getPrinterStatus()).state).toBe('Printing');
+
+  await api.cancel();
+  expect((await api.getPrinterStatus()).state).toBe('Cancelling');
+  expect((await api.getJob(paused!.id)).status).toBe('CANCELLED');
+  backend.tick(5);
+  const status = await api.getPrinterStatus();
+  expect(status.state).toBe('Idle');
+  expect(status.nozzle_target).toBe(0);
+});
+
+test('finishes the job and records its media', async () => {
+  const { api, backend } = await startPrinting();
+  const jobId = (await activeJob(api))!.id;
+
+  backend.tick(120);
+
+  const job = await api.getJob(jobId);
+  expect(job.status).toBe('FINISHED');
+  expect(job.progress).toBe(100);
+  expect(job.end_time).toBeTruthy();
+  expect((await api.getTemperatureHistory(jobId)).length).toBeGreaterThan(10);
+  expect(await api.getGcode(jobId)).toContain('M104 S215');
+  expect((await api.getTimelapse(jobId)).size).toBeGreaterThan(0);
+  expect((await api.getPictureHistory(jobId)).type).toBe('application/zip');
+  backend.tick(15);
+  expect((await api.getPrinterStatus()).state).toBe('Idle');
+});
+
+test('resumes from a chosen line after a pause', async () => {
+  const { api } = await startPrinting();
+  const jobId = (await activeJob(api))!.id;
+  const lines = (await api.getGcode(jobId)).split('\n');
+  await api.pause();
+
+  await api.submitNextValidCommand('G28', Math.floor(lines.length / 2));
+
+  expect(await api.getLastValidCommand()).toBe('G28');
+  expect((await api.getJob(jobId)).progress).toBeCloseTo(50, 0);
+  expect((await api.getPrinterStatus()).state).toBe('Printing');
+});
+
+test('manages the queue', async () => {
+  const { api } = setup();
+  const uploaded = await api.uploadGcode(new File(['G28'], 'clip.gcode'));
+  const [first, second] = await api.getQueue();
+
+  await api.reorderQueue([uploaded.id, second.id, first.id]);
+  await api.removeFromQueue(second.id);
+
+  expect((await api.getQueue()).map((job) => job.file_name)).toEqual(['clip.gcode', first.file_name]);
+});
+
+test('validates ratings like the client does', async () => {
+  const { api } = setup();
+  const job = await api.uploadGcode(new File(['G28'], 'clip.gcode'));
+  const rating = { jobId: job.id, printQuality: 4, printSpeed: 3, feedback: '', defects: [], photo: null };
+
+  await expect(api.rateJob({ ...rating, printQuality: 'good' } as unknown as JobRating)).rejects.toMatchObject({ status: 400 });
+  await api.rateJob(rating);
+  await expect(api.rateJob(rating)).rejects.toMatchObject({ status: 409 });
+  await api.updateRating({ ...rating, printQuality: 5 });
+
+  expect((await api.getRatings()).find((stored) => stored.jobId === job.id)).toEqual({ ...rating, printQuality: 5 });
+});
+
+test('thermal runaway drives the heater past its target', async () => {
+  const { api, backend } = await startPrinting(SCENARIOS.thermalRunaway);
+
+  backend.tick(40);
+
+  const status = await api.getPrinterStatus();
+  expect(status.nozzle_temperature).toBeGreaterThan(status.nozzle_target! + 20);
+});
+
+test('a mid-print failure fails the job and reports an error', async () => {
+  const { api, backend } = await startPrinting(SCENARIOS.midPrintFailure);
+  const jobId = (await activeJob(api))!.id;
+
+  backend.tick(60);
+
+  expect((await api.getPrinterStatus()).state).toBe('Error');
+  const job = await api.getJob(jobId);
+  expect(job.status).toBe('FAILED');
+  expect(job.progress).toBeGreaterThanOrEqual(50);
+  expect((await api.getJobEvents(jobId))[0].type).toBe('error');
+});
+
+test('a connection loss fails requests until it is over', async () => {
+  const { api, backend } = await startPrinting(SCENARIOS.connectionLoss);
+
+  backend.tick(15);
+  await expect(api.getPrinterStatus()).rejects.toMatchObject({ kind: 'network' });
+
+  backend.tick(20);
+  expect((await api.getPrinterStatus()).state).toBe('Printing');
+});
+
+test('audits control commands under the token user and enforces roles', async () => {
+  const { api } = await startPrinting();
+  const viewer = createPrinterApi(printer, 'sim-token-viewer');
+
+  await api.pause('auto-pause (Nozzle over 260°C)');
+  await expect(viewer.continuePrint()).rejects.toMatchObject({ status: 403 });
+  await expect(createPrinterApi(printer).getJobs()).rejects.toMatchObject({ status: 401 });
+  await expect(viewer.getAuditLog()).rejects.toMatchObject({ status: 403 });
+
+  expect((await api.getAuditLog()).map(({ user, action, result }) => [user, action, result])).toEqual([
+    ['viewer', 'continue', 'failure'],
+    ['admin', 'pause: auto-pause (Nozzle over 260°C)', 'success'],
+    ['admin', 'start', 'success'],
+  ]);
+});
+
+test('opens telemetry with single-use tickets', async () => {
+  const { api, backend } = setup();
+  const ticket = new URL(await api.telemetryUrl()).searchParams.get('ticket') ?? '';
+
+  expect(backend.simulator('http://printer.test').redeemTelemetryTicket(ticket)).toBe(true);
+  expect(backend.simulator('http://printer.test').redeemTelemetryTicket(ticket)).toBe(false);
+  await expect(createPrinterApi(printer).telemetryUrl()).rejects.toMatchObject({ status: 401 });
+});
+
+test('logs in the simulated users', async () => {
+  setup();
+
+  const session = await login('http://printer.test/auth', 'operator', 'password');
+
+  expect(session.user.role).toBe('operator');
+  await expect(login('http://printer.test/auth', 'operator', 'wrong')).rejects.toBeInstanceOf(ApiError);
+});
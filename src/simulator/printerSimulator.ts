@@ -0,0 +1,571 @@
+import { AuditEntry, Job, JobEvent, JobRating, PrinterStatus, TemperatureSample } from "../types";
+import { hasPermission, Permission, User } from "../auth/roles";
+import { PrinterState } from "../lifecycle/printerState";
+import { ValidationError } from "../api/errors";
+import { parseJobRating } from "../api/validation";
+import { commandAt, generateGcode, SimulatedGcode } from "./gcode";
+import { photoArchive, placeholderPhoto, placeholderTimelapse, SimulatedPhoto } from "./media";
+import {
+    AMBIENT_TEMPERATURE,
+    approachTemperature,
+    BED_TIME_CONSTANT,
+    isAtTemperature,
+    NOZZLE_TIME_CONSTANT,
+    sensorNoise,
+} from "./physics";
+import { ScenarioEvent, ScenarioStep } from "./scenarios";
+
+export interface SimulatedRequest {
+    method: string;
+    // Path below /dashboard, e.g. "/jobs/3/rating".
+    path: string;
+    query: URLSearchParams;
+    // Parsed JSON, FormData for uploads, or undefined.
+    body: unknown;
+    // The user the bearer token was issued to; null without a valid token.
+    user: User | null;
+}
+
+export interface SimulatedResponse {
+    status: number;
+    // JSON-serialisable data, text or raw bytes.
+    body?: unknown;
+    contentType?: string;
+}
+
+export interface TelemetrySnapshot {
+    status: PrinterStatus;
+    jobs: Job[];
+    command: { command: string | null };
+    queue: Job[];
+}
+
+export interface SimulatorOptions {
+    scenario?: ScenarioStep[];
+    // Simulated clock start, ms since the epoch.
+    startTime?: number;
+    // Seconds of printing per job once heated. Real jobs take hours; a few minutes keeps demos short.
+    jobDuration?: number;
+    layers?: number;
+}
+
+export interface PrinterSimulator {
+    // Advances the simulation; large steps are split so nothing is skipped.
+    tick: (seconds: number) => void;
+    handle: (request: SimulatedRequest) => SimulatedResponse;
+    // False while a scripted disconnect is in progress.
+    isReachable: () => boolean;
+    now: () => number;
+    telemetry: () => TelemetrySnapshot;
+    // Queues a step from outside, for interactive demos and tests.
+    addScenarioStep: (step: ScenarioStep) => void;
+    // Redeems a ticket from POST /telemetry/ticket; false when it is unknown, used or expired.
+    redeemTelemetryTicket: (ticket: string) => boolean;
+}
+
+interface SimulatedJob {
+    job: Job;
+    gcode: SimulatedGcode;
+    elapsed: number;
+    photos: SimulatedPhoto[];
+    temperatures: TemperatureSample[];
+    events: JobEvent[];
+}
+
+const MAX_STEP = 1;
+const NOZZLE_TOLERANCE = 5;
+const BED_TOLERANCE = 3;
+const HISTORY_SAMPLE_INTERVAL = 5000;
+const PHOTO_EVERY_PERCENT = 10;
+// How long transient states are shown before the printer is idle again, in seconds.
+const FINISHED_HOLD = 10;
+const CANCELLING_HOLD = 2;
+const DEFAULT_NOZZLE = 215;
+const DEFAULT_BED = 60;
+const RUNAWAY_LIMIT = 400;
+const TICKET_LIFETIME = 30000;
+
+const ok = (body?: unknown): SimulatedResponse => ({ status: 200, body });
+const error = (status: number, message: string): SimulatedResponse => ({ status, body: { error: message } });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Checks a request body with the client's validators and answers 400 when it doesn't fit.
+const withBody = <T>(body: unknown, parse: (data: unknown) => T, handle: (value: T) => SimulatedResponse): SimulatedResponse => {
+    let value: T;
+    try {
+        value = parse(body);
+    } catch (err) {
+        if (err instanceof ValidationError) return error(400, err.message);
+        throw err;
+    }
+    return handle(value);
+};
+
+// What each changing route needs, like a real backend that doesn't trust the UI to hide buttons.
+const requiredPermission = ({ method, path }: SimulatedRequest): Permission | null => {
+    if (method === "GET") return path === "/audit" ? "viewAudit" : null;
+    if (["/pause", "/continue", "/preheat"].includes(path) || /^\/jobs\/\d+\/snapshots$/.test(path)) return "control";
+    if (path === "/cancel") return "cancel";
+    if (path === "/next-valid" || /^\/jobs\/\d+\/events$/.test(path)) return "recover";
+    if (path === "/rate-job" || /^\/jobs\/\d+\/rating$/.test(path)) return "rate";
+    if (path.startsWith("/queue")) return "queue";
+    return null;
+};
+
+// The audit log action of a printer control command, or null for routes that aren't audited.
+const auditedAction = ({ method, path, body }: SimulatedRequest): string | null => {
+    if (method !== "POST") return null;
+    const fields = isObject(body) ? body : {};
+    switch (path) {
+        case "/pause":
+            return typeof fields.reason === "string" ? `pause: ${fields.reason}` : "pause";
+        case "/continue":
+            return "continue";
+        case "/cancel":
+            return "cancel";
+        case "/preheat":
+            return `preheat ${fields.nozzle}/${fields.bed}°C`;
+        case "/next-valid":
+            return `next-valid: ${fields.command}`;
+        case "/queue/start":
+            return "start";
+        default:
+            return null;
+    }
+};
+
+/**
+ * An in-memory printer backend that answers every /dashboard route the dashboard uses.
+ * Time only moves when `tick` is called, so tests are deterministic; the dev installer ticks it in
+ * real time.
+ */
+export const createPrinterSimulator = (options: SimulatorOptions = {}): PrinterSimulator => {
+    const jobDuration = options.jobDuration ?? 180;
+    const layers = options.layers ?? 40;
+    let now = options.startTime ?? Date.now();
+    let elapsedTotal = 0;
+    let nextJobId = 1;
+
+    let state: PrinterState = "Idle";
+    let stateSince = now;
+    let nozzle = AMBIENT_TEMPERATURE;
+    let bed = AMBIENT_TEMPERATURE;
+    let nozzleTarget = 0;
+    let bedTarget = 0;
+    let lastValid: string | null = null;
+    let runaway: { heater: "nozzle" | "bed"; ratePerSecond: number } | null = null;
+    let disconnectedFor = 0;
+
+    const jobs: SimulatedJob[] = [];
+    const ratings = new Map<number, JobRating>();
+    const audit: AuditEntry[] = [];
+    // Telemetry ticket -> expiry time.
+    const tickets = new Map<string, number>();
+    let nextTicket = 1;
+    const pending = [...(options.scenario ?? [])];
+
+    const iso = (time: number) => new Date(time).toISOString();
+
+    const createJob = (fileName: string, status: Job["status"], startTime: number): SimulatedJob => {
+        const gcode = generateGcode(fileName, layers);
+        const entry: SimulatedJob = {
+            job: {
+                id: nextJobId++,
+                file_name: fileName,
+                status,
+                start_time: iso(startTime),
+                end_time: null,
+                progress: 0,
+                estimated_completion_time: jobDuration,
+            },
+            gcode,
+            elapsed: 0,
+            photos: [],
+            temperatures: [],
+            events: [],
+        };
+        jobs.push(entry);
+        return entry;
+    };
+
+    const queued = () =>
+        jobs
+            .filter((entry) => entry.job.status === "QUEUED")
+            .sort((a, b) => (a.job.queue_position ?? 0) - (b.job.queue_position ?? 0));
+
+    const renumberQueue = (order: SimulatedJob[]) =>
+        order.forEach((entry, index) => {
+            entry.job.queue_position = index;
+        });
+
+    const active = () =>
+        jobs.find((entry) => ["STARTED", "PAUSED", "RESUMED"].includes(entry.job.status) && !entry.job.end_time) ?? null;
+
+    const findJob = (jobId: number) => jobs.find((entry) => entry.job.id === jobId) ?? null;
+
+    const setState = (next: PrinterState) => {
+        state = next;
+        stateSince = now;
+    };
+
+    const endJob = (entry: SimulatedJob, status: "FINISHED" | "FAILED" | "CANCELLED") => {
+        entry.job.status = status;
+        entry.job.end_time = iso(now);
+        entry.job.filament_used = entry.gcode.filamentLength * ((entry.job.progress ?? 0) / 100);
+        nozzleTarget = 0;
+        bedTarget = 0;
+    };
+
+    // Seed a short history so the history, analytics and media views aren't empty.
+    const seed = () => {
+        const day = 24 * 60 * 60 * 1000;
+        [
+            ["calibration_cube.gcode", "FINISHED", 3],
+            ["benchy.gcode", "FAILED", 2],
+            ["phone_stand.gcode", "FINISHED", 1],
+        ].forEach(([fileName, status, daysAgo]) => {
+            const started = now - (daysAgo as number) * day;
+            const entry = createJob(fileName as string, "STARTED", started);
+            const fraction = status === "FINISHED" ? 1 : 0.4;
+            entry.job.status = status as Job["status"];
+            entry.job.progress = fraction * 100;
+            entry.job.end_time = iso(started + jobDuration * 1000 * fraction * 1.1);
+            entry.job.filament_used = entry.gcode.filamentLength * fraction;
+            entry.photos = [0, 0.5, 1].filter((f) => f <= fraction).map((f) => placeholderPhoto(started + jobDuration * 1000 * f));
+        });
+        ratings.set(1, { jobId: 1, printQuality: 8, printSpeed: 7, feedback: "Clean edges.", defects: [], photo: null });
+        renumberQueue([createJob("bracket.gcode", "QUEUED", now - 60000), createJob("gear.gcode", "QUEUED", now - 30000)]);
+    };
+    seed();
+
+    const applyEvent = (event: ScenarioEvent) => {
+        const current = active();
+        switch (event.kind) {
+            case "thermalRunaway":
+                runaway = { heater: event.heater, ratePerSecond: event.ratePerSecond };
+                break;
+            case "fail":
+                if (current) {
+                    endJob(current, "FAILED");
+                    current.events.push({ timestamp: iso(now), type: "error", message: event.reason });
+                }
+                setState("Error");
+                break;
+            case "pause":
+                if (current && state === "Printing") {
+                    current.job.status = "PAUSED";
+                    setState("Paused");
+                }
+                break;
+            case "disconnect":
+                disconnectedFor = event.seconds;
+                break;
+        }
+    };
+
+    const runScenario = () => {
+        const progress = active()?.job.progress;
+        for (let index = pending.length - 1; index >= 0; index--) {
+            const step = pending[index];
+            const due =
+                (step.afterSeconds !== undefined && elapsedTotal >= step.afterSeconds) ||
+                (step.atProgress !== undefined && progress !== undefined && progress >= step.atProgress);
+            if (!due) continue;
+            pending.splice(index, 1);
+            applyEvent(step.event);
+        }
+    };
+
+    const heat = (dt: number) => {
+        nozzle = approachTemperature(nozzle, nozzleTarget, dt, NOZZLE_TIME_CONSTANT);
+        bed = approachTemperature(bed, bedTarget, dt, BED_TIME_CONSTANT);
+        if (runaway?.heater === "nozzle") nozzle = Math.min(RUNAWAY_LIMIT, Math.max(nozzle, nozzleTarget) + runaway.ratePerSecond * dt);
+        if (runaway?.heater === "bed") bed = Math.min(RUNAWAY_LIMIT, Math.max(bed, bedTarget) + runaway.ratePerSecond * dt);
+    };
+
+    const print = (entry: SimulatedJob, dt: number) => {
+        // Like real firmware, nothing moves until both heaters are up to temperature.
+        if (!isAtTemperature(nozzle, nozzleTarget, NOZZLE_TOLERANCE) || !isAtTemperature(bed, bedTarget, BED_TOLERANCE)) return;
+
+        const before = entry.job.progress ?? 0;
+        entry.elapsed += dt;
+        const progress = Math.min(100, (entry.elapsed / jobDuration) * 100);
+        entry.job.progress = progress;
+        lastValid = commandAt(entry.gcode, progress);
+
+        if (Math.floor(progress / PHOTO_EVERY_PERCENT) > Math.floor(before / PHOTO_EVERY_PERCENT)) {
+            entry.photos.push(placeholderPhoto(now));
+        }
+        if (progress >= 100) {
+            endJob(entry, "FINISHED");
+            setState("Finished");
+        }
+    };
+
+    const recordTemperatures = (entry: SimulatedJob) => {
+        const last = entry.temperatures[entry.temperatures.length - 1];
+        if (last && now - last.timestamp < HISTORY_SAMPLE_INTERVAL) return;
+        entry.temperatures.push({ timestamp: now, nozzle, bed, nozzleTarget, bedTarget });
+    };
+
+    const step = (dt: number) => {
+        now += dt * 1000;
+        elapsedTotal += dt;
+        disconnectedFor = Math.max(0, disconnectedFor - dt);
+        heat(dt);
+
+        const current = active();
+        if (current) {
+            recordTemperatures(current);
+            if (state === "Printing") print(current, dt);
+        }
+
+        const held = (now - stateSince) / 1000;
+        if ((state === "Finished" && held >= FINISHED_HOLD) || (state === "Cancelling" && held >= CANCELLING_HOLD)) {
+            setState("Idle");
+        }
+        runScenario();
+    };
+
+    const status = (): PrinterStatus => ({
+        state,
+        nozzle_temperature: Math.round((nozzle + sensorNoise(now, 0.3)) * 10) / 10,
+        bed_temperature: Math.round((bed + sensorNoise(now + 500, 0.2)) * 10) / 10,
+        nozzle_target: nozzleTarget,
+        bed_target: bedTarget,
+        operational: state !== "Error" && state !== "Offline",
+        printing: state === "Printing",
+        paused: state === "Paused",
+    });
+
+    const allJobs = () => jobs.map((entry) => ({ ...entry.job }));
+
+    const startNext = (): SimulatedResponse => {
+        if (state !== "Idle" && state !== "Operational" && state !== "Finished") return error(409, "Printer is busy");
+        const [next, ...rest] = queued();
+        if (!next) return error(409, "Queue is empty");
+
+        next.job.status = "STARTED";
+        next.job.start_time = iso(now);
+        delete next.job.queue_position;
+        renumberQueue(rest);
+        nozzleTarget = DEFAULT_NOZZLE;
+        bedTarget = DEFAULT_BED;
+        runaway = null;
+        setState("Printing");
+        return ok();
+    };
+
+    const jobRoute = (entry: SimulatedJob, rest: string, request: SimulatedRequest): SimulatedResponse => {
+        const { method, body } = request;
+        const jobId = entry.job.id;
+        if (rest === "" && method === "GET") return ok(entry.job);
+        if (rest === "/rating" && method === "GET") return ratings.has(jobId) ? ok(ratings.get(jobId)) : error(404, "Not rated");
+        if (rest === "/rating" && method === "PUT") {
+            return withBody(body, parseJobRating, (rating) => {
+                if (rating.jobId !== jobId) return error(400, "Rating for this job expected");
+                ratings.set(jobId, rating);
+                return ok();
+            });
+        }
+        if (rest === "/events" && method === "GET") return ok(entry.events);
+        if (rest === "/events" && method === "POST") {
+            if (!isObject(body)) return error(400, "Event expected");
+            entry.events.push({ timestamp: iso(now), type: String(body.type), message: String(body.message) });
+            return ok();
+        }
+        if (rest === "/snapshots" && method === "POST") {
+            entry.photos.push(placeholderPhoto(now));
+            return ok();
+        }
+        return error(404, "Not found");
+    };
+
+    const route = (request: SimulatedRequest): SimulatedResponse => {
+        const { method, path, query, body } = request;
+        const name = `${method} ${path}`;
+        const jobParam = () => findJob(Number(query.get("jobId")));
+
+        const jobMatch = path.match(/^\/jobs\/(\d+)(\/[a-z]+)?$/);
+        if (jobMatch) {
+            const entry = findJob(Number(jobMatch[1]));
+            return entry ? jobRoute(entry, jobMatch[2] ?? "", request) : error(404, "Unknown job");
+        }
+
+        const queueMatch = path.match(/^\/queue\/(\d+)$/);
+        if (queueMatch && method === "DELETE") {
+            const entry = findJob(Number(queueMatch[1]));
+            if (!entry || entry.job.status !== "QUEUED") return error(404, "Not queued");
+            jobs.splice(jobs.indexOf(entry), 1);
+            renumberQueue(queued());
+            return ok();
+        }
+
+        switch (name) {
+            case "GET /printer-status":
+                return ok(status());
+            case "GET /jobs":
+                return ok(allJobs());
+            case "GET /ratings":
+                return ok(Array.from(ratings.values()));
+            case "POST /rate-job":
+                return withBody(body, parseJobRating, (rating) => {
+                    if (!findJob(rating.jobId)) return error(400, "Rating for a known job expected");
+                    if (ratings.has(rating.jobId)) return error(409, "Already rated");
+                    ratings.set(rating.jobId, rating);
+                    return ok();
+                });
+            case "POST /pause": {
+                const current = active();
+                if (state !== "Printing" || !current) return error(409, "Not printing");
+                current.job.status = "PAUSED";
+                setState("Paused");
+                return ok();
+            }
+            case "POST /continue": {
+                const current = active();
+                if (state !== "Paused" || !current) return error(409, "Not paused");
+                current.job.status = "RESUMED";
+                setState("Printing");
+                return ok();
+            }
+            case "POST /cancel": {
+                const current = active();
+                if (!current) return error(409, "Nothing to cancel");
+                endJob(current, "CANCELLED");
+                runaway = null;
+                setState("Cancelling");
+                return ok();
+            }
+            case "POST /preheat": {
+                if (!isObject(body) || typeof body.nozzle !== "number" || typeof body.bed !== "number") {
+                    return error(400, "Setpoints expected");
+                }
+                nozzleTarget = body.nozzle;
+                bedTarget = body.bed;
+                return ok();
+            }
+            case "GET /last-valid":
+                return ok({ command: lastValid });
+            case "POST /next-valid": {
+                const current = active();
+                if (state !== "Paused" || !current) return error(409, "Not paused");
+                if (!isObject(body) || typeof body.command !== "string") return error(400, "Command expected");
+                lastValid = body.command;
+                if (typeof body.line === "number") {
+                    // Resume from the chosen line by moving progress to its share of the file.
+                    current.elapsed = (body.line / current.gcode.lines.length) * jobDuration;
+                    current.job.progress = (current.elapsed / jobDuration) * 100;
+                }
+                current.job.status = "RESUMED";
+                setState("Printing");
+                return ok();
+            }
+            case "GET /timelapse": {
+                const entry = jobParam();
+                return entry && entry.job.status !== "QUEUED"
+                    ? { status: 200, body: placeholderTimelapse(), contentType: "video/mp4" }
+                    : error(404, "No timelapse");
+            }
+            case "GET /pictureHistory": {
+                const entry = jobParam();
+                return entry ? { status: 200, body: photoArchive(entry.photos), contentType: "application/zip" } : error(404, "Unknown job");
+            }
+            case "GET /gcode": {
+                const entry = jobParam();
+                return entry ? { status: 200, body: entry.gcode.lines.join("\n"), contentType: "text/plain" } : error(404, "Unknown job");
+            }
+            case "GET /temperature-history": {
+                const entry = jobParam();
+                if (!entry) return error(404, "Unknown job");
+                return ok(
+                    entry.temperatures.map((sample) => ({
+                        timestamp: iso(sample.timestamp),
+                        nozzle_temperature: sample.nozzle,
+                        bed_temperature: sample.bed,
+                        nozzle_target: sample.nozzleTarget,
+                        bed_target: sample.bedTarget,
+                    }))
+                );
+            }
+            case "GET /queue":
+                return ok(queued().map((entry) => ({ ...entry.job })));
+            case "POST /queue": {
+                const file = body instanceof FormData ? body.get("file") : null;
+                if (!(file instanceof File)) return error(400, "File expected");
+                const entry = createJob(file.name, "QUEUED", now);
+                entry.job.queue_position = queued().length - 1;
+                return ok(entry.job);
+            }
+            case "PUT /queue/order": {
+                const ids = isObject(body) && Array.isArray(body.jobIds) ? body.jobIds.map(Number) : null;
+                const current = queued();
+                if (!ids || ids.length !== current.length || !current.every((entry) => ids.includes(entry.job.id))) {
+                    return error(400, "Every queued job id expected once");
+                }
+                renumberQueue(ids.flatMap((id) => current.filter((entry) => entry.job.id === id)));
+                return ok();
+            }
+            case "POST /queue/start":
+                return startNext();
+            case "GET /audit":
+                return ok([...audit].reverse());
+            case "POST /telemetry/ticket": {
+                const ticket = `ticket-${nextTicket++}`;
+                tickets.set(ticket, now + TICKET_LIFETIME);
+                return ok({ ticket });
+            }
+            default:
+                return error(404, `No simulated route for ${name}`);
+        }
+    };
+
+    // Checks the token and the user's role, then audits control commands under that user, refused or not.
+    const handle = (request: SimulatedRequest): SimulatedResponse => {
+        const { user } = request;
+        if (!user) return error(401, "Sign in required");
+        const permission = requiredPermission(request);
+        const action = auditedAction(request);
+        const jobId = ((action === "start" ? queued()[0] : active())?.job.id) ?? null;
+
+        const response =
+            permission && !hasPermission(user, permission) ? error(403, `The ${permission} permission is required`) : route(request);
+        if (action) {
+            const failed = response.status >= 300;
+            audit.push({
+                timestamp: iso(now),
+                user: user.username,
+                action,
+                job_id: jobId,
+                result: failed ? "failure" : "success",
+                ...(failed && isObject(response.body) ? { detail: String(response.body.error) } : {}),
+            });
+        }
+        return response;
+    };
+
+    return {
+        tick: (seconds) => {
+            for (let remaining = seconds; remaining > 0; remaining -= MAX_STEP) step(Math.min(MAX_STEP, remaining));
+        },
+        handle,
+        isReachable: () => disconnectedFor <= 0,
+        now: () => now,
+        telemetry: () => ({
+            status: status(),
+            jobs: allJobs(),
+            command: { command: lastValid },
+            queue: queued().map((entry) => ({ ...entry.job })),
+        }),
+        addScenarioStep: (scenarioStep) => {
+            pending.push(scenarioStep);
+        },
+        redeemTelemetryTicket: (ticket) => {
+            const expires = tickets.get(ticket);
+            tickets.delete(ticket);
+            return expires !== undefined && expires >= now;
+        },
+    };
+};
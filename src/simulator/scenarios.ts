@@ -0,0 +1,25 @@
+export type ScenarioEvent =
+    // The heater keeps driving after reaching its target, as with a loose thermistor.
+    | { kind: "thermalRunaway"; heater: "nozzle" | "bed"; ratePerSecond: number }
+    // The print stops and the printer reports Error, e.g. a clogged nozzle or a lost step.
+    | { kind: "fail"; reason: string }
+    | { kind: "pause" }
+    // Every request fails with a network error for a while.
+    | { kind: "disconnect"; seconds: number };
+
+/**
+ * Fires once, when the active job reaches `atProgress` percent or the simulation has run for
+ * `afterSeconds`, whichever is given.
+ */
+export interface ScenarioStep {
+    atProgress?: number;
+    afterSeconds?: number;
+    event: ScenarioEvent;
+}
+
+export const SCENARIOS: Record<string, ScenarioStep[]> = {
+    normal: [],
+    thermalRunaway: [{ atProgress: 20, event: { kind: "thermalRunaway", heater: "nozzle", ratePerSecond: 2 } }],
+    midPrintFailure: [{ atProgress: 50, event: { kind: "fail", reason: "Filament runout sensor triggered" } }],
+    connectionLoss: [{ atProgress: 30, event: { kind: "disconnect", seconds: 20 } }],
+};
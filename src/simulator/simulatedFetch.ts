@@ -0,0 +1,114 @@
+import { Role, User } from "../auth/roles";
+import { createPrinterSimulator, PrinterSimulator, SimulatedResponse, SimulatorOptions } from "./printerSimulator";
+
+// Accounts accepted by the simulated login service, all with the password "password".
+export const SIMULATED_USERS: Record<string, Role> = {
+    admin: "admin",
+    operator: "operator",
+    viewer: "viewer",
+};
+export const SIMULATED_PASSWORD = "password";
+
+export interface SimulatedBackend {
+    fetch: typeof fetch;
+    // The printer behind a backend base URL, created on first use.
+    simulator: (baseUrl: string) => PrinterSimulator;
+    // Advances every simulated printer.
+    tick: (seconds: number) => void;
+}
+
+const DASHBOARD_PATH = "/dashboard";
+
+const toBytes = (body: unknown): Uint8Array | string =>
+    body instanceof Uint8Array || typeof body === "string" ? body : JSON.stringify(body ?? null);
+
+// Only the parts of Response that api/http.ts reads, so this also works where Response is missing (jsdom).
+const createResponse = ({ status, body, contentType = "application/json" }: SimulatedResponse): Response => {
+    const payload = toBytes(body);
+    const blob = new Blob([payload], { type: contentType });
+    const text = typeof payload === "string" ? payload : Array.from(payload, (byte) => String.fromCharCode(byte)).join("");
+    const headers: Record<string, string> = { "content-type": contentType, "content-length": String(blob.size) };
+
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        body: null,
+        headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+        json: async () => JSON.parse(text),
+        text: async () => text,
+        blob: async () => blob,
+    } as unknown as Response;
+};
+
+const parseBody = (body: RequestInit["body"]) => {
+    if (typeof body !== "string") return body ?? undefined;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+};
+
+// Simulated tokens name their user, so any role can be tried by hand.
+const tokenUser = (init: RequestInit): User | null => {
+    const authorization = (init.headers as Record<string, string> | undefined)?.Authorization ?? "";
+    const username = authorization.match(/^Bearer sim-token-(\w+)$/)?.[1];
+    const role = username ? SIMULATED_USERS[username] : undefined;
+    return username && role ? { username, role } : null;
+};
+
+const login = (body: unknown): SimulatedResponse => {
+    const { username, password } = (body ?? {}) as { username?: string; password?: string };
+    const role = username ? SIMULATED_USERS[username] : undefined;
+    if (!role || password !== SIMULATED_PASSWORD) return { status: 401, body: { error: "Invalid credentials" } };
+    return { status: 200, body: { token: `sim-token-${username}`, user: { username, role } } };
+};
+
+/**
+ * A drop-in `fetch` that answers the login service and every printer's /dashboard routes from
+ * in-memory simulators, one per backend base URL. Anything else goes to `passthrough`.
+ */
+export const createSimulatedBackend = (options: SimulatorOptions = {}, passthrough?: typeof fetch): SimulatedBackend => {
+    const simulators = new Map<string, PrinterSimulator>();
+
+    const simulator = (baseUrl: string) => {
+        let existing = simulators.get(baseUrl);
+        if (!existing) {
+            existing = createPrinterSimulator(options);
+            simulators.set(baseUrl, existing);
+        }
+        return existing;
+    };
+
+    const simulatedFetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+        const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+        const method = (init.method ?? "GET").toUpperCase();
+        const body = parseBody(init.body);
+
+        if (url.pathname.endsWith("/auth/login") && method === "POST") return createResponse(login(body));
+
+        const dashboardAt = url.pathname.indexOf(`${DASHBOARD_PATH}/`);
+        if (dashboardAt === -1) {
+            if (passthrough) return passthrough(input, init);
+            return createResponse({ status: 404, body: { error: `No simulated route for ${url.pathname}` } });
+        }
+
+        const printer = simulator(url.origin + url.pathname.slice(0, dashboardAt));
+        if (!printer.isReachable()) throw new TypeError("Failed to fetch");
+        return createResponse(
+            printer.handle({
+                method,
+                path: url.pathname.slice(dashboardAt + DASHBOARD_PATH.length),
+                query: url.searchParams,
+                body,
+                user: tokenUser(init),
+            })
+        );
+    };
+
+    return {
+        fetch: simulatedFetch as typeof fetch,
+        simulator,
+        tick: (seconds) => simulators.forEach((printer) => printer.tick(seconds)),
+    };
+};
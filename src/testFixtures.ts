@@ -0,0 +1,11 @@
+import { Job } from './types';
+
+// Shared test data. Tests override the fields they are about.
+
+export const job = (id: number, fields: Partial<Job> = {}): Job => ({
+  id,
+  file_name: `part-${id}.gcode`,
+  status: 'FINISHED',
+  start_time: '2025-03-10T12:00:00Z',
+  ...fields,
+});
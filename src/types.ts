@@ -0,0 +1,81 @@
+import { JobStatus } from "./lifecycle/jobState";
+import { PrinterState } from "./lifecycle/printerState";
+
+export interface Job {
+    id: number;
+    // Only set while the job is waiting in the queue; 0 is the next job to print.
+    queue_position?: number;
+    file_name: string;
+    status: JobStatus;
+    start_time: string;
+    end_time?: string | null;
+    filament_used?: number;
+    progress?: number;
+    estimated_completion_time?: number;
+}
+
+export interface JobRating {
+    jobId: number;
+    printQuality: number; // 1-10
+    printSpeed: number; // 1-10
+    feedback: string;
+    defects: string[];
+    // File name of a photo from the job's picture history.
+    photo: string | null;
+}
+
+export interface JobEvent {
+    timestamp: string;
+    type: string;
+    message: string;
+}
+
+export interface AuditEntry {
+    timestamp: string;
+    user: string;
+    action: string;
+    job_id: number | null;
+    result: "success" | "failure";
+    detail?: string;
+}
+
+export interface PrinterStatus {
+    state: PrinterState;
+    nozzle_temperature: number;
+    bed_temperature: number;
+    nozzle_target?: number;
+    bed_target?: number;
+    operational: boolean;
+    printing: boolean;
+    paused: boolean;
+}
+
+export interface TemperatureSample {
+    timestamp: number;
+    nozzle: number;
+    bed: number;
+    nozzleTarget?: number;
+    bedTarget?: number;
+}
+
+export interface BuildVolume {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export interface Camera {
+    id: string;
+    name: string;
+    streamUrl: string; // MJPEG
+    // The stream sends CORS headers, so frames can be read for snapshots, recording and stall detection.
+    cors?: boolean;
+}
+
+export interface Printer {
+    id: string;
+    name: string;
+    baseUrl: string;
+    cameras: Camera[];
+    buildVolume?: BuildVolume; // mm, used by the 3D twin
+}
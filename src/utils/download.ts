@@ -0,0 +1,31 @@
+export const saveBlob = (blob: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    // Give the browser a moment to start the download before releasing the blob.
+    setTimeout(() => window.URL.revokeObjectURL(url), 1000);
+};
+
+export const saveText = (text: string, type: string, fileName: string) =>
+    saveBlob(new Blob([text], { type: `${type};charset=utf-8` }), fileName);
+
+/**
+ * Opens `html` in a new window and shows the print dialog, from which it can also be saved as PDF.
+ * Returns false when the browser blocked the window.
+ */
+export const printHtml = (html: string) => {
+    const win = window.open("", "_blank");
+    if (!win) return false;
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    // Wait for inlined images to decode so they make it onto the page.
+    if (win.document.readyState === "complete") win.print();
+    else win.addEventListener("load", () => win.print(), { once: true });
+    return true;
+};
@@ -0,0 +1,21 @@
+export const formatDuration = (seconds: number | undefined) => {
+    if (!seconds) return "N/A";
+
+    const hrs = Math.floor(seconds / 3600);
+    const mins = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+
+    return `${hrs.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+};
+
+export const formatTimestamp = (timestamp: string | null) => {
+    if (!timestamp) return "In Progress";
+    const date = new Date(timestamp);
+    return date.toLocaleString("en-US", {
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        hour12: false,
+    });
+};
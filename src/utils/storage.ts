@@ -0,0 +1,19 @@
+// Small helpers around localStorage that never throw (private mode, quota, corrupt JSON).
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = window.localStorage.getItem(key);
+        return raw === null ? fallback : (JSON.parse(raw) as T);
+    } catch (error) {
+        console.error(`Error reading ${key} from storage:`, error);
+        return fallback;
+    }
+};
+
+export const saveJson = (key: string, value: unknown) => {
+    try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        console.error(`Error writing ${key} to storage:`, error);
+    }
+};